@@ -12,17 +12,25 @@ import { StatsManager } from './components/StatsManager';
 import { SettingsPanel } from './components/SettingsPanel';
 import { SessionConfirmationPopup } from './components/SessionConfirmationPopup';
 import { StorageManager, PendingOrphanSession } from './utils/storage';
-import { initializeUser } from './lib/database';
+import { initializeUser, getTimerPresets, saveTimerPresets, getThemeColors, saveThemeColors } from './lib/database';
+import { playBell, preloadBell, unlockBell } from './utils/bellPlayer';
+import { startPreparationCountdown, PreparationCountdown } from './utils/preparation';
+import { sanitizePresets } from './utils/timerPresets';
+import { sanitizeThemeColors } from './utils/themes';
 
 const App = () => {
   const [isMuted, setIsMuted] = useState(false);
+  const [masterVolume, setMasterVolume] = useState(() => StorageManager.getVolumeSettings().masterVolume);
   const [isAudioBlocked, setIsAudioBlocked] = useState(true);
   const [isSilentMode, setIsSilentMode] = useState(false);
   const [userId, setUserId] = useState<string>('');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [pendingOrphanSession, setPendingOrphanSession] = useState<PendingOrphanSession | null>(null);
+  const [preparationRemaining, setPreparationRemaining] = useState<number | null>(null);
   const audioRef = useRef<AudioPlayerHandle | null>(null);
+  const preparationRef = useRef<PreparationCountdown | null>(null);
 
   // Check if silent mode is selected
   useEffect(() => {
@@ -34,6 +42,44 @@ const App = () => {
     }
   }, []);
 
+  // A timer preset can switch into or out of silent mode
+  useEffect(() => {
+    const handleMediaSelectionChanged = (event: Event) => {
+      const { selectedAudioId } = (event as CustomEvent<{ selectedAudioId?: string }>).detail || {};
+      if (selectedAudioId === undefined) return;
+
+      const silent = selectedAudioId === 'silence';
+      setIsSilentMode(silent);
+      if (silent) {
+        setIsPlaying(false);
+        setIsMuted(true);
+      }
+    };
+
+    window.addEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+    return () => {
+      window.removeEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+    };
+  }, []);
+
+  // The master volume can also be set in SettingsPanel
+  useEffect(() => {
+    const handleVolumeSettingsChanged = () => {
+      setMasterVolume(StorageManager.getVolumeSettings().masterVolume);
+    };
+
+    window.addEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+    return () => {
+      window.removeEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+    };
+  }, []);
+
+  const handleMasterVolume = (volume: number) => {
+    setMasterVolume(volume);
+    StorageManager.updateVolumeSettings({ masterVolume: volume });
+    window.dispatchEvent(new CustomEvent('volumeSettingsChanged'));
+  };
+
   // Check for pending orphan session on mount
   useEffect(() => {
     const pending = StorageManager.getPendingOrphanSession();
@@ -74,13 +120,7 @@ const App = () => {
   // Initialize user ID and sync with database
   useEffect(() => {
     const initUser = async () => {
-      let id = StorageManager.getUserId();
-
-      // If no user ID exists, generate one
-      if (!id) {
-        id = crypto.randomUUID();
-        localStorage.setItem('om-user-id', id);
-      }
+      const id = StorageManager.getUserId();
 
       const displayName = StorageManager.getDisplayName();
       setUserId(id);
@@ -97,16 +137,47 @@ const App = () => {
       } catch (error) {
         console.error('Error initializing user:', error);
         // Database unavailable, running in local-only mode
+        return;
+      }
+
+      try {
+        // Timer presets follow the user - the database copy wins, local-only presets are uploaded
+        const remotePresets = sanitizePresets(await getTimerPresets(id));
+        if (remotePresets) {
+          StorageManager.saveTimerPresets(remotePresets);
+          window.dispatchEvent(new CustomEvent('timerPresetsChanged'));
+        } else if (StorageManager.hasCustomTimerPresets()) {
+          await saveTimerPresets(id, StorageManager.getTimerPresets());
+        }
+      } catch (error) {
+        console.error('Error syncing timer presets:', error);
+      }
+
+      try {
+        // Themes follow the user the same way
+        const remoteThemes = sanitizeThemeColors(await getThemeColors(id));
+        if (remoteThemes) {
+          StorageManager.updateThemeSettings(remoteThemes.current);
+          StorageManager.saveSavedThemes(remoteThemes.themes);
+          window.dispatchEvent(new CustomEvent('themeSettingsChanged'));
+        } else if (StorageManager.hasCustomTheme()) {
+          await saveThemeColors(id, {
+            current: StorageManager.getThemeSettings(),
+            themes: StorageManager.getSavedThemes()
+          });
+        }
+      } catch (error) {
+        console.error('Error syncing themes:', error);
       }
     };
 
     initUser();
   }, []);
 
-  // Handle ending the session (from button click)
-  const handleEndSession = () => {
-    // Stop audio
-    audioRef.current?.pause();
+  // Handle ending the session (from button click, or auto-end at the goal with its exact duration)
+  const handleEndSession = (durationSeconds?: number) => {
+    // Fade the sound out rather than cutting it off
+    audioRef.current?.fadeOut();
     setIsPlaying(false);
     setIsMuted(false);
 
@@ -114,15 +185,65 @@ const App = () => {
     setIsAudioBlocked(true);
 
     // Dispatch custom event to notify GlobalCounter to end the session
-    window.dispatchEvent(new CustomEvent('endMeditationSession'));
+    window.dispatchEvent(new CustomEvent('endMeditationSession', {
+      detail: durationSeconds !== undefined ? { durationSeconds } : undefined
+    }));
+  };
+
+  // Timer asked to end the session (goal reached with auto-end) - same path as the button
+  useEffect(() => {
+    const handleRequestEndSession = (event: Event) => {
+      const { durationSeconds } = (event as CustomEvent<{ durationSeconds?: number }>).detail || {};
+      handleEndSession(durationSeconds);
+    };
+
+    window.addEventListener('requestEndSession', handleRequestEndSession);
+    return () => {
+      window.removeEventListener('requestEndSession', handleRequestEndSession);
+    };
+  }, []);
+
+  // Follow pauses from the lock screen controls too, so the button shows Resume
+  useEffect(() => {
+    const handleSessionPaused = () => setIsPaused(true);
+    const handleSessionResumed = () => setIsPaused(false);
+
+    window.addEventListener('pauseMeditationSession', handleSessionPaused);
+    window.addEventListener('resumeMeditationSession', handleSessionResumed);
+    return () => {
+      window.removeEventListener('pauseMeditationSession', handleSessionPaused);
+      window.removeEventListener('resumeMeditationSession', handleSessionResumed);
+    };
+  }, []);
+
+  // Pause the session without ending it - paused time isn't counted and the ambient loop stops
+  const handlePauseSession = () => {
+    audioRef.current?.pause();
+    setIsPaused(true);
+    window.dispatchEvent(new CustomEvent('pauseMeditationSession'));
+  };
+
+  // Resume a paused session and its ambient loop
+  const handleResumeSession = async () => {
+    setIsPaused(false);
+    window.dispatchEvent(new CustomEvent('resumeMeditationSession'));
+
+    if (!isSilentMode && isPlaying) {
+      try {
+        await audioRef.current?.play();
+      } catch (error) {
+        console.error('Failed to resume audio:', error);
+      }
+    }
   };
 
   // Listen for session end events (allows programmatic session ending)
   useEffect(() => {
     const handleSessionEnded = () => {
-      // Stop audio and show entry overlay
-      audioRef.current?.pause();
+      // Fade out audio and show entry overlay
+      audioRef.current?.fadeOut();
       setIsPlaying(false);
+      setIsPaused(false);
       setIsMuted(false);
       setIsAudioBlocked(true);
     };
@@ -133,29 +254,85 @@ const App = () => {
     };
   }, []);
 
-  // Handle user interaction to start/toggle audio
-  const handleInteraction = async () => {
-    const wasBlocked = isAudioBlocked;
+  // Stop the preparation countdown without starting the session
+  const clearPreparationTimer = () => {
+    preparationRef.current?.cancel();
+    preparationRef.current = null;
+  };
+
+  useEffect(() => {
+    return () => clearPreparationTimer();
+  }, []);
 
+  // Leave the entry screen: start audio and the session (session clock starts here)
+  const startSession = async () => {
     if (isSilentMode) {
       setIsAudioBlocked(false);
-      // Trigger session start immediately when tapping past entry screen
-      if (wasBlocked) {
-        window.dispatchEvent(new CustomEvent('startMeditationSession'));
+      window.dispatchEvent(new CustomEvent('startMeditationSession'));
+      return;
+    }
+
+    try {
+      await audioRef.current?.play();
+      setIsPlaying(true);
+      setIsMuted(false);
+      setIsAudioBlocked(false);
+      window.dispatchEvent(new CustomEvent('startMeditationSession'));
+    } catch (error) {
+      console.error('Audio interaction failed:', error);
+      setIsAudioBlocked(false);
+      // Still trigger session start even if audio fails
+      window.dispatchEvent(new CustomEvent('startMeditationSession'));
+    }
+  };
+
+  // Preparation finished (or skipped): ring the starting bell, then start the session
+  const finishPreparation = () => {
+    preparationRef.current = null;
+    setPreparationRemaining(null);
+    playBell();
+    startSession();
+  };
+
+  // Count down on the entry overlay before the session is created,
+  // so preparation time never counts toward totalSeconds. Called from the tap:
+  // audio is unlocked now, only the audible start waits for the countdown.
+  const startPreparation = (seconds: number) => {
+    unlockBell();
+    if (!isSilentMode) {
+      audioRef.current?.unlock();
+    }
+    preloadBell();
+    preparationRef.current = startPreparationCountdown(seconds, setPreparationRemaining, finishPreparation);
+  };
+
+  // Handle user interaction to start/toggle audio
+  const handleInteraction = async () => {
+    if (isAudioBlocked) {
+      // Tapping during preparation begins right away
+      if (preparationRef.current?.isRunning()) {
+        preparationRef.current.skip();
+        return;
+      }
+
+      const preparationSeconds = StorageManager.getSettings().timerSettings?.preparationSeconds || 0;
+      if (preparationSeconds > 0) {
+        startPreparation(preparationSeconds);
+      } else {
+        // Trigger session start immediately when tapping past entry screen
+        await startSession();
       }
       return;
     }
 
+    // Audio stays stopped while paused - resume the session to hear it again
+    if (isSilentMode || isPaused) return;
+
     try {
-      if (isAudioBlocked || !isPlaying) {
+      if (!isPlaying) {
         await audioRef.current?.play();
         setIsPlaying(true);
         setIsMuted(false);
-        setIsAudioBlocked(false);
-        // Trigger session start immediately when tapping past entry screen
-        if (wasBlocked) {
-          window.dispatchEvent(new CustomEvent('startMeditationSession'));
-        }
       } else if (isMuted) {
         audioRef.current?.setMuted(false);
         setIsMuted(false);
@@ -165,11 +342,6 @@ const App = () => {
       }
     } catch (error) {
       console.error('Audio interaction failed:', error);
-      setIsAudioBlocked(false);
-      // Still trigger session start even if audio fails
-      if (wasBlocked) {
-        window.dispatchEvent(new CustomEvent('startMeditationSession'));
-      }
     }
   };
 
@@ -205,16 +377,24 @@ const App = () => {
         </header>
 
         <main className="w-full max-w-4xl flex flex-col items-center space-y-8 pointer-events-auto" onClick={(e) => e.stopPropagation()}>
-          <UnifiedTimer />
+          <UnifiedTimer isMuted={isMuted} />
 
-          {/* End Session Button - only show when session is active */}
+          {/* Pause / End Session Buttons - only show when session is active */}
           {!isAudioBlocked && (
-            <button
-              onClick={handleEndSession}
-              className="px-8 py-3 border-2 border-red-500/50 rounded-lg text-red-400 text-sm uppercase tracking-[0.3em] font-medium hover:bg-red-500/20 hover:border-red-500 transition-all duration-300"
-            >
-              End Session
-            </button>
+            <div className="flex flex-wrap gap-4 justify-center">
+              <button
+                onClick={isPaused ? handleResumeSession : handlePauseSession}
+                className="px-8 py-3 border-2 border-primary-50 rounded-lg text-primary text-sm uppercase tracking-[0.3em] font-medium hover:bg-primary-20 hover:border-primary transition-all duration-300"
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={() => handleEndSession()}
+                className="px-8 py-3 border-2 border-red-500/50 rounded-lg text-red-400 text-sm uppercase tracking-[0.3em] font-medium hover:bg-red-500/20 hover:border-red-500 transition-all duration-300"
+              >
+                End Session
+              </button>
+            </div>
           )}
         </main>
 
@@ -237,7 +417,7 @@ const App = () => {
               title={isSilentMode ? 'Silent meditation mode' : (isMuted ? 'Click to unmute' : 'Click to mute')}
             >
               <div className="flex items-center space-x-1.5 h-6">
-                {!isMuted && !isAudioBlocked && !isSilentMode ? (
+                {!isMuted && !isAudioBlocked && !isSilentMode && !isPaused ? (
                   [1, 2, 3, 4, 5].map((i) => (
                     <div
                       key={i}
@@ -250,8 +430,21 @@ const App = () => {
                 )}
               </div>
               <span className="text-[10px] uppercase tracking-[0.3em] text-primary-30 font-medium">
-                {isSilentMode ? 'Silent Mode' : (isMuted ? 'Muted' : 'Sound Active')}
+                {isSilentMode ? 'Silent Mode' : (isPaused ? 'Paused' : (isMuted ? 'Muted' : 'Sound Active'))}
               </span>
+              {!isSilentMode && (
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={masterVolume}
+                  onChange={(e) => handleMasterVolume(parseFloat(e.target.value))}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-24 h-1 accent-[var(--color-primary)] opacity-60 hover:opacity-100 transition-opacity"
+                  title={`Volume ${Math.round(masterVolume * 100)}%`}
+                />
+              )}
             </div>
           </div>
         </footer>
@@ -266,16 +459,31 @@ const App = () => {
       {isAudioBlocked && !pendingOrphanSession && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-xl transition-opacity duration-1000 cursor-pointer"
-          onClick={handleInteraction}
+          onClick={(e) => {
+            // Don't let the tap reach the app container too - it would skip the preparation
+            e.stopPropagation();
+            handleInteraction();
+          }}
         >
-          <div className="text-center px-8">
-            <h1 className="text-6xl font-cinzel text-white/90 mb-4 drop-shadow-2xl tracking-[0.2em]">MEDITATE</h1>
-            <p className="text-primary text-[12px] uppercase tracking-[0.6em] font-bold animate-pulse">
-              Tap to Begin
-              <br />
-              <span className="text-[9px] text-primary-30 mt-4 block tracking-[0.2em]">Your practice starts now</span>
-            </p>
-          </div>
+          {preparationRemaining !== null ? (
+            <div className="text-center px-8">
+              <h1 className="text-8xl font-cinzel text-white/90 mb-4 drop-shadow-2xl glow-primary-strong">{preparationRemaining}</h1>
+              <p className="text-primary text-[12px] uppercase tracking-[0.6em] font-bold animate-pulse">
+                Settle In
+                <br />
+                <span className="text-[9px] text-primary-30 mt-4 block tracking-[0.2em]">Tap to begin now</span>
+              </p>
+            </div>
+          ) : (
+            <div className="text-center px-8">
+              <h1 className="text-6xl font-cinzel text-white/90 mb-4 drop-shadow-2xl tracking-[0.2em]">MEDITATE</h1>
+              <p className="text-primary text-[12px] uppercase tracking-[0.6em] font-bold animate-pulse">
+                Tap to Begin
+                <br />
+                <span className="text-[9px] text-primary-30 mt-4 block tracking-[0.2em]">Your practice starts now</span>
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { mediaCache, LibraryTrack } from '../utils/storage';
+import { PREDEFINED_AUDIO } from '../utils/mediaCatalog';
+import { MAX_TRACK_BYTES, parseTags, formatTrackDuration, getLibraryTags, readAudioDuration } from '../utils/playlists';
+
+interface AudioLibraryProps {
+  selectedAudioId: string | null;
+  onSelect: (trackId: string) => void;
+}
+
+/**
+ * AudioLibrary - Upload, tag and select personal audio tracks
+ * Rendered in the Audio tab of SettingsPanel. Tracks live in IndexedDB;
+ * edits and deletions are announced with 'audioLibraryChanged' so playlists
+ * and the playing audio pick them up.
+ */
+export const AudioLibrary: React.FC<AudioLibraryProps> = ({ selectedAudioId, onSelect }) => {
+  const [tracks, setTracks] = useState<LibraryTrack[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingTrack, setEditingTrack] = useState<{ track: LibraryTrack; tags: string } | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadTracks = () => {
+      mediaCache.getLibraryTracks().then(setTracks);
+    };
+
+    loadTracks();
+    window.addEventListener('audioLibraryChanged', loadTracks);
+    return () => {
+      window.removeEventListener('audioLibraryChanged', loadTracks);
+    };
+  }, []);
+
+  const notifyChanged = () => {
+    window.dispatchEvent(new CustomEvent('audioLibraryChanged'));
+  };
+
+  const handleUpload = async (files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_TRACK_BYTES);
+    if (tooLarge.length > 0) {
+      alert(`Skipped ${tooLarge.map(file => file.name).join(', ')} - maximum size is 10MB.`);
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files.filter(file => file.size <= MAX_TRACK_BYTES)) {
+        const duration = await readAudioDuration(file);
+        await mediaCache.addLibraryTrack(file, duration, tagFilter ? [tagFilter] : []);
+      }
+    } catch (error) {
+      console.error('Failed to add track:', error);
+    } finally {
+      setUploading(false);
+      notifyChanged();
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editingTrack) return;
+
+    const { track, tags } = editingTrack;
+    await mediaCache.updateLibraryTrack({ ...track, name: track.name.trim() || 'Untitled Track', tags: parseTags(tags) });
+    setEditingTrack(null);
+    notifyChanged();
+  };
+
+  const handleDelete = async (trackId: string) => {
+    await mediaCache.deleteLibraryTrack(trackId);
+
+    // Deleting the playing track falls back to the first sound
+    if (trackId === selectedAudioId) {
+      onSelect(PREDEFINED_AUDIO[0].id);
+    }
+    notifyChanged();
+  };
+
+  const tags = getLibraryTags(tracks);
+  const visibleTracks = tagFilter ? tracks.filter(track => track.tags.includes(tagFilter)) : tracks;
+
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        My Library
+      </label>
+
+      {/* Tag filter */}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[null, ...tags].map((tag) => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => setTagFilter(tag)}
+              className={`px-3 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                tagFilter === tag
+                  ? 'bg-primary-30 border-primary text-white'
+                  : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+              }`}
+            >
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleTracks.map((track) => {
+        const isSelected = selectedAudioId === track.id;
+
+        // Track editor
+        if (editingTrack?.track.id === track.id) {
+          return (
+            <div key={track.id} className="space-y-2 p-4 rounded border border-primary bg-primary-5">
+              <input
+                type="text"
+                value={editingTrack.track.name}
+                onChange={(e) => setEditingTrack({ ...editingTrack, track: { ...editingTrack.track, name: e.target.value } })}
+                className="w-full px-3 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary"
+                placeholder="Track name"
+              />
+              <input
+                type="text"
+                value={editingTrack.tags}
+                onChange={(e) => setEditingTrack({ ...editingTrack, tags: e.target.value })}
+                className="w-full px-3 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary"
+                placeholder="Tags, comma separated (e.g. rain, evening)"
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleSave}
+                  className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditingTrack(null)}
+                  className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={track.id}
+            className={`p-4 rounded border transition-all cursor-pointer ${
+              isSelected
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+            }`}
+            onClick={() => onSelect(track.id)}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <p className="text-white/90 font-medium truncate">{track.name}</p>
+                <p className="text-primary-40 text-xs mt-1 truncate">
+                  {[formatTrackDuration(track.durationSeconds), ...track.tags].join(' · ')}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {isSelected && (
+                  <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <span className="text-black text-xs">&#10003;</span>
+                  </div>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingTrack({ track, tags: track.tags.join(', ') });
+                  }}
+                  className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(track.id);
+                  }}
+                  className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                  title="Delete"
+                >
+                  &#10005;
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div
+        className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+        onClick={() => inputRef.current?.click()}
+      >
+        <p className="text-primary-50 text-center">
+          {uploading ? 'Adding...' : '+ Add Audio Files'}
+        </p>
+        <p className="text-primary-30 text-xs text-center mt-1">
+          MP3, WAV, OGG (max 10MB each){tagFilter && ` · tagged "${tagFilter}"`}
+        </p>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          e.target.value = '';
+          if (files.length > 0) {
+            handleUpload(files);
+          }
+        }}
+      />
+    </div>
+  );
+};
@@ -1,5 +1,15 @@
-import { forwardRef, useEffect, useState, useRef, useImperativeHandle, useCallback } from 'react';
-import { StorageManager, mediaCache } from '../utils/storage';
+import { forwardRef, useEffect, useRef, useImperativeHandle, useCallback } from 'react';
+import { StorageManager, mediaCache, GeneratorParams, EntrainmentSettings } from '../utils/storage';
+import { PREDEFINED_AUDIO } from '../utils/mediaCatalog';
+import { isSoundscapeId, getAudibleLayers } from '../utils/soundscapes';
+import { isGeneratedId, getGeneratorParams } from '../utils/generators';
+import { LoopingTrack, GeneratedLoopingTrack, createLoopingTrack, createGeneratedTrack } from '../utils/loopingTrack';
+import { EntrainmentTrack, getSessionGoalSeconds, DEFAULT_RAMP_SECONDS } from '../utils/entrainment';
+import { getAudioContext } from '../utils/audioContext';
+import { getCheckpointActiveSeconds } from '../utils/sessionTime';
+import { isLibraryTrackId, isPlaylistId, getPlaylistTracks } from '../utils/playlists';
+import { PlaylistTrack, PlaylistEntry } from '../utils/playlistTrack';
+import { updateMediaMetadata, setMediaTrack, updatePositionState } from '../utils/mediaSession';
 
 interface AudioPlayerProps {
   isMuted: boolean;
@@ -10,294 +20,486 @@ export interface AudioPlayerHandle {
   play: () => Promise<void>;
   pause: () => void;
   setMuted: (muted: boolean) => void;
+  fadeOut: () => void;
+  unlock: () => void;
 }
 
-const AUDIO_PATHS: Record<string, string> = {
-  'om-mantra': '/media/audio/predefined/om-mantra.mp3',
-  'meditation-bell': '/media/audio/predefined/meditation-bell-1min.mp3',
-  'rain': '/media/audio/predefined/11L-rain_storm-14472913.mp3',
-  'fire': '/media/audio/predefined/fire.mp3',
-  'ocean': '/media/audio/predefined/ocean-waves.mp3'
+// A resolved layer ready to play
+interface LayerSource {
+  url: string;  // File URL, 'generated:<id>' for a generated sound, or 'playlist:<id>:...' for a playlist
+  volume: number;  // 0-1, relative to the master volume
+  generator?: { id: string; params: GeneratorParams };
+  playlist?: { entries: PlaylistEntry[]; shuffle: boolean };
+}
+
+interface Layer extends LayerSource {
+  track: LoopingTrack;
+}
+
+const DEFAULT_AUDIO_ID = 'om-mantra';
+
+// Resolve a single audio id to a URL (custom uploads and library tracks come from IndexedDB)
+const resolveAudioUrl = async (audioId: string): Promise<string | null> => {
+  if (isLibraryTrackId(audioId)) {
+    return mediaCache.getLibraryTrackUrl(audioId);
+  }
+  if (audioId === 'custom') {
+    const customAudio = await mediaCache.getFile('audio');
+    if (customAudio) {
+      return customAudio.url;
+    }
+  }
+  return PREDEFINED_AUDIO.find(item => item.id === audioId && item.path)?.path || null;
 };
 
-// Crossfade duration in seconds
-const CROSSFADE_DURATION = 2;
-// How often to update volume during crossfade (ms)
-const FADE_INTERVAL = 50;
+// Resolve one audio id at a volume - generated sounds carry their saved parameters
+const resolveLayerSource = async (audioId: string, volume: number): Promise<LayerSource | null> => {
+  if (isGeneratedId(audioId)) {
+    return { url: `generated:${audioId}`, volume, generator: { id: audioId, params: getGeneratorParams(audioId) } };
+  }
+  const url = await resolveAudioUrl(audioId);
+  return url ? { url, volume } : null;
+};
 
-export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ isMuted }, ref) => {
-  const [audioSource, setAudioSource] = useState<string | null>(null);
+// Resolve a playlist to one layer that steps through its tracks. Without Web
+// Audio it falls back to looping the first track.
+const resolvePlaylistSource = async (playlistId: string): Promise<LayerSource | null> => {
+  const playlist = StorageManager.getPlaylist(playlistId);
+  if (!playlist) return null;
+
+  const tracks = getPlaylistTracks(playlist, await mediaCache.getLibraryTracks());
+  if (tracks.length === 0) return null;
+  if (!getAudioContext()) {
+    return resolveLayerSource(tracks[0].id, 1);
+  }
+
+  return {
+    // Keyed by content, so an edited playlist starts over with its new tracks
+    url: `playlist:${playlist.id}:${playlist.shuffle}:${tracks.map(track => track.id).join(',')}`,
+    volume: 1,
+    playlist: {
+      entries: tracks.map(track => ({ id: track.id, name: track.name })),
+      shuffle: playlist.shuffle
+    }
+  };
+};
+
+// Resolve the selected audio option to the layers to play:
+// nothing for silence (or entrainment tones played alone), every audible layer
+// for a soundscape, one layer otherwise
+const resolveLayers = async (): Promise<LayerSource[]> => {
+  const selectedId = StorageManager.getSettings().selectedAudioId;
+  const entrainment = StorageManager.getEntrainmentSettings();
+
+  if (selectedId === 'silence' || (entrainment.mode !== 'off' && !entrainment.withAmbient)) {
+    return [];
+  }
+
+  if (isPlaylistId(selectedId)) {
+    const source = await resolvePlaylistSource(selectedId!);
+    if (source) {
+      return [source];
+    }
+  }
+
+  if (isSoundscapeId(selectedId)) {
+    const soundscape = StorageManager.getSoundscape(selectedId!);
+    if (soundscape) {
+      const layers = await Promise.all(getAudibleLayers(soundscape).map(layer => resolveLayerSource(layer.audioId, layer.volume)));
+      return layers.filter((layer): layer is LayerSource => layer !== null);
+    }
+  }
+
+  const source = (selectedId && await resolveLayerSource(selectedId, 1)) || await resolveLayerSource(DEFAULT_AUDIO_ID, 1);
+  return source ? [source] : [];
+};
+
+// Create the track for a layer - generated sounds need Web Audio, so they are skipped without it
+const createTrack = (source: LayerSource): LoopingTrack | null => {
+  if (source.generator) {
+    return createGeneratedTrack(source.generator.id, source.generator.params, 0);
+  }
+  const context = getAudioContext();
+  if (source.playlist && context) {
+    const { entries, shuffle } = source.playlist;
+    return new PlaylistTrack(
+      source.url, entries, shuffle, 0, context,
+      (trackId) => mediaCache.getLibraryTrackUrl(trackId),
+      (entry) => setMediaTrack(entry.name)
+    );
+  }
+  return createLoopingTrack(source.url, 0);
+};
 
-  // Two audio elements for crossfade looping
-  const audio1Ref = useRef<HTMLAudioElement | null>(null);
-  const audio2Ref = useRef<HTMLAudioElement | null>(null);
+// Ramp times for ducking under a guided cue - dip quickly, recover gently (seconds)
+const DUCK_DOWN_SECONDS = 0.4;
+const DUCK_UP_SECONDS = 1.5;
 
-  // Track which audio is currently "primary" (fading in or playing full volume)
-  const activeAudioRef = useRef<1 | 2>(1);
+// Active seconds of the running session, so entrainment ramps pick up where it is
+const getSessionElapsed = (): number => {
+  const checkpoint = StorageManager.getSessionCheckpoint();
+  return checkpoint?.startedAt ? getCheckpointActiveSeconds(checkpoint) : 0;
+};
+
+/**
+ * AudioPlayer - Ambient sound mixer
+ *
+ * Plays the selected audio option as one or more layers, each looped with a
+ * crossfade by its own LoopingTrack (Web Audio, or audio elements as a fallback).
+ * A soundscape mixes several layers with individual volumes; generated sounds
+ * (noise, drone, pad) are synthesized instead of fetched. A playlist plays as
+ * one layer stepping through library tracks, with next/previous in the Media
+ * Session. Reloads without a page reload on 'mediaSelectionChanged' (timer
+ * presets), 'soundscapesChanged' (mixer edits, e.g. volume sliders),
+ * 'generatorSettingsChanged' (parameters), 'playlistsChanged' and
+ * 'audioLibraryChanged'.
+ *
+ * Binaural or isochronic entrainment tones can play underneath the ambient
+ * layers (or alone), their beat ramping over the session goal. They restart at
+ * the session's position on 'entrainmentSettingsChanged', 'timerSettingsChanged'
+ * and 'sessionGoalChanged'.
+ *
+ * The Media Session shows the sound (or playlist track) with the background as
+ * artwork and the session position against its goal. Its play and pause actions
+ * pause the session too ('pauseMeditationSession' / 'resumeMeditationSession'),
+ * and its stop action ends it through 'requestEndSession', like the App buttons.
+ *
+ * The master volume is saved in settings ('volumeSettingsChanged'). play() fades
+ * in and fadeOut() fades out before stopping, over the configured times. The
+ * layers duck to the guidance duck level between 'guidedCueStarted' and
+ * 'guidedCueEnded', so spoken cues are heard over the ambient sound.
+ */
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ isMuted }, ref) => {
+  const layersRef = useRef<Layer[]>([]);
+  const entrainmentRef = useRef<{ track: EntrainmentTrack; settings: EntrainmentSettings } | null>(null);
 
   // Playback state
   const isPlayingRef = useRef(false);
   const isMutedRef = useRef(isMuted);
-  const masterVolumeRef = useRef(0.8);
+  const masterVolumeRef = useRef(StorageManager.getVolumeSettings().masterVolume);
+  const fadeOutTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);  // Set while the session-end fade runs
+  const duckRef = useRef(1);  // Layer gain while a guided cue plays (1 = not ducked)
+
+  // Effective volume of a layer (or the entrainment tones) given the master
+  // volume, the mute state and a session-end fade in progress
+  const getEffectiveVolume = (volume: number): number => {
+    return isMutedRef.current || fadeOutTimeoutRef.current ? 0 : volume * masterVolumeRef.current;
+  };
 
-  // Fade interval refs
-  const fadeIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const scheduleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Apply every volume, ramped over `rampSeconds` for the session fades
+  const updateVolumes = (rampSeconds = 0) => {
+    layersRef.current.forEach(layer => layer.track.setVolume(getEffectiveVolume(layer.volume * duckRef.current), rampSeconds));
+    const entrainment = entrainmentRef.current;
+    entrainment?.track.setVolume(getEffectiveVolume(entrainment.settings.volume), rampSeconds);
+  };
 
-  // Update muted state
-  useEffect(() => {
-    isMutedRef.current = isMuted;
-    const volume = isMuted ? 0 : masterVolumeRef.current;
+  const clearFadeOut = () => {
+    if (fadeOutTimeoutRef.current) {
+      clearTimeout(fadeOutTimeoutRef.current);
+      fadeOutTimeoutRef.current = null;
+    }
+  };
+
+  // (Re)start the entrainment tones at the session's current position
+  const startEntrainment = () => {
+    entrainmentRef.current?.track.start(getSessionElapsed(), getSessionGoalSeconds() ?? DEFAULT_RAMP_SECONDS);
+  };
 
-    if (audio1Ref.current) {
-      // Preserve the relative volumes during crossfade
-      const currentRatio1 = audio1Ref.current.volume / masterVolumeRef.current || 0;
-      audio1Ref.current.volume = isMuted ? 0 : currentRatio1 * masterVolumeRef.current;
+  // Build the entrainment tones from settings - they need Web Audio.
+  // A volume change alone keeps the running tones.
+  const loadEntrainment = () => {
+    const settings = StorageManager.getEntrainmentSettings();
+    const current = entrainmentRef.current;
+    if (current && JSON.stringify({ ...current.settings, volume: 0 }) === JSON.stringify({ ...settings, volume: 0 })) {
+      current.settings = settings;
+      updateVolumes();
+      return;
     }
-    if (audio2Ref.current) {
-      const currentRatio2 = audio2Ref.current.volume / masterVolumeRef.current || 0;
-      audio2Ref.current.volume = isMuted ? 0 : currentRatio2 * masterVolumeRef.current;
+
+    current?.track.dispose();
+    entrainmentRef.current = null;
+
+    const context = getAudioContext();
+    if (settings.mode === 'off' || !context) return;
+
+    entrainmentRef.current = { track: new EntrainmentTrack(context, settings, 0), settings };
+    updateVolumes();
+    if (isPlayingRef.current) {
+      startEntrainment();
     }
-  }, [isMuted]);
+  };
 
-  // Load audio source from settings
+  // Update muted state
   useEffect(() => {
-    const loadAudioSource = async () => {
-      const settings = StorageManager.getSettings();
-      const selectedId = settings.selectedAudioId;
+    isMutedRef.current = isMuted;
+    updateVolumes();
+  }, [isMuted]);
 
-      // Handle silence option - no audio source
-      if (selectedId === 'silence') {
-        setAudioSource(null);
+  // Swap in a new set of layers - tracks already playing the same sound keep
+  // looping and only change volume (or generator parameters), so slider moves
+  // don't restart the mix
+  const applyLayers = (sources: LayerSource[]) => {
+    const current = layersRef.current;
+    const next: Layer[] = [];
+    let keptPlaylist = false;
+    sources.forEach((source) => {
+      const index = current.findIndex(layer => layer.url === source.url);
+      if (index >= 0) {
+        const [existing] = current.splice(index, 1);
+        if (source.generator && existing.track instanceof GeneratedLoopingTrack) {
+          existing.track.setParams(source.generator.params);
+        }
+        keptPlaylist = keptPlaylist || existing.track instanceof PlaylistTrack;
+        next.push({ ...source, track: existing.track });
         return;
       }
-
-      if (selectedId === 'custom') {
-        // Load custom audio from IndexedDB
-        const customAudio = await mediaCache.getFile('audio');
-        if (customAudio) {
-          setAudioSource(customAudio.url);
-          return;
-        }
+      const track = createTrack(source);
+      if (track) {
+        next.push({ ...source, track });
       }
+    });
 
-      // Use predefined audio
-      const audioPath = selectedId ? AUDIO_PATHS[selectedId] : AUDIO_PATHS['om-mantra'];
-      setAudioSource(audioPath || AUDIO_PATHS['om-mantra']);
-    };
+    // Anything not reused is no longer in the mix
+    current.forEach(layer => layer.track.dispose());
+    layersRef.current = next;
+    updateVolumes();
+    updateSkipHandlers();
 
-    loadAudioSource();
-  }, []);
+    // A playlist still playing keeps its track title until the next track starts
+    if (keptPlaylist) {
+      updateMediaMetadata();
+    } else {
+      setMediaTrack(null);
+    }
 
-  // Setup Media Session API for background playback
-  const setupMediaSession = useCallback(() => {
-    if ('mediaSession' in navigator) {
-      navigator.mediaSession.metadata = new MediaMetadata({
-        title: 'Meditation',
-        artist: 'Instant Om',
-        album: 'Meditation Session',
+    if (next.length === 0 && !entrainmentRef.current) {
+      isPlayingRef.current = false;
+    } else if (isPlayingRef.current) {
+      // Keep playing through the switch - start any new layers
+      next.forEach((layer) => {
+        if (!layer.track.isPlaying()) {
+          layer.track.play().catch(error => console.error('Failed to play layer:', error));
+        }
       });
+    }
+  };
 
-      navigator.mediaSession.setActionHandler('play', () => {
-        if (!isPlayingRef.current) {
-          play();
+  // Offer next/previous in the OS media controls while a playlist is in the mix
+  const updateSkipHandlers = () => {
+    if (!('mediaSession' in navigator)) return;
+    const hasPlaylist = layersRef.current.some(layer => layer.track instanceof PlaylistTrack);
+    const skip = (direction: 'next' | 'previous') => () => {
+      layersRef.current.forEach(({ track }) => {
+        if (track instanceof PlaylistTrack) {
+          track[direction]();
         }
       });
+    };
 
-      navigator.mediaSession.setActionHandler('pause', () => {
-        pause();
-      });
+    try {
+      navigator.mediaSession.setActionHandler('nexttrack', hasPlaylist ? skip('next') : null);
+      navigator.mediaSession.setActionHandler('previoustrack', hasPlaylist ? skip('previous') : null);
+    } catch {
+      // Skip actions not supported by this browser
     }
-  }, []);
+  };
 
-  // Initialize audio elements when source changes
+  // Load layers from settings, and again when the selection, a soundscape or a playlist changes
   useEffect(() => {
-    if (!audioSource) return;
-
-    // Create audio elements if they don't exist
-    if (!audio1Ref.current) {
-      audio1Ref.current = new Audio();
-      audio1Ref.current.preload = 'auto';
-    }
-    if (!audio2Ref.current) {
-      audio2Ref.current = new Audio();
-      audio2Ref.current.preload = 'auto';
-    }
-
-    // Set source for both audio elements
-    audio1Ref.current.src = audioSource;
-    audio2Ref.current.src = audioSource;
-
-    // Initial volume setup
-    audio1Ref.current.volume = 0;
-    audio2Ref.current.volume = 0;
+    let cancelled = false;
+    let layersRequest = 0;  // Bumped per load, so a slow resolve can't replace a newer selection
+
+    const loadLayers = async () => {
+      const request = ++layersRequest;
+      const sources = await resolveLayers();
+      if (!cancelled && request === layersRequest) {
+        applyLayers(sources);
+      }
+    };
 
-    // Load both audio elements
-    audio1Ref.current.load();
-    audio2Ref.current.load();
+    loadEntrainment();
+    loadLayers();
 
-    setupMediaSession();
+    const handleMediaSelectionChanged = (event: Event) => {
+      const { selectedAudioId, selectedImageId } = (event as CustomEvent<{ selectedAudioId?: string; selectedImageId?: string }>).detail || {};
+      if (selectedAudioId !== undefined) {
+        loadLayers();
+      } else if (selectedImageId !== undefined) {
+        // New background, new artwork
+        updateMediaMetadata();
+      }
+    };
 
-    return () => {
-      // Cleanup on unmount
-      clearFadeInterval();
-      if (scheduleTimeoutRef.current) {
-        clearTimeout(scheduleTimeoutRef.current);
+    const handleSoundscapesChanged = () => {
+      if (isSoundscapeId(StorageManager.getSettings().selectedAudioId)) {
+        loadLayers();
       }
-      if (audio1Ref.current) {
-        audio1Ref.current.pause();
-        audio1Ref.current.src = '';
+    };
+
+    const handlePlaylistsChanged = () => {
+      if (isPlaylistId(StorageManager.getSettings().selectedAudioId)) {
+        loadLayers();
       }
-      if (audio2Ref.current) {
-        audio2Ref.current.pause();
-        audio2Ref.current.src = '';
+    };
+
+    // A track was renamed or deleted - it may be selected, or part of the selected playlist
+    const handleAudioLibraryChanged = () => {
+      const { selectedAudioId } = StorageManager.getSettings();
+      if (isLibraryTrackId(selectedAudioId) || isPlaylistId(selectedAudioId)) {
+        loadLayers();
       }
     };
-  }, [audioSource, setupMediaSession]);
 
-  const clearFadeInterval = () => {
-    if (fadeIntervalRef.current) {
-      clearInterval(fadeIntervalRef.current);
-      fadeIntervalRef.current = null;
-    }
-  };
+    const handleGeneratorSettingsChanged = () => {
+      if (layersRef.current.some(layer => layer.generator)) {
+        loadLayers();
+      }
+    };
 
-  // Perform crossfade between two audio elements
-  const performCrossfade = useCallback((fadeOutAudio: HTMLAudioElement, fadeInAudio: HTMLAudioElement) => {
-    const startTime = Date.now();
-    const fadeDurationMs = CROSSFADE_DURATION * 1000;
+    // Tones alone or under the ambient sound - both the tones and the layers may change
+    const handleEntrainmentSettingsChanged = () => {
+      loadEntrainment();
+      loadLayers();
+    };
 
-    // Start the incoming audio at volume 0
-    fadeInAudio.currentTime = 0;
-    fadeInAudio.volume = 0;
-    fadeInAudio.play().catch(console.error);
+    // Master volume moved in the footer or SettingsPanel
+    const handleVolumeSettingsChanged = () => {
+      masterVolumeRef.current = StorageManager.getVolumeSettings().masterVolume;
+      updateVolumes();
+    };
 
-    clearFadeInterval();
+    // Dip the ambient layers under a spoken cue
+    const handleGuidedCueStarted = () => {
+      duckRef.current = StorageManager.getGuidanceSettings().duckLevel;
+      updateVolumes(DUCK_DOWN_SECONDS);
+    };
 
-    fadeIntervalRef.current = setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / fadeDurationMs, 1);
+    const handleGuidedCueEnded = () => {
+      duckRef.current = 1;
+      updateVolumes(DUCK_UP_SECONDS);
+    };
 
-      if (!isMutedRef.current) {
-        // Linear crossfade
-        fadeOutAudio.volume = Math.max(0, (1 - progress) * masterVolumeRef.current);
-        fadeInAudio.volume = Math.min(masterVolumeRef.current, progress * masterVolumeRef.current);
+    // A new goal changes the ramp length and the remaining time in the media controls
+    const handleGoalChanged = () => {
+      if (isPlayingRef.current) {
+        startEntrainment();
+        updatePositionState(getSessionElapsed(), getSessionGoalSeconds());
       }
+    };
 
-      if (progress >= 1) {
-        clearFadeInterval();
-        // Stop the faded out audio
-        fadeOutAudio.pause();
-        fadeOutAudio.currentTime = 0;
-      }
-    }, FADE_INTERVAL);
+    window.addEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+    window.addEventListener('soundscapesChanged', handleSoundscapesChanged);
+    window.addEventListener('playlistsChanged', handlePlaylistsChanged);
+    window.addEventListener('audioLibraryChanged', handleAudioLibraryChanged);
+    window.addEventListener('generatorSettingsChanged', handleGeneratorSettingsChanged);
+    window.addEventListener('entrainmentSettingsChanged', handleEntrainmentSettingsChanged);
+    window.addEventListener('timerSettingsChanged', handleGoalChanged);
+    window.addEventListener('sessionGoalChanged', handleGoalChanged);
+    window.addEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+    window.addEventListener('guidedCueStarted', handleGuidedCueStarted);
+    window.addEventListener('guidedCueEnded', handleGuidedCueEnded);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+      window.removeEventListener('soundscapesChanged', handleSoundscapesChanged);
+      window.removeEventListener('playlistsChanged', handlePlaylistsChanged);
+      window.removeEventListener('audioLibraryChanged', handleAudioLibraryChanged);
+      window.removeEventListener('generatorSettingsChanged', handleGeneratorSettingsChanged);
+      window.removeEventListener('entrainmentSettingsChanged', handleEntrainmentSettingsChanged);
+      window.removeEventListener('timerSettingsChanged', handleGoalChanged);
+      window.removeEventListener('sessionGoalChanged', handleGoalChanged);
+      window.removeEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+      window.removeEventListener('guidedCueStarted', handleGuidedCueStarted);
+      window.removeEventListener('guidedCueEnded', handleGuidedCueEnded);
+      clearFadeOut();
+      layersRef.current.forEach(layer => layer.track.dispose());
+      layersRef.current = [];
+      entrainmentRef.current?.track.dispose();
+      entrainmentRef.current = null;
+    };
   }, []);
 
-  // Schedule the next crossfade
-  const scheduleNextCrossfade = useCallback(() => {
-    if (!isPlayingRef.current) return;
-
-    const activeAudio = activeAudioRef.current === 1 ? audio1Ref.current : audio2Ref.current;
-    const nextAudio = activeAudioRef.current === 1 ? audio2Ref.current : audio1Ref.current;
+  // Setup Media Session API for background playback
+  const setupMediaSession = useCallback(() => {
+    if ('mediaSession' in navigator) {
+      updateMediaMetadata();
 
-    if (!activeAudio || !nextAudio) return;
+      // Play and pause resume and pause the session, like App's Pause/Resume button
+      navigator.mediaSession.setActionHandler('play', () => {
+        if (!isPlayingRef.current) {
+          play();
+        }
+        window.dispatchEvent(new CustomEvent('resumeMeditationSession'));
+      });
 
-    // Calculate when to start the crossfade
-    // We want to start CROSSFADE_DURATION seconds before the current track ends
-    const timeUntilCrossfade = (activeAudio.duration - activeAudio.currentTime - CROSSFADE_DURATION) * 1000;
+      navigator.mediaSession.setActionHandler('pause', () => {
+        pause();
+        window.dispatchEvent(new CustomEvent('pauseMeditationSession'));
+      });
 
-    if (timeUntilCrossfade <= 0) {
-      // Start crossfade immediately if we're already in the crossfade zone
-      performCrossfade(activeAudio, nextAudio);
-      activeAudioRef.current = activeAudioRef.current === 1 ? 2 : 1;
-      scheduleNextCrossfade();
-    } else {
-      // Schedule the crossfade
-      if (scheduleTimeoutRef.current) {
-        clearTimeout(scheduleTimeoutRef.current);
+      // Stop ends the session the same way as the End Session button
+      try {
+        navigator.mediaSession.setActionHandler('stop', () => {
+          window.dispatchEvent(new CustomEvent('requestEndSession'));
+        });
+      } catch {
+        // Stop action not supported by this browser
       }
-
-      scheduleTimeoutRef.current = setTimeout(() => {
-        if (isPlayingRef.current) {
-          performCrossfade(activeAudio, nextAudio);
-          activeAudioRef.current = activeAudioRef.current === 1 ? 2 : 1;
-          scheduleNextCrossfade();
-        }
-      }, timeUntilCrossfade);
     }
-  }, [performCrossfade]);
+  }, []);
 
-  // Handle timeupdate to reschedule if needed (in case of seeking or timing issues)
   useEffect(() => {
-    const handleTimeUpdate = () => {
-      // This helps recover if the page was backgrounded and timing got off
-      if (isPlayingRef.current && !scheduleTimeoutRef.current) {
-        scheduleNextCrossfade();
-      }
-    };
-
-    const audio1 = audio1Ref.current;
-    const audio2 = audio2Ref.current;
-
-    if (audio1) {
-      audio1.addEventListener('timeupdate', handleTimeUpdate);
-    }
-    if (audio2) {
-      audio2.addEventListener('timeupdate', handleTimeUpdate);
-    }
-
-    return () => {
-      if (audio1) {
-        audio1.removeEventListener('timeupdate', handleTimeUpdate);
-      }
-      if (audio2) {
-        audio2.removeEventListener('timeupdate', handleTimeUpdate);
-      }
-    };
-  }, [audioSource, scheduleNextCrossfade]);
+    setupMediaSession();
+  }, [setupMediaSession]);
 
   const play = async () => {
-    if (!audioSource || isPlayingRef.current) return;
+    const { fadeInSeconds } = StorageManager.getVolumeSettings();
+
+    // Started again during the session-end fade - fade back in instead
+    if (fadeOutTimeoutRef.current) {
+      clearFadeOut();
+      updateVolumes(fadeInSeconds);
+      updatePositionState(getSessionElapsed(), getSessionGoalSeconds());
+      return;
+    }
 
-    const activeAudio = activeAudioRef.current === 1 ? audio1Ref.current : audio2Ref.current;
-    if (!activeAudio) return;
+    const layers = layersRef.current;
+    if ((layers.length === 0 && !entrainmentRef.current) || isPlayingRef.current) return;
 
     try {
       isPlayingRef.current = true;
 
-      // Start playing the active audio
-      activeAudio.currentTime = 0;
-      activeAudio.volume = isMutedRef.current ? 0 : masterVolumeRef.current;
-      await activeAudio.play();
+      // Start silent and fade in - each layer once it is ready to play
+      layers.forEach(layer => layer.track.setVolume(0));
+      const entrainment = entrainmentRef.current;
+      if (entrainment) {
+        entrainment.track.setVolume(0);
+        startEntrainment();
+        entrainment.track.setVolume(getEffectiveVolume(entrainment.settings.volume), fadeInSeconds);
+      }
+      await Promise.all(layers.map(async (layer) => {
+        await layer.track.play();
+        layer.track.setVolume(getEffectiveVolume(layer.volume * duckRef.current), fadeInSeconds);
+      }));
 
       // Update media session
       if ('mediaSession' in navigator) {
         navigator.mediaSession.playbackState = 'playing';
+        updatePositionState(getSessionElapsed(), getSessionGoalSeconds());
       }
-
-      // Schedule the first crossfade
-      scheduleNextCrossfade();
     } catch (error) {
       console.error('Failed to play audio:', error);
       isPlayingRef.current = false;
+      layers.forEach(layer => layer.track.pause());
+      entrainmentRef.current?.track.stop();
     }
   };
 
   const pause = () => {
+    clearFadeOut();
     isPlayingRef.current = false;
-
-    clearFadeInterval();
-    if (scheduleTimeoutRef.current) {
-      clearTimeout(scheduleTimeoutRef.current);
-      scheduleTimeoutRef.current = null;
-    }
-
-    if (audio1Ref.current) {
-      audio1Ref.current.pause();
-    }
-    if (audio2Ref.current) {
-      audio2Ref.current.pause();
-    }
+    layersRef.current.forEach(layer => layer.track.pause());
+    entrainmentRef.current?.track.stop();
 
     // Update media session
     if ('mediaSession' in navigator) {
@@ -305,26 +507,39 @@ export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ is
     }
   };
 
+  // Fade everything out over the configured time, then stop (session end)
+  const fadeOut = () => {
+    const { fadeOutSeconds } = StorageManager.getVolumeSettings();
+    updatePositionState(null);  // The session is over
+    if (!isPlayingRef.current || fadeOutSeconds <= 0) {
+      pause();
+      return;
+    }
+    if (fadeOutTimeoutRef.current) return;
+
+    fadeOutTimeoutRef.current = setTimeout(pause, fadeOutSeconds * 1000);
+    updateVolumes(fadeOutSeconds);
+  };
+
+  // Unlock every layer inside the tap that starts a session, so play() can
+  // run later from the preparation countdown
+  const unlock = () => {
+    getAudioContext();
+    layersRef.current.forEach(layer => layer.track.unlock());
+  };
+
   const setMuted = (muted: boolean) => {
     isMutedRef.current = muted;
-
-    if (muted) {
-      if (audio1Ref.current) audio1Ref.current.volume = 0;
-      if (audio2Ref.current) audio2Ref.current.volume = 0;
-    } else {
-      // Restore volume based on which audio is active
-      const activeAudio = activeAudioRef.current === 1 ? audio1Ref.current : audio2Ref.current;
-      if (activeAudio && !activeAudio.paused) {
-        activeAudio.volume = masterVolumeRef.current;
-      }
-    }
+    updateVolumes();
   };
 
   // Expose methods via ref
   useImperativeHandle(ref, () => ({
     play,
     pause,
-    setMuted
+    setMuted,
+    fadeOut,
+    unlock
   }));
 
   // No DOM element needed - Audio elements are created programmatically
@@ -1,54 +1,253 @@
-import React, { useState, useEffect } from 'react';
-import { StorageManager, mediaCache } from '../utils/storage';
-import { extractColors, applyColorPalette } from '../utils/colorExtractor';
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager } from '../utils/storage';
+import { extractColors, extractVideoColors, applyColorPalette, getThemedPalette, getThemedBrightness } from '../utils/colorExtractor';
+import type { ColorCluster } from '../utils/palette';
+import { getOverlayGradient } from '../utils/themes';
+import { getCurrentTimeWindow, getCurrentTheme } from '../utils/timeOfDay';
+import { resolveBackground } from '../utils/backgrounds';
+import { isGeneratedBackgroundId } from '../utils/canvasBackgrounds';
+import { GenerativeBackground } from './GenerativeBackground';
+import {
+  SLIDE_CROSSFADE_SECONDS,
+  getSlideshowImageIds,
+  getFirstSlideIndex,
+  getKenBurnsVariant,
+  prefersReducedMotion
+} from '../utils/slideshow';
 
 interface BackgroundManagerProps {
   userId: string;
 }
 
-const IMAGE_PATHS: Record<string, string> = {
-  'mountain-sunrise': '/media/images/predefined/mountain-sunrise.jpg',
-  'ocean-sunset': '/media/images/predefined/ocean-sunset.jpg',
-  'forest-mist': '/media/images/predefined/forest-mist.jpg'
-};
+// An image or video on screen - the newest fades in over the one before it
+interface Slide {
+  key: number;
+  url: string;  // generator id for a generated background
+  kind: 'image' | 'video' | 'generated';
+  variant: number;  // Ken Burns animation
+}
 
+/**
+ * BackgroundManager - Background image or video and the colour palette taken from it
+ *
+ * Shows the selected background, or a slideshow crossfading through several
+ * images with a slow Ken Burns pan and zoom. Each image is loaded before it
+ * appears, and its palette is applied as it fades in (the CSS variables
+ * transition, see index.html). A video background loops muted, with its
+ * palette sampled from an early frame; it pauses while the page is hidden
+ * and stays on its first frame with prefers-reduced-motion, as images stay still.
+ * Generated backgrounds are drawn on a canvas in the current palette.
+ * The theme (see ThemeSettings) sets the dimming and shading, and can lock the
+ * primary colour; 'themeSettingsChanged' re-applies it to the current background.
+ * With time-of-day backgrounds on, the local time picks the background and
+ * theme instead, checked every minute so they change during a session.
+ * Reloads on 'mediaSelectionChanged' (timer presets), 'slideshowSettingsChanged'
+ * and 'timeOfDaySettingsChanged'.
+ */
 export const BackgroundManager: React.FC<BackgroundManagerProps> = () => {
-  const [bgUrl, setBgUrl] = useState<string>(IMAGE_PATHS['mountain-sunrise']);
+  const [slides, setSlides] = useState<Slide[]>([]);
+  const [motionSeconds, setMotionSeconds] = useState<number | null>(null);  // Ken Burns length, null = still
+  const [reducedMotion, setReducedMotion] = useState(prefersReducedMotion);
+  const [overlay, setOverlay] = useState(() => StorageManager.getThemeSettings().overlay);
+  const [brightness, setBrightness] = useState(() => StorageManager.getThemeSettings().brightness);
+  const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    let generation = 0;  // Bumped on reload, so a slow image can't replace a newer choice
+    let slideNumber = 0;
+    let slideTimer: ReturnType<typeof setInterval> | null = null;
+    let trimTimer: ReturnType<typeof setTimeout> | null = null;
+    let clusters: ColorCluster[] = [];  // Colours of the background on screen, kept for theme changes
+    let timeWindowId: string | null = null;  // Time-of-day window shown, null when off
+
+    // Fade a slide in over the current one, and drop the one below once covered
+    const addSlide = (slide: Omit<Slide, 'key' | 'variant'>) => {
+      const key = slideNumber++;
+      setSlides(current => [...current.slice(-1), { ...slide, key, variant: getKenBurnsVariant(key) }]);
+
+      if (trimTimer) clearTimeout(trimTimer);
+      trimTimer = setTimeout(() => {
+        setSlides(current => current.filter(s => s.key >= key));
+      }, SLIDE_CROSSFADE_SECONDS * 1000);
+    };
+
+    // Colours and dimming from the theme - also re-applied when the theme editor changes it
+    const applyTheme = () => {
+      const theme = getCurrentTheme();
+      setOverlay(theme.overlay);
+      setBrightness(getThemedBrightness(clusters, theme));
+      applyColorPalette(getThemedPalette(clusters, theme));
+    };
+
+    // Wait for the background (extracting its palette loads it), then fade it in and recolor together
+    const showImage = async (imageId: string | null, loadGeneration: number) => {
+      // Generated backgrounds have nothing to extract - they keep the previous background's colours
+      if (imageId && isGeneratedBackgroundId(imageId)) {
+        if (loadGeneration === generation) {
+          addSlide({ url: imageId, kind: 'generated' });
+          applyTheme();
+        }
+        return;
+      }
+
+      const { url, kind } = await resolveBackground(imageId);
+      const extracted = kind === 'video' ? await extractVideoColors(url) : await extractColors(url);
+      if (loadGeneration !== generation) return;
+
+      addSlide({ url, kind });
+      clusters = extracted;
+      applyTheme();
+    };
+
     const loadBackground = async () => {
+      const loadGeneration = ++generation;
+      if (slideTimer) {
+        clearInterval(slideTimer);
+        slideTimer = null;
+      }
+
+      // The local time decides when time-of-day backgrounds are on
+      const timeWindow = getCurrentTimeWindow();
+      timeWindowId = timeWindow?.id ?? null;
+      if (timeWindow) {
+        setMotionSeconds(null);
+        await showImage(timeWindow.imageId, loadGeneration);
+        return;
+      }
+
       const settings = StorageManager.getSettings();
-      const selectedId = settings.selectedImageId;
-      let imageUrl = IMAGE_PATHS['mountain-sunrise'];
+      const slideshow = StorageManager.getSlideshowSettings();
+      const imageIds = getSlideshowImageIds(slideshow, !!settings.customImageName);
 
-      if (selectedId === 'custom') {
-        const customImage = await mediaCache.getFile('image');
-        if (customImage) {
-          imageUrl = customImage.url;
-        }
-      } else if (selectedId && IMAGE_PATHS[selectedId]) {
-        imageUrl = IMAGE_PATHS[selectedId];
+      if (imageIds.length === 0) {
+        setMotionSeconds(null);
+        await showImage(settings.selectedImageId, loadGeneration);
+        return;
       }
 
-      setBgUrl(imageUrl);
+      // Each image drifts for as long as it is on screen, crossfades included
+      setMotionSeconds(slideshow.motion ? slideshow.intervalSeconds + SLIDE_CROSSFADE_SECONDS * 2 : null);
+      let index = getFirstSlideIndex(imageIds, settings.selectedImageId);
+      await showImage(imageIds[index], loadGeneration);
+      if (loadGeneration !== generation) return;
 
-      // Extract and apply colors from the background image
-      const palette = await extractColors(imageUrl);
-      applyColorPalette(palette);
+      slideTimer = setInterval(() => {
+        index = (index + 1) % imageIds.length;
+        showImage(imageIds[index], loadGeneration);
+      }, slideshow.intervalSeconds * 1000);
     };
 
     loadBackground();
+
+    // A timer preset can switch the background without a reload
+    const handleMediaSelectionChanged = (event: Event) => {
+      const { selectedImageId } = (event as CustomEvent<{ selectedImageId?: string }>).detail || {};
+      if (selectedImageId !== undefined) {
+        loadBackground();
+      }
+    };
+
+    // Switch when the next time-of-day window begins (also on returning to the page)
+    const checkTimeWindow = () => {
+      if ((getCurrentTimeWindow()?.id ?? null) !== timeWindowId) {
+        loadBackground();
+      }
+    };
+    const clockTimer = setInterval(checkTimeWindow, 60 * 1000);
+    const handleVisibilityChange = () => {
+      if (!document.hidden) checkTimeWindow();
+    };
+
+    // Follow the system setting while the app is open
+    const motionQuery = window.matchMedia?.('(prefers-reduced-motion: reduce)');
+    const handleMotionPreference = () => setReducedMotion(prefersReducedMotion());
+
+    window.addEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+    window.addEventListener('slideshowSettingsChanged', loadBackground);
+    window.addEventListener('themeSettingsChanged', applyTheme);
+    window.addEventListener('timeOfDaySettingsChanged', loadBackground);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    motionQuery?.addEventListener('change', handleMotionPreference);
+    return () => {
+      generation++;
+      if (slideTimer) clearInterval(slideTimer);
+      if (trimTimer) clearTimeout(trimTimer);
+      clearInterval(clockTimer);
+      window.removeEventListener('mediaSelectionChanged', handleMediaSelectionChanged);
+      window.removeEventListener('slideshowSettingsChanged', loadBackground);
+      window.removeEventListener('themeSettingsChanged', applyTheme);
+      window.removeEventListener('timeOfDaySettingsChanged', loadBackground);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      motionQuery?.removeEventListener('change', handleMotionPreference);
+    };
   }, []);
 
+  // Video only plays while the page is visible (saves battery) and motion is allowed
+  useEffect(() => {
+    const syncVideos = () => {
+      const shouldPlay = !document.hidden && !reducedMotion;
+      containerRef.current?.querySelectorAll('video').forEach((video) => {
+        if (shouldPlay) {
+          video.play().catch(() => {});
+        } else {
+          video.pause();
+        }
+      });
+    };
+
+    syncVideos();
+    document.addEventListener('visibilitychange', syncVideos);
+    return () => document.removeEventListener('visibilitychange', syncVideos);
+  }, [slides, reducedMotion]);
+
   return (
-    <div className="absolute inset-0 w-full h-full overflow-hidden bg-black">
-      <img
-        src={bgUrl}
-        className="absolute inset-0 w-full h-full object-cover brightness-[0.3] transition-all duration-1000"
-        alt="Meditation background"
-        crossOrigin="anonymous"
-      />
-      <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black/80" />
+    <div ref={containerRef} className="absolute inset-0 w-full h-full overflow-hidden bg-black">
+      {slides.map((slide) => {
+        const className = 'absolute inset-0 w-full h-full object-cover';
+        const style = {
+          filter: `brightness(${brightness})`,
+          animation: [
+            `slide-fade-in ${SLIDE_CROSSFADE_SECONDS}s ease-in-out both`,
+            motionSeconds && !reducedMotion ? `ken-burns-${slide.variant} ${motionSeconds}s linear both` : null
+          ].filter(Boolean).join(', ')
+        };
+
+        if (slide.kind === 'generated') {
+          return (
+            <GenerativeBackground
+              key={slide.key}
+              backgroundId={slide.url}
+              animate={!reducedMotion}
+              className="absolute inset-0 w-full h-full"
+              style={{ animation: style.animation }}
+            />
+          );
+        }
+
+        return slide.kind === 'video' ? (
+          <video
+            key={slide.key}
+            src={slide.url}
+            className={className}
+            style={style}
+            autoPlay={!reducedMotion}
+            loop
+            muted
+            playsInline
+            crossOrigin="anonymous"
+          />
+        ) : (
+          <img
+            key={slide.key}
+            src={slide.url}
+            className={className}
+            style={style}
+            alt="Meditation background"
+            crossOrigin="anonymous"
+          />
+        );
+      })}
+      <div className="absolute inset-0" style={{ background: getOverlayGradient(overlay) }} />
     </div>
   );
 };
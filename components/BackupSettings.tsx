@@ -0,0 +1,160 @@
+import React, { useState, useRef } from 'react';
+import {
+  Backup,
+  BackupMode,
+  LocalSnapshot,
+  createBackup,
+  describeImport,
+  exportBackup,
+  getBackupFileName,
+  getLocalSnapshot,
+  parseBackup,
+  restoreBackup
+} from '../utils/backup';
+import { downloadBlob } from '../utils/download';
+
+/**
+ * BackupSettings - Download everything kept in this browser, or restore it
+ * Rendered in the Profile tab of SettingsPanel. Importing shows what will be
+ * overwritten and lets the user merge or replace before anything changes;
+ * the page reloads afterwards so every part of the app picks up the data.
+ */
+export const BackupSettings: React.FC = () => {
+  const [busy, setBusy] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ backup: Backup; local: LocalSnapshot } | null>(null);
+  const [mode, setMode] = useState<BackupMode>('merge');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const blob = new Blob([exportBackup(await createBackup())], { type: 'application/json' });
+      downloadBlob(blob, getBackupFileName());
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      alert('Could not create the backup.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const backup = parseBackup(await file.text());
+      setMode('merge');
+      setPendingImport({ backup, local: await getLocalSnapshot() });
+    } catch (error) {
+      alert(`Could not read the backup. ${(error as Error).message}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingImport) return;
+    setBusy(true);
+    try {
+      await restoreBackup(pendingImport.backup, mode);
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      alert(`Could not restore the backup - nothing was removed. ${(error as Error).message}`);
+      setBusy(false);
+    }
+  };
+
+  const renderModeButton = (value: BackupMode, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      className={`flex-1 px-4 py-2 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+        mode === value
+          ? 'bg-primary-30 border-primary text-white'
+          : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const changes = pendingImport ? describeImport(pendingImport.backup, pendingImport.local, mode) : [];
+
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+        Backup
+      </label>
+
+      {pendingImport ? (
+        <div className="p-3 rounded border border-primary-30 bg-primary-5 space-y-3">
+          <p className="text-white/90 text-sm">
+            Backup from {new Date(pendingImport.backup.exportedAt).toLocaleDateString()}
+          </p>
+          <div className="flex space-x-2">
+            {renderModeButton('merge', 'Merge')}
+            {renderModeButton('replace', 'Replace')}
+          </div>
+          <p className="text-primary-40 text-xs">
+            {mode === 'merge'
+              ? 'The backup wins where both have something; anything only in this browser is kept.'
+              : 'This browser ends up exactly like the backup - anything missing from the backup is removed.'}
+          </p>
+          {changes.length > 0 ? (
+            <ul className="text-primary-50 text-xs space-y-1 list-disc list-inside">
+              {changes.map((change) => (
+                <li key={change}>{change}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-primary-50 text-xs">Nothing here changes.</p>
+          )}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleRestore}
+              disabled={busy}
+              className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all disabled:opacity-50"
+            >
+              {busy ? 'Importing...' : 'Import'}
+            </button>
+            <button
+              onClick={() => setPendingImport(null)}
+              disabled={busy}
+              className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="flex-1 px-4 py-2 bg-primary-10 hover:bg-primary-20 border border-primary-30 rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all disabled:opacity-50"
+          >
+            {busy ? 'Exporting...' : 'Export'}
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={busy}
+            className="flex-1 px-4 py-2 bg-primary-10 hover:bg-primary-20 border border-primary-30 rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      <p className="text-primary-30 text-xs">
+        One file with your identity, settings, stats, sessions and uploaded media - import it in another browser to carry on where you left off.
+      </p>
+    </div>
+  );
+};
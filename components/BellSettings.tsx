@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager, BellSettings as BellSettingsState, mediaCache } from '../utils/storage';
+import { PREDEFINED_BELLS } from '../utils/mediaCatalog';
+import { previewBell, resetBell } from '../utils/bellPlayer';
+
+/**
+ * BellSettings - Choose the bell used for session cues
+ * Rendered as the Bells tab of SettingsPanel.
+ *
+ * Bundled bells or one custom upload (kept in MediaCache), each with a
+ * preview button, plus a bell volume separate from the ambient sound.
+ * Changes apply to the next strike - no reload needed.
+ */
+export const BellSettings: React.FC = () => {
+  const [settings, setSettings] = useState<BellSettingsState>(StorageManager.getBellSettings);
+  const [hasCustomBell, setHasCustomBell] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const bellInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSettings(StorageManager.getBellSettings());
+    mediaCache.getFile('bell').then(bell => setHasCustomBell(!!bell));
+  }, []);
+
+  const update = (partial: Partial<BellSettingsState>) => {
+    StorageManager.updateBellSettings(partial);
+    setSettings(StorageManager.getBellSettings());
+  };
+
+  const handleSelect = (soundId: string) => {
+    update({ soundId });
+    resetBell();
+  };
+
+  // Ring a bell once - listening doesn't change the selection
+  const handlePreview = (e: React.MouseEvent, soundId: string) => {
+    e.stopPropagation();
+    previewBell(soundId);
+  };
+
+  const handleUpload = async (file: File) => {
+    setLoading(true);
+    try {
+      await mediaCache.saveFile('bell', file);
+      setHasCustomBell(true);
+      update({ soundId: 'custom', customBellName: file.name });
+      resetBell();
+    } catch (error) {
+      console.error('Failed to save bell:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveCustom = async () => {
+    await mediaCache.deleteFile('bell');
+    setHasCustomBell(false);
+    update({
+      soundId: settings.soundId === 'custom' ? PREDEFINED_BELLS[0].id : settings.soundId,
+      customBellName: null
+    });
+    resetBell();
+  };
+
+  const renderPreviewButton = (soundId: string) => (
+    <button
+      onClick={(e) => handlePreview(e, soundId)}
+      className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+      title="Preview"
+    >
+      &#9654; Play
+    </button>
+  );
+
+  const renderCheck = (soundId: string) => settings.soundId === soundId && (
+    <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+      <span className="text-black text-xs">&#10003;</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Bell Volume */}
+      <div className="pb-3">
+        <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+          Bell Volume: {Math.round(settings.volume * 100)}%
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+          className="w-full accent-[var(--color-primary)]"
+        />
+      </div>
+
+      {/* Custom Bell */}
+      {hasCustomBell ? (
+        <div
+          className={`p-4 rounded border transition-all ${
+            settings.soundId === 'custom'
+              ? 'border-primary bg-primary-10'
+              : 'border-primary-20 bg-primary-5'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleSelect('custom')}>
+              <p className="text-white/90 font-medium truncate">{settings.customBellName || 'Custom Bell'}</p>
+              <p className="text-primary-40 text-xs mt-1">Custom Upload</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {renderPreviewButton('custom')}
+              {renderCheck('custom')}
+              <button
+                onClick={handleRemoveCustom}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Remove"
+              >
+                &#10005;
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div
+          className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+          onClick={() => bellInputRef.current?.click()}
+        >
+          <p className="text-primary-50 text-center">+ Upload Custom Bell</p>
+          <p className="text-primary-30 text-xs text-center mt-1">MP3, WAV, OGG (max 2MB)</p>
+        </div>
+      )}
+
+      {/* Bundled Bells */}
+      {PREDEFINED_BELLS.map((bell) => (
+        <div
+          key={bell.id}
+          className={`p-4 rounded border transition-all cursor-pointer ${
+            settings.soundId === bell.id
+              ? 'border-primary bg-primary-10'
+              : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+          }`}
+          onClick={() => handleSelect(bell.id)}
+        >
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-white/90 font-medium">{bell.name}</p>
+              <p className="text-primary-40 text-xs mt-1">Predefined</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {renderPreviewButton(bell.id)}
+              {renderCheck(bell.id)}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {loading && (
+        <div className="mt-4 text-center text-primary-50 text-sm">
+          Saving...
+        </div>
+      )}
+
+      <div className="mt-6 p-3 bg-primary-5 border border-primary-20 rounded text-xs text-primary-50">
+        The bell rings at the goal, at interval and stage bells, and after the preparation countdown.
+      </div>
+
+      <input
+        ref={bellInputRef}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file && file.size <= 2 * 1024 * 1024) {
+            handleUpload(file);
+          } else if (file) {
+            alert('File too large. Maximum size is 2MB.');
+          }
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager, BreathingSettings, SessionCheckpoint } from '../utils/storage';
+import { getSelectedPattern, getBreathState, BreathPhase, PHASE_LABELS } from '../utils/breathingPatterns';
+import { getPausedMs } from '../utils/sessionTime';
+import { playSoftTick } from '../utils/bellPlayer';
+
+/**
+ * BreathingPacer - Expanding/contracting circle that guides the breath
+ *
+ * - Shown next to the clock when enabled in the Timer settings
+ * - Paced from active session time in the checkpoint, so it freezes while paused
+ * - Tinted with the extracted --color-primary
+ * - Phase ticks play at the bell volume, and not at all while the app is muted
+ * - Dispatches 'breathCycleCompleted' so GlobalCounter can record cycles with the session
+ * - Stops after the target cycle count (0 = until the session ends)
+ */
+
+// Circle size range in pixels (empty to full lungs)
+const MIN_SIZE = 64;
+const MAX_SIZE = 160;
+
+// Tick pitches per phase - rising on the inhale, falling on the exhale
+const TICK_FREQUENCIES: Record<BreathPhase, number> = {
+  'inhale': 660,
+  'hold-in': 550,
+  'exhale': 440,
+  'hold-out': 550
+};
+
+interface BreathingPacerProps {
+  isMuted: boolean;
+}
+
+export const BreathingPacer: React.FC<BreathingPacerProps> = ({ isMuted }) => {
+  const [settings, setSettings] = useState<BreathingSettings>(StorageManager.getBreathingSettings);
+  const [phase, setPhase] = useState<BreathPhase | null>(null);
+  const [completedCycles, setCompletedCycles] = useState(0);
+  const circleRef = useRef<HTMLDivElement | null>(null);
+  const checkpointRef = useRef<SessionCheckpoint | null>(null);
+  const originMsRef = useRef<number | null>(null); // Active session ms when pacing started
+  const reportedCyclesRef = useRef(0);
+  const phaseRef = useRef<BreathPhase | null>(null);
+  const isMutedRef = useRef(isMuted);  // Read by the animation loop without restarting it
+
+  useEffect(() => {
+    isMutedRef.current = isMuted;
+  }, [isMuted]);
+
+  // Restart pacing from the current breath
+  const resetPacer = () => {
+    originMsRef.current = null;
+    reportedCyclesRef.current = 0;
+    phaseRef.current = null;
+    setPhase(null);
+    setCompletedCycles(0);
+  };
+
+  // Listen for settings changes (SettingsPanel) and session end
+  useEffect(() => {
+    const handleSettingsChanged = () => {
+      setSettings(StorageManager.getBreathingSettings());
+      resetPacer();
+    };
+
+    window.addEventListener('breathingSettingsChanged', handleSettingsChanged);
+    window.addEventListener('endMeditationSession', resetPacer);
+    return () => {
+      window.removeEventListener('breathingSettingsChanged', handleSettingsChanged);
+      window.removeEventListener('endMeditationSession', resetPacer);
+    };
+  }, []);
+
+  // Animation loop - reads the checkpoint once a second, animates every frame
+  useEffect(() => {
+    if (!settings.enabled) return;
+
+    const pattern = getSelectedPattern(settings);
+    let frameId = 0;
+
+    const readCheckpoint = () => {
+      checkpointRef.current = StorageManager.getSessionCheckpoint();
+    };
+    readCheckpoint();
+    const checkpointInterval = setInterval(readCheckpoint, 1000);
+
+    const setCircleScale = (scale: number) => {
+      if (circleRef.current) {
+        const size = MIN_SIZE + (MAX_SIZE - MIN_SIZE) * scale;
+        circleRef.current.style.width = `${size}px`;
+        circleRef.current.style.height = `${size}px`;
+      }
+    };
+
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+
+      const checkpoint = checkpointRef.current;
+      if (!checkpoint) {
+        // No active session - rest at the smallest size
+        if (originMsRef.current !== null) resetPacer();
+        setCircleScale(0);
+        return;
+      }
+
+      const now = Date.now();
+      const activeMs = now - checkpoint.startedAt - getPausedMs(checkpoint.startedAt, checkpoint.pausedIntervals, now);
+      if (originMsRef.current === null) {
+        originMsRef.current = activeMs;
+      }
+
+      const state = getBreathState(pattern, (activeMs - originMsRef.current) / 1000);
+      const target = settings.targetCycles;
+      const cycles = target > 0 ? Math.min(state.completedCycles, target) : state.completedCycles;
+
+      // Report newly completed cycles
+      if (cycles > reportedCyclesRef.current) {
+        window.dispatchEvent(new CustomEvent('breathCycleCompleted', {
+          detail: { count: cycles - reportedCyclesRef.current }
+        }));
+        reportedCyclesRef.current = cycles;
+        setCompletedCycles(cycles);
+      }
+
+      // Target reached - pacer rests
+      if (target > 0 && cycles >= target) {
+        if (phaseRef.current !== null) {
+          phaseRef.current = null;
+          setPhase(null);
+        }
+        setCircleScale(0);
+        return;
+      }
+
+      if (state.phase !== phaseRef.current) {
+        if (settings.ticks && !isMutedRef.current && phaseRef.current !== null) {
+          playSoftTick(TICK_FREQUENCIES[state.phase]);
+        }
+        phaseRef.current = state.phase;
+        setPhase(state.phase);
+      }
+      setCircleScale(state.scale);
+    };
+
+    frameId = requestAnimationFrame(animate);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      clearInterval(checkpointInterval);
+    };
+  }, [settings]);
+
+  if (!settings.enabled) return null;
+
+  const isComplete = settings.targetCycles > 0 && completedCycles >= settings.targetCycles;
+  const label = phase ? PHASE_LABELS[phase] : (isComplete ? 'Complete' : 'Breathe');
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="flex items-center justify-center" style={{ width: MAX_SIZE, height: MAX_SIZE }}>
+        <div
+          ref={circleRef}
+          className="rounded-full border border-primary-50 glow-primary"
+          style={{
+            width: MIN_SIZE,
+            height: MIN_SIZE,
+            backgroundColor: 'color-mix(in srgb, var(--color-primary) 25%, transparent)'
+          }}
+        />
+      </div>
+      <p className="text-[10px] uppercase tracking-[0.5em] text-primary font-bold">{label}</p>
+      <p className="text-[9px] uppercase tracking-[0.3em] text-primary-30">
+        {settings.targetCycles > 0
+          ? `${completedCycles} / ${settings.targetCycles} Cycles`
+          : `${completedCycles} Cycles`}
+      </p>
+    </div>
+  );
+};
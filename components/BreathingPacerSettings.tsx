@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, BreathingSettings, BreathingTimings } from '../utils/storage';
+import { BREATHING_PATTERNS, getCycleSeconds } from '../utils/breathingPatterns';
+
+/**
+ * BreathingPacerSettings - Pattern, cycle count and ticks for the breathing pacer
+ * Rendered inside the Timer tab of SettingsPanel. Changes apply immediately
+ * via the 'breathingSettingsChanged' event.
+ */
+
+const TIMING_FIELDS: Array<{ key: keyof BreathingTimings; label: string }> = [
+  { key: 'inhale', label: 'Inhale' },
+  { key: 'holdIn', label: 'Hold' },
+  { key: 'exhale', label: 'Exhale' },
+  { key: 'holdOut', label: 'Hold' }
+];
+
+// Describe a pattern as "4-7-8-0 s"
+const describeTimings = (timings: BreathingTimings): string => {
+  return `${TIMING_FIELDS.map(({ key }) => Math.round(timings[key] * 10) / 10).join('-')} s`;
+};
+
+export const BreathingPacerSettings: React.FC = () => {
+  const [settings, setSettings] = useState<BreathingSettings>(StorageManager.getBreathingSettings);
+
+  useEffect(() => {
+    setSettings(StorageManager.getBreathingSettings());
+  }, []);
+
+  const update = (partial: Partial<BreathingSettings>) => {
+    StorageManager.updateBreathingSettings(partial);
+    setSettings(StorageManager.getBreathingSettings());
+    window.dispatchEvent(new CustomEvent('breathingSettingsChanged'));
+  };
+
+  const updateCustomTiming = (key: keyof BreathingTimings, value: number) => {
+    const current = settings.customPattern || { inhale: 4, holdIn: 0, exhale: 4, holdOut: 0 };
+    const customPattern = { ...current, [key]: Math.max(0, value) };
+    // A cycle needs some length, otherwise keep the previous timings
+    if (getCycleSeconds(customPattern) > 0) {
+      update({ customPattern, patternId: 'custom' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+          Breathing Pacer
+        </label>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+            settings.enabled
+              ? 'bg-primary-30 border-primary text-white'
+              : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+          }`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          {BREATHING_PATTERNS.map((pattern) => (
+            <div
+              key={pattern.id}
+              className={`p-3 rounded border transition-all cursor-pointer ${
+                settings.patternId === pattern.id
+                  ? 'border-primary bg-primary-10'
+                  : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+              }`}
+              onClick={() => update({ patternId: pattern.id })}
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-white/90 text-sm font-medium">{pattern.name}</p>
+                  <p className="text-primary-40 text-xs mt-1">{describeTimings(pattern)}</p>
+                </div>
+                {settings.patternId === pattern.id && (
+                  <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <span className="text-black text-xs">&#10003;</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {/* Custom pattern */}
+          <div
+            className={`p-3 rounded border transition-all ${
+              settings.patternId === 'custom'
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 bg-primary-5'
+            }`}
+          >
+            <p
+              className="text-white/90 text-sm font-medium cursor-pointer"
+              onClick={() => update({ patternId: 'custom' })}
+            >
+              Custom Pattern
+            </p>
+            <div className="grid grid-cols-4 gap-2 mt-2">
+              {TIMING_FIELDS.map(({ key, label }) => (
+                <label key={key} className="text-primary-40 text-[10px] uppercase tracking-[0.1em]">
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={settings.customPattern?.[key] ?? 0}
+                    onChange={(e) => updateCustomTiming(key, parseFloat(e.target.value) || 0)}
+                    className="w-full mt-1 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="text-primary-40 text-xs uppercase tracking-[0.2em]">
+              Cycles (0 = whole session)
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={settings.targetCycles}
+              onChange={(e) => update({ targetCycles: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-20 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="text-primary-40 text-xs uppercase tracking-[0.2em]">
+              Soft Audio Ticks
+            </label>
+            <button
+              onClick={() => update({ ticks: !settings.ticks })}
+              className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                settings.ticks
+                  ? 'bg-primary-30 border-primary text-white'
+                  : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+              }`}
+            >
+              {settings.ticks ? 'On' : 'Off'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
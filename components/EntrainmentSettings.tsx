@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, EntrainmentSettings as EntrainmentSettingsType } from '../utils/storage';
+import { ENTRAINMENT_BANDS, CARRIER_OPTIONS, MIN_BEAT_HZ, MAX_BEAT_HZ } from '../utils/entrainment';
+
+/**
+ * EntrainmentSettings - Binaural beats or isochronic tones for a target band
+ * Rendered inside the Audio tab of SettingsPanel. Changes apply immediately
+ * via the 'entrainmentSettingsChanged' event.
+ */
+
+const MODES: Array<{ id: EntrainmentSettingsType['mode']; label: string }> = [
+  { id: 'off', label: 'Off' },
+  { id: 'binaural', label: 'Binaural' },
+  { id: 'isochronic', label: 'Isochronic' }
+];
+
+export const EntrainmentSettings: React.FC = () => {
+  const [settings, setSettings] = useState<EntrainmentSettingsType>(StorageManager.getEntrainmentSettings);
+
+  useEffect(() => {
+    setSettings(StorageManager.getEntrainmentSettings());
+  }, []);
+
+  const update = (partial: Partial<EntrainmentSettingsType>) => {
+    StorageManager.updateEntrainmentSettings(partial);
+    setSettings(StorageManager.getEntrainmentSettings());
+    window.dispatchEvent(new CustomEvent('entrainmentSettingsChanged'));
+  };
+
+  const updateCustomHz = (key: 'customStartHz' | 'customEndHz', value: number) => {
+    if (value >= MIN_BEAT_HZ && value <= MAX_BEAT_HZ) {
+      update({ [key]: value, bandId: 'custom' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        Brainwave Tones
+      </label>
+
+      <div className="flex space-x-2">
+        {MODES.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => update({ mode: id })}
+            className={`flex-1 px-3 py-2 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+              settings.mode === id
+                ? 'bg-primary-30 border-primary text-white'
+                : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {settings.mode !== 'off' && (
+        <>
+          <p className="text-primary-40 text-xs">
+            {settings.mode === 'binaural'
+              ? 'A slightly different tone in each ear - use headphones.'
+              : 'A single tone pulsing at the beat rate - works on speakers.'}
+            {' '}The beat eases toward the target over your session goal.
+          </p>
+
+          {ENTRAINMENT_BANDS.map((band) => (
+            <div
+              key={band.id}
+              className={`p-3 rounded border transition-all cursor-pointer ${
+                settings.bandId === band.id
+                  ? 'border-primary bg-primary-10'
+                  : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+              }`}
+              onClick={() => update({ bandId: band.id })}
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-white/90 text-sm font-medium">{band.name}</p>
+                  <p className="text-primary-40 text-xs mt-1">
+                    {band.range} · {band.startHz} → {band.endHz} Hz
+                  </p>
+                </div>
+                {settings.bandId === band.id && (
+                  <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <span className="text-black text-xs">&#10003;</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {/* Custom beat ramp */}
+          <div
+            className={`p-3 rounded border transition-all ${
+              settings.bandId === 'custom'
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 bg-primary-5'
+            }`}
+          >
+            <p
+              className="text-white/90 text-sm font-medium cursor-pointer"
+              onClick={() => update({ bandId: 'custom' })}
+            >
+              Custom Beat
+            </p>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {([['customStartHz', 'Start Hz'], ['customEndHz', 'End Hz']] as const).map(([key, label]) => (
+                <label key={key} className="text-primary-40 text-[10px] uppercase tracking-[0.1em]">
+                  {label}
+                  <input
+                    type="number"
+                    min={MIN_BEAT_HZ}
+                    max={MAX_BEAT_HZ}
+                    step={0.5}
+                    value={settings[key]}
+                    onChange={(e) => updateCustomHz(key, parseFloat(e.target.value))}
+                    className="w-full mt-1 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-primary-50 text-xs">Carrier Tone</span>
+            <select
+              value={settings.carrierHz}
+              onChange={(e) => update({ carrierHz: parseInt(e.target.value) })}
+              className="px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+            >
+              {CARRIER_OPTIONS.map((hz) => (
+                <option key={hz} value={hz}>{hz} Hz</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <span className="text-primary-50 text-xs w-24">Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+              className="flex-1 accent-[var(--color-primary)]"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-primary-50 text-xs">Layer under the ambient sound</span>
+            <button
+              onClick={() => update({ withAmbient: !settings.withAmbient })}
+              className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                settings.withAmbient
+                  ? 'bg-primary-30 border-primary text-white'
+                  : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+              }`}
+            >
+              {settings.withAmbient ? 'On' : 'Off'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
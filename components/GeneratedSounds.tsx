@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager, GeneratorParams } from '../utils/storage';
+import { GENERATED_AUDIO } from '../utils/mediaCatalog';
+import { GENERATOR_CONTROLS, ROOT_NOTES, getGeneratorParams } from '../utils/generators';
+
+interface GeneratedSoundsProps {
+  selectedAudioId: string | null;
+  onSelect: (generatorId: string) => void;
+}
+
+// Wait for the slider to settle before re-rendering the sound (ms)
+const APPLY_DELAY = 300;
+
+/**
+ * GeneratedSounds - Select and shape the procedural sounds
+ * Rendered in the Audio tab of SettingsPanel, next to the predefined sounds.
+ *
+ * The selected generator shows its pitch, brightness and density controls.
+ * Changes are saved at once and applied live through 'generatorSettingsChanged'.
+ */
+export const GeneratedSounds: React.FC<GeneratedSoundsProps> = ({ selectedAudioId, onSelect }) => {
+  const [params, setParams] = useState<Record<string, GeneratorParams>>({});
+  const applyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setParams(Object.fromEntries(GENERATED_AUDIO.map(item => [item.id, getGeneratorParams(item.id)])));
+    return () => {
+      if (applyTimeoutRef.current) clearTimeout(applyTimeoutRef.current);
+    };
+  }, []);
+
+  const handleChange = (generatorId: string, changes: Partial<GeneratorParams>) => {
+    setParams({ ...params, [generatorId]: { ...params[generatorId], ...changes } });
+    StorageManager.updateGeneratorParams(generatorId, changes);
+
+    if (applyTimeoutRef.current) clearTimeout(applyTimeoutRef.current);
+    applyTimeoutRef.current = setTimeout(() => {
+      applyTimeoutRef.current = null;
+      window.dispatchEvent(new CustomEvent('generatorSettingsChanged'));
+    }, APPLY_DELAY);
+  };
+
+  const renderSlider = (label: string, value: number, onChange: (value: number) => void) => (
+    <div className="flex items-center space-x-2">
+      <span className="text-primary-50 text-xs w-24">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        onClick={(e) => e.stopPropagation()}
+        className="flex-1 accent-[var(--color-primary)]"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        Generated Sounds
+      </label>
+
+      {GENERATED_AUDIO.map((item) => {
+        const isSelected = selectedAudioId === item.id;
+        const controls = GENERATOR_CONTROLS[item.id];
+        const itemParams = params[item.id];
+        return (
+          <div
+            key={item.id}
+            className={`p-4 rounded border transition-all cursor-pointer ${
+              isSelected
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+            }`}
+            onClick={() => onSelect(item.id)}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-white/90 font-medium">{item.name}</p>
+                <p className="text-primary-40 text-xs mt-1">Generated</p>
+              </div>
+              {isSelected && (
+                <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                  <span className="text-black text-xs">&#10003;</span>
+                </div>
+              )}
+            </div>
+
+            {/* Parameters of the selected generator */}
+            {isSelected && itemParams && (
+              <div className="mt-3 space-y-2">
+                {controls.params.includes('pitch') && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-primary-50 text-xs w-24">Root Note</span>
+                    <select
+                      value={itemParams.pitch}
+                      onChange={(e) => handleChange(item.id, { pitch: parseInt(e.target.value) })}
+                      onClick={(e) => e.stopPropagation()}
+                      className="px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+                    >
+                      {ROOT_NOTES.map((note, semitone) => (
+                        <option key={note} value={semitone}>{note}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {controls.params.includes('brightness') &&
+                  renderSlider('Brightness', itemParams.brightness, (brightness) => handleChange(item.id, { brightness }))}
+                {controls.params.includes('density') &&
+                  renderSlider(controls.densityLabel, itemParams.density, (density) => handleChange(item.id, { density }))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
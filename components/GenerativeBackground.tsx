@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import { StorageManager, SessionCheckpoint } from '../utils/storage';
+import { getAppliedPalette } from '../utils/colorExtractor';
+import { getPausedMs } from '../utils/sessionTime';
+import { drawGeneratedBackground } from '../utils/canvasBackgrounds';
+
+interface GenerativeBackgroundProps {
+  backgroundId: string;
+  animate: boolean;  // false with reduced motion - redrawn still, once a second
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Frame pacing - smooth enough for slow motion, light on the CPU
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+// The palette is read from the CSS variables this often, following their transition
+const PALETTE_INTERVAL_MS = 200;
+
+// Canvas resolution cap on high-density screens
+const MAX_PIXEL_RATIO = 1.5;
+
+/**
+ * GenerativeBackground - A canvas drawing one of the generated backgrounds
+ *
+ * Reads the session checkpoint once a second (as the breathing pacer does) so
+ * the drawing can follow the session's active time, and takes its colours from
+ * the interface palette. requestAnimationFrame stops while the page is hidden.
+ */
+export const GenerativeBackground: React.FC<GenerativeBackgroundProps> = ({ backgroundId, animate, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const startedAt = performance.now();
+    let checkpoint: SessionCheckpoint | null = null;
+    let palette = getAppliedPalette();
+    let paletteReadAt = 0;
+    let lastFrameAt = 0;
+    let frameId = 0;
+
+    const readCheckpoint = () => {
+      checkpoint = StorageManager.getSessionCheckpoint();
+    };
+    readCheckpoint();
+    const checkpointInterval = setInterval(readCheckpoint, 1000);
+
+    const draw = (frameTime: number) => {
+      // Match the canvas to its displayed size
+      const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      if (frameTime - paletteReadAt >= PALETTE_INTERVAL_MS) {
+        palette = getAppliedPalette();
+        paletteReadAt = frameTime;
+      }
+
+      const now = Date.now();
+      const elapsedSeconds = checkpoint?.startedAt
+        ? (now - checkpoint.startedAt - getPausedMs(checkpoint.startedAt, checkpoint.pausedIntervals, now)) / 1000
+        : 0;
+
+      drawGeneratedBackground(ctx, backgroundId, {
+        width,
+        height,
+        time: animate ? (frameTime - startedAt) / 1000 : 0,
+        elapsedSeconds,
+        palette
+      });
+    };
+
+    const animateFrame = (frameTime: number) => {
+      frameId = requestAnimationFrame(animateFrame);
+      if (frameTime - lastFrameAt < FRAME_INTERVAL_MS) return;
+      lastFrameAt = frameTime;
+      draw(frameTime);
+    };
+
+    // Still frames only follow the session and palette
+    let stillInterval: ReturnType<typeof setInterval> | null = null;
+    if (animate) {
+      frameId = requestAnimationFrame(animateFrame);
+    } else {
+      draw(performance.now());
+      stillInterval = setInterval(() => draw(performance.now()), 1000);
+    }
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      clearInterval(checkpointInterval);
+      if (stillInterval) clearInterval(stillInterval);
+    };
+  }, [backgroundId, animate]);
+
+  return <canvas ref={canvasRef} className={className} style={style} aria-hidden="true" />;
+};
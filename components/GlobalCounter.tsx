@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { db } from '../lib/firebase';
 import { doc, updateDoc, serverTimestamp, collection, query, where, getCountFromServer, Timestamp, addDoc, increment } from 'firebase/firestore';
-import { StorageManager, SessionCheckpoint, PendingOrphanSession } from '../utils/storage';
+import { StorageManager, SessionCheckpoint, PendingOrphanSession, SessionPlan, PausedInterval } from '../utils/storage';
+import { getActiveSeconds, isPaused } from '../utils/sessionTime';
 import { getUserCounts, isUsingLocalDatabase, updateUser, endSession, getUser } from '../lib/database';
 
 interface GlobalCounterProps {
@@ -20,6 +21,13 @@ interface GlobalCounterProps {
  * - User is prompted to confirm they actually meditated for that duration
  * - Session is only saved to stats if user confirms
  *
+ * The session plan followed (if any) and the breathing pacer cycles completed
+ * are carried in the checkpoint and recorded with the session when it ends.
+ *
+ * Pausing: 'pauseMeditationSession' / 'resumeMeditationSession' events open and
+ * close paused intervals in the checkpoint; paused time never counts toward
+ * the session duration (including recovered orphan sessions).
+ *
  * Sessions only end when:
  * - User clicks "End Session" button
  * - User refreshes the page
@@ -31,6 +39,9 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const sessionStartTimeRef = useRef<number | null>(null);
   const sessionIdRef = useRef<string | null>(null);
+  const sessionPlanRef = useRef<SessionPlan | null>(null);
+  const pausedIntervalsRef = useRef<PausedInterval[]>([]);
+  const breathCyclesRef = useRef(0);
 
   // Handle checkpoint on mount - orphaned sessions need confirmation
   useEffect(() => {
@@ -41,7 +52,8 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
 
       if (checkpoint && checkpoint.userId === userId) {
         // Found an orphaned session - create pending session for confirmation
-        const durationSeconds = Math.max(0, Math.floor((checkpoint.lastCheckpoint - checkpoint.startedAt) / 1000));
+        // Paused time (including a pause still open at the last checkpoint) doesn't count
+        const durationSeconds = getActiveSeconds(checkpoint.startedAt, checkpoint.pausedIntervals, checkpoint.lastCheckpoint);
         const ONE_HOUR_IN_SECONDS = 60 * 60;
 
         // Only prompt for confirmation if session was > 1 hour
@@ -52,7 +64,9 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
             userId: checkpoint.userId,
             startedAt: checkpoint.startedAt,
             endedAt: checkpoint.lastCheckpoint,
-            durationSeconds
+            durationSeconds,
+            plan: checkpoint.plan,
+            breathCycles: checkpoint.breathCycles
           };
 
           StorageManager.savePendingOrphanSession(pendingSession);
@@ -74,15 +88,35 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
     handleExistingCheckpoint();
   }, [userId]);
 
+  // Remember the plan followed in this session - the timer switches back to
+  // count-up once the plan completes, so settings alone can't tell at the end
+  const trackSessionPlan = () => {
+    const plan = StorageManager.getActiveSessionPlan();
+    if (plan) {
+      sessionPlanRef.current = plan;
+    }
+  };
+
+  // Active seconds of the current session (paused time subtracted)
+  const getSessionDuration = (): number => {
+    if (!sessionStartTimeRef.current) return 0;
+    return getActiveSeconds(sessionStartTimeRef.current, pausedIntervalsRef.current, Date.now());
+  };
+
   const saveCheckpoint = () => {
     if (!userId || !sessionStartTimeRef.current || !sessionIdRef.current) return;
 
+    trackSessionPlan();
+
     const checkpoint: SessionCheckpoint = {
       sessionId: sessionIdRef.current,
       userId,
       startedAt: sessionStartTimeRef.current,
       lastCheckpoint: Date.now(),
-      elapsedSeconds: Math.floor((Date.now() - sessionStartTimeRef.current) / 1000)
+      elapsedSeconds: getSessionDuration(),
+      plan: sessionPlanRef.current || undefined,
+      pausedIntervals: pausedIntervalsRef.current,
+      breathCycles: breathCyclesRef.current || undefined
     };
 
     StorageManager.saveSessionCheckpoint(checkpoint);
@@ -98,7 +132,7 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
         if (isClosing) {
           // End session via API
           if (sessionIdRef.current && sessionStartTimeRef.current) {
-            const durationSeconds = Math.max(0, Math.floor((Date.now() - sessionStartTimeRef.current) / 1000));
+            const durationSeconds = getSessionDuration();
 
             // End session and update user stats via API
             await fetch('/api/meditation/end', {
@@ -123,6 +157,7 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
             StorageManager.clearSessionCheckpoint();
             sessionIdRef.current = null;
             sessionStartTimeRef.current = null;
+            pausedIntervalsRef.current = [];
           }
         } else {
           // Heartbeat - update last_seen and start session if needed
@@ -163,7 +198,7 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
         if (isClosing) {
           // Close active session and update user stats
           if (sessionIdRef.current && sessionStartTimeRef.current) {
-            const durationSeconds = Math.max(0, Math.floor((Date.now() - sessionStartTimeRef.current) / 1000));
+            const durationSeconds = getSessionDuration();
 
             // Update session in Firestore
             const sessionRef = doc(db, 'sessions', sessionIdRef.current);
@@ -186,6 +221,7 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
 
             sessionIdRef.current = null;
             sessionStartTimeRef.current = null;
+            pausedIntervalsRef.current = [];
           }
         } else {
           // Check if we need to start a new session
@@ -256,14 +292,34 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
       saveCheckpoint();
     };
 
-    // Handle explicit session end (from End Session button)
-    const handleEndSession = async () => {
+    // Handle explicit session end (from End Session button, or auto-end at the goal
+    // which passes the goal as durationSeconds so overshoot isn't recorded)
+    const handleEndSession = async (event: Event) => {
       if (sessionIdRef.current && sessionStartTimeRef.current) {
-        const durationSeconds = Math.max(0, Math.floor((Date.now() - sessionStartTimeRef.current) / 1000));
+        const requested = (event as CustomEvent<{ durationSeconds?: number } | undefined>).detail?.durationSeconds;
+        const activeSeconds = getSessionDuration();
+        const durationSeconds = requested !== undefined ? Math.min(requested, activeSeconds) : activeSeconds;
+        // Auto-ended sessions end at the goal, not when the tick noticed it
+        const endedAt = requested !== undefined ? Date.now() - (activeSeconds - durationSeconds) * 1000 : undefined;
+
+        trackSessionPlan();
+        const plan = sessionPlanRef.current || undefined;
+        const breathCycles = breathCyclesRef.current || undefined;
+
+        if (durationSeconds > 0) {
+          StorageManager.addSessionToHistory({
+            sessionId: sessionIdRef.current,
+            startedAt: sessionStartTimeRef.current,
+            endedAt: endedAt ?? Date.now(),
+            durationSeconds,
+            plan,
+            breathCycles
+          });
+        }
 
         try {
           // End session via abstraction layer
-          await endSession(sessionIdRef.current, durationSeconds).catch(() => {});
+          await endSession(sessionIdRef.current, durationSeconds, endedAt, { plan, breathCycles }).catch(() => {});
 
           // Update user stats (only if positive duration)
           if (durationSeconds > 0) {
@@ -292,6 +348,9 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
         // Clear session state
         sessionIdRef.current = null;
         sessionStartTimeRef.current = null;
+        sessionPlanRef.current = null;
+        pausedIntervalsRef.current = [];
+        breathCyclesRef.current = 0;
         StorageManager.clearSessionCheckpoint();
       }
     };
@@ -303,9 +362,23 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
 
       if (!session || session.userId !== userId) return;
 
+      if (session.durationSeconds > 0) {
+        StorageManager.addSessionToHistory({
+          sessionId: session.sessionId,
+          startedAt: session.startedAt,
+          endedAt: session.endedAt,
+          durationSeconds: session.durationSeconds,
+          plan: session.plan,
+          breathCycles: session.breathCycles
+        });
+      }
+
       try {
         // End session via abstraction layer
-        await endSession(session.sessionId, session.durationSeconds, session.endedAt).catch(() => {});
+        await endSession(session.sessionId, session.durationSeconds, session.endedAt, {
+          plan: session.plan,
+          breathCycles: session.breathCycles
+        }).catch(() => {});
 
         // Update user stats
         if (session.durationSeconds > 0) {
@@ -340,6 +413,30 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
       StorageManager.clearPendingOrphanSession();
     };
 
+    // Handle pause request - open a paused interval and save it right away
+    // so the timer display freezes on its next tick
+    const handlePauseSession = () => {
+      if (isPaused(pausedIntervalsRef.current)) return;
+      pausedIntervalsRef.current = [...pausedIntervalsRef.current, { start: Date.now(), end: null }];
+      saveCheckpoint();
+    };
+
+    // Handle resume request - close the open paused interval
+    const handleResumeSession = () => {
+      if (!isPaused(pausedIntervalsRef.current)) return;
+      const intervals = [...pausedIntervalsRef.current];
+      intervals[intervals.length - 1] = { ...intervals[intervals.length - 1], end: Date.now() };
+      pausedIntervalsRef.current = intervals;
+      saveCheckpoint();
+    };
+
+    // Handle breathing pacer cycles completed during the session
+    const handleBreathCycleCompleted = (event: Event) => {
+      const customEvent = event as CustomEvent<{ count: number }>;
+      if (!sessionIdRef.current) return;
+      breathCyclesRef.current += customEvent.detail?.count || 0;
+    };
+
     // Handle session start request (from tapping past entry screen)
     const handleStartSession = () => {
       // Immediately start a session if not already active
@@ -354,6 +451,9 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
     window.addEventListener('confirmOrphanSession', handleConfirmOrphanSession);
     window.addEventListener('denyOrphanSession', handleDenyOrphanSession);
     window.addEventListener('startMeditationSession', handleStartSession);
+    window.addEventListener('pauseMeditationSession', handlePauseSession);
+    window.addEventListener('resumeMeditationSession', handleResumeSession);
+    window.addEventListener('breathCycleCompleted', handleBreathCycleCompleted);
 
     return () => {
       // Cleanup - try to end session
@@ -365,6 +465,9 @@ export const GlobalCounter: React.FC<GlobalCounterProps> = ({ userId }) => {
       window.removeEventListener('confirmOrphanSession', handleConfirmOrphanSession);
       window.removeEventListener('denyOrphanSession', handleDenyOrphanSession);
       window.removeEventListener('startMeditationSession', handleStartSession);
+      window.removeEventListener('pauseMeditationSession', handlePauseSession);
+      window.removeEventListener('resumeMeditationSession', handleResumeSession);
+      window.removeEventListener('breathCycleCompleted', handleBreathCycleCompleted);
     };
   }, [userId]);
 
@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager, mediaCache, CueScript, GuidedCue, GuidanceSettings, LibraryTrack } from '../utils/storage';
+import { createCue, createCueScript, describeCueTiming, exportCueScript, parseCueScript, sortCues } from '../utils/guidedCues';
+import { getSpeechVoices, playCue } from '../utils/cuePlayer';
+import { downloadBlob } from '../utils/download';
+
+/**
+ * GuidedCuesSettings - Voice guidance scripts spoken during a session
+ * Rendered inside the Timer tab of SettingsPanel.
+ *
+ * Cues are spoken with the browser voice or played from a library clip.
+ * Scripts can be exported and imported as JSON files to share them.
+ * Changes apply to a running session via 'cueScriptsChanged' and
+ * 'guidanceSettingsChanged'.
+ */
+export const GuidedCuesSettings: React.FC = () => {
+  const [scripts, setScripts] = useState<CueScript[]>([]);
+  const [settings, setSettings] = useState<GuidanceSettings>(StorageManager.getGuidanceSettings);
+  const [editingScript, setEditingScript] = useState<CueScript | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [library, setLibrary] = useState<LibraryTrack[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setScripts(StorageManager.getCueScripts());
+
+    // Browsers load their voices asynchronously
+    const loadVoices = () => setVoices(getSpeechVoices());
+    const loadLibrary = () => {
+      mediaCache.getLibraryTracks().then(setLibrary);
+    };
+
+    loadVoices();
+    loadLibrary();
+    window.speechSynthesis?.addEventListener('voiceschanged', loadVoices);
+    window.addEventListener('audioLibraryChanged', loadLibrary);
+    return () => {
+      window.speechSynthesis?.removeEventListener('voiceschanged', loadVoices);
+      window.removeEventListener('audioLibraryChanged', loadLibrary);
+    };
+  }, []);
+
+  const updateSettings = (partial: Partial<GuidanceSettings>) => {
+    StorageManager.updateGuidanceSettings(partial);
+    setSettings(StorageManager.getGuidanceSettings());
+    window.dispatchEvent(new CustomEvent('guidanceSettingsChanged'));
+  };
+
+  // Save and let the timer pick up changes to the active script
+  const persist = (updated: CueScript[]) => {
+    setScripts(updated);
+    StorageManager.saveCueScripts(updated);
+    window.dispatchEvent(new CustomEvent('cueScriptsChanged'));
+  };
+
+  const handleDelete = (scriptId: string) => {
+    persist(scripts.filter(script => script.id !== scriptId));
+
+    // Deleting the active script turns guidance off
+    if (scriptId === settings.scriptId) {
+      updateSettings({ scriptId: null });
+    }
+  };
+
+  const handleSave = () => {
+    if (!editingScript) return;
+
+    // Drop cues without text and keep them in timeline order
+    const cues = sortCues(editingScript.cues
+      .map(cue => ({ ...cue, text: cue.text.trim() }))
+      .filter(cue => cue.text && cue.minutes >= 0));
+    if (cues.length === 0) return;
+    const script = { ...editingScript, name: editingScript.name.trim() || 'Untitled Script', cues };
+
+    const exists = scripts.some(s => s.id === script.id);
+    persist(exists ? scripts.map(s => (s.id === script.id ? script : s)) : [...scripts, script]);
+    setEditingScript(null);
+  };
+
+  const handleExport = (script: CueScript) => {
+    const blob = new Blob([exportCueScript(script)], { type: 'application/json' });
+    downloadBlob(blob, `${script.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'cue-script'}.json`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const script = parseCueScript(await file.text());
+      persist([...scripts, script]);
+    } catch (error) {
+      alert(`Could not import the cue script. ${(error as Error).message}`);
+    }
+  };
+
+  const updateCue = (cueId: string, changes: Partial<GuidedCue>) => {
+    if (!editingScript) return;
+    setEditingScript({
+      ...editingScript,
+      cues: editingScript.cues.map(cue => (cue.id === cueId ? { ...cue, ...changes } : cue))
+    });
+  };
+
+  const removeCue = (cueId: string) => {
+    if (!editingScript) return;
+    setEditingScript({ ...editingScript, cues: editingScript.cues.filter(cue => cue.id !== cueId) });
+  };
+
+  const renderSlider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <div className="flex items-center space-x-2">
+      <span className="text-primary-50 text-xs w-24">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={0.05}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="flex-1 accent-[var(--color-primary)]"
+      />
+    </div>
+  );
+
+  // Script editor
+  if (editingScript) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Script Name
+          </label>
+          <input
+            type="text"
+            value={editingScript.name}
+            onChange={(e) => setEditingScript({ ...editingScript, name: e.target.value })}
+            className="w-full px-4 py-2 bg-black/50 border border-primary-30 rounded text-white/90 font-cinzel focus:outline-none focus:border-primary"
+            placeholder="e.g. Breath Awareness"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+            Cues
+          </label>
+          {editingScript.cues.map((cue) => (
+            <div key={cue.id} className="p-3 rounded border border-primary-20 bg-primary-5 space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={cue.minutes}
+                  onChange={(e) => updateCue(cue.id, { minutes: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="w-16 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                />
+                <select
+                  value={cue.anchor}
+                  onChange={(e) => updateCue(cue.id, { anchor: e.target.value as GuidedCue['anchor'] })}
+                  className="flex-1 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+                >
+                  <option value="start">min after start</option>
+                  <option value="end">min before end</option>
+                </select>
+                <button
+                  onClick={() => playCue(cue)}
+                  className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+                >
+                  Play
+                </button>
+                <button
+                  onClick={() => removeCue(cue.id)}
+                  className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                  title="Remove cue"
+                >
+                  &#10005;
+                </button>
+              </div>
+              <input
+                type="text"
+                value={cue.text}
+                onChange={(e) => updateCue(cue.id, { text: e.target.value })}
+                className="w-full px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                placeholder="e.g. Return to the breath"
+              />
+              {library.length > 0 && (
+                <select
+                  value={cue.clipId || ''}
+                  onChange={(e) => updateCue(cue.id, { clipId: e.target.value || null })}
+                  className="w-full px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+                >
+                  <option value="">Speak with browser voice</option>
+                  {library.map((track) => (
+                    <option key={track.id} value={track.id}>Clip: {track.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+          <div
+            className="p-3 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+            onClick={() => setEditingScript({ ...editingScript, cues: [...editingScript.cues, createCue()] })}
+          >
+            <p className="text-primary-50 text-center text-sm">+ Add Cue</p>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingScript(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Script list
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+        Voice Guidance
+      </label>
+
+      <div
+        className={`p-4 rounded border transition-all cursor-pointer ${
+          settings.scriptId === null
+            ? 'border-primary bg-primary-10'
+            : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+        }`}
+        onClick={() => updateSettings({ scriptId: null })}
+      >
+        <div className="flex items-center justify-between">
+          <p className="text-white/90 font-medium">Off</p>
+          {settings.scriptId === null && (
+            <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+              <span className="text-black text-xs">&#10003;</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {scripts.map((script) => (
+        <div
+          key={script.id}
+          className={`p-4 rounded border transition-all ${
+            settings.scriptId === script.id
+              ? 'border-primary bg-primary-10'
+              : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => updateSettings({ scriptId: script.id })}>
+              <p className="text-white/90 font-medium">{script.name}</p>
+              <p className="text-primary-40 text-xs mt-1 truncate">
+                {script.cues.map(cue => describeCueTiming(cue)).join(' · ')}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {settings.scriptId === script.id && (
+                <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                  <span className="text-black text-xs">&#10003;</span>
+                </div>
+              )}
+              <button
+                onClick={() => setEditingScript(script)}
+                className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleExport(script)}
+                className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => handleDelete(script.id)}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Delete"
+              >
+                &#10005;
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        <div
+          className="flex-1 p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+          onClick={() => setEditingScript({ ...createCueScript(), cues: [createCue()] })}
+        >
+          <p className="text-primary-50 text-center">+ New Script</p>
+        </div>
+        <div
+          className="flex-1 p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+          onClick={() => importInputRef.current?.click()}
+        >
+          <p className="text-primary-50 text-center">Import Script</p>
+        </div>
+      </div>
+
+      {/* Voice */}
+      {settings.scriptId !== null && (
+        <div className="space-y-2">
+          {voices.length > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-primary-50 text-xs">Voice</span>
+              <select
+                value={settings.voiceName || ''}
+                onChange={(e) => updateSettings({ voiceName: e.target.value || null })}
+                className="w-48 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+              >
+                <option value="">Browser default</option>
+                {voices.map((voice) => (
+                  <option key={voice.name} value={voice.name}>{voice.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {renderSlider('Speed', settings.rate, 0.5, 1.5, (rate) => updateSettings({ rate }))}
+          {renderSlider('Voice Volume', settings.volume, 0, 1, (volume) => updateSettings({ volume }))}
+          {renderSlider('Ambient Level', settings.duckLevel, 0, 1, (duckLevel) => updateSettings({ duckLevel }))}
+        </div>
+      )}
+
+      <p className="text-primary-30 text-xs">
+        Cues are spoken at their time in the session; the ambient sound dips to the ambient level while one plays.
+        End-anchored cues need a count-down goal or plan.
+      </p>
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) {
+            handleImport(file);
+          }
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, mediaCache, LibraryTrack, Playlist } from '../utils/storage';
+import { PREDEFINED_AUDIO } from '../utils/mediaCatalog';
+import { createPlaylist, describePlaylist, getPlaylistTracks, moveTrack } from '../utils/playlists';
+
+interface PlaylistsProps {
+  selectedAudioId: string | null;
+  onSelect: (playlistId: string) => void;
+}
+
+/**
+ * Playlists - Build, order and select playlists of library tracks
+ * Rendered in the Audio tab of SettingsPanel, below the library. A playlist
+ * plays in order or shuffled with a crossfade between tracks; edits apply
+ * through the 'playlistsChanged' event.
+ */
+export const Playlists: React.FC<PlaylistsProps> = ({ selectedAudioId, onSelect }) => {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [library, setLibrary] = useState<LibraryTrack[]>([]);
+  const [editingPlaylist, setEditingPlaylist] = useState<Playlist | null>(null);
+
+  useEffect(() => {
+    setPlaylists(StorageManager.getPlaylists());
+
+    const loadLibrary = () => {
+      mediaCache.getLibraryTracks().then(setLibrary);
+    };
+
+    loadLibrary();
+    window.addEventListener('audioLibraryChanged', loadLibrary);
+    return () => {
+      window.removeEventListener('audioLibraryChanged', loadLibrary);
+    };
+  }, []);
+
+  // Save and let AudioPlayer pick up changes to the playing playlist
+  const persist = (updated: Playlist[]) => {
+    setPlaylists(updated);
+    StorageManager.savePlaylists(updated);
+    window.dispatchEvent(new CustomEvent('playlistsChanged'));
+  };
+
+  const handleToggleShuffle = (playlist: Playlist) => {
+    persist(playlists.map(p => (p.id === playlist.id ? { ...p, shuffle: !p.shuffle } : p)));
+  };
+
+  const handleDelete = (playlistId: string) => {
+    persist(playlists.filter(playlist => playlist.id !== playlistId));
+
+    // Deleting the playing playlist falls back to the first sound
+    if (playlistId === selectedAudioId) {
+      onSelect(PREDEFINED_AUDIO[0].id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editingPlaylist || editingPlaylist.trackIds.length === 0) return;
+
+    const playlist = { ...editingPlaylist, name: editingPlaylist.name.trim() || 'Untitled Playlist' };
+    const exists = playlists.some(p => p.id === playlist.id);
+    persist(exists ? playlists.map(p => (p.id === playlist.id ? playlist : p)) : [...playlists, playlist]);
+    setEditingPlaylist(null);
+  };
+
+  const renderShuffleButton = (shuffle: boolean, onToggle: () => void) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+      className={`px-3 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+        shuffle
+          ? 'bg-primary-30 border-primary text-white'
+          : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+      }`}
+    >
+      Shuffle
+    </button>
+  );
+
+  // Playlist editor
+  if (editingPlaylist) {
+    const playlistTracks = getPlaylistTracks(editingPlaylist, library);
+    const available = library.filter(track => !editingPlaylist.trackIds.includes(track.id));
+
+    return (
+      <div className="space-y-4 p-4 rounded border border-primary bg-primary-5">
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Playlist Name
+          </label>
+          <input
+            type="text"
+            value={editingPlaylist.name}
+            onChange={(e) => setEditingPlaylist({ ...editingPlaylist, name: e.target.value })}
+            className="w-full px-4 py-2 bg-black/50 border border-primary-30 rounded text-white/90 font-cinzel focus:outline-none focus:border-primary"
+            placeholder="e.g. Evening Sit"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-primary-50 text-xs">Play in random order</span>
+          {renderShuffleButton(editingPlaylist.shuffle, () =>
+            setEditingPlaylist({ ...editingPlaylist, shuffle: !editingPlaylist.shuffle }))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+            Tracks
+          </label>
+          {playlistTracks.map((track, index) => (
+            <div key={track.id} className="p-3 rounded border border-primary-20 bg-primary-5 flex items-center space-x-2">
+              <span className="flex-1 text-white/90 text-sm truncate">{track.name}</span>
+              <button
+                onClick={() => setEditingPlaylist({ ...editingPlaylist, trackIds: moveTrack(playlistTracks.map(t => t.id), index, -1) })}
+                disabled={index === 0}
+                className="text-primary-40 hover:text-primary disabled:opacity-30 text-sm p-1"
+                title="Move up"
+              >
+                &#9650;
+              </button>
+              <button
+                onClick={() => setEditingPlaylist({ ...editingPlaylist, trackIds: moveTrack(playlistTracks.map(t => t.id), index, 1) })}
+                disabled={index === playlistTracks.length - 1}
+                className="text-primary-40 hover:text-primary disabled:opacity-30 text-sm p-1"
+                title="Move down"
+              >
+                &#9660;
+              </button>
+              <button
+                onClick={() => setEditingPlaylist({ ...editingPlaylist, trackIds: editingPlaylist.trackIds.filter(id => id !== track.id) })}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Remove track"
+              >
+                &#10005;
+              </button>
+            </div>
+          ))}
+          {available.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  setEditingPlaylist({ ...editingPlaylist, trackIds: [...editingPlaylist.trackIds, e.target.value] });
+                }
+              }}
+              className="w-full px-2 py-2 bg-black/50 border border-dashed border-primary-30 rounded text-primary-50 text-sm focus:outline-none"
+            >
+              <option value="">+ Add Track</option>
+              {available.map((track) => (
+                <option key={track.id} value={track.id}>{track.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={playlistTracks.length === 0}
+            className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 disabled:opacity-40 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingPlaylist(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Playlist list
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        Playlists
+      </label>
+
+      {playlists.map((playlist) => {
+        const isSelected = selectedAudioId === playlist.id;
+        return (
+          <div
+            key={playlist.id}
+            className={`p-4 rounded border transition-all cursor-pointer ${
+              isSelected
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+            }`}
+            onClick={() => onSelect(playlist.id)}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <p className="text-white/90 font-medium">{playlist.name}</p>
+                <p className="text-primary-40 text-xs mt-1 truncate">{describePlaylist(playlist, library)}</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {isSelected && renderShuffleButton(playlist.shuffle, () => handleToggleShuffle(playlist))}
+                {isSelected && (
+                  <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <span className="text-black text-xs">&#10003;</span>
+                  </div>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingPlaylist(playlist);
+                  }}
+                  className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(playlist.id);
+                  }}
+                  className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                  title="Delete"
+                >
+                  &#10005;
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {library.length > 0 ? (
+        <div
+          className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+          onClick={() => setEditingPlaylist(createPlaylist())}
+        >
+          <p className="text-primary-50 text-center">+ New Playlist</p>
+        </div>
+      ) : (
+        <p className="text-primary-30 text-xs">Add tracks to your library to build playlists.</p>
+      )}
+    </div>
+  );
+};
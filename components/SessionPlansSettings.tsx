@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, SessionPlan, SessionPlanStage } from '../utils/storage';
+import { createPlan, createStage, describePlan } from '../utils/sessionPlans';
+
+/**
+ * SessionPlansSettings - Save, edit and select multi-stage session plans
+ * Rendered inside the Timer tab of SettingsPanel.
+ *
+ * Selecting a plan switches the timer to plan mode right away via the
+ * 'timerSettingsChanged' event, so an active session is never reloaded.
+ */
+export const SessionPlansSettings: React.FC = () => {
+  const [plans, setPlans] = useState<SessionPlan[]>([]);
+  const [activePlanId, setActivePlanId] = useState<string | null>(null);
+  const [editingPlan, setEditingPlan] = useState<SessionPlan | null>(null);
+
+  useEffect(() => {
+    setPlans(StorageManager.getSessionPlans());
+    setActivePlanId(StorageManager.getActiveSessionPlan()?.id || null);
+  }, []);
+
+  const notifyTimer = () => {
+    window.dispatchEvent(new CustomEvent('timerSettingsChanged'));
+  };
+
+  // Select a plan - timer switches to plan mode
+  const handleSelect = (planId: string) => {
+    setActivePlanId(planId);
+    StorageManager.updateTimerSettings({ type: 'plan', planId, targetMinutes: undefined });
+    notifyTimer();
+  };
+
+  const handleDelete = (planId: string) => {
+    const updated = plans.filter(plan => plan.id !== planId);
+    setPlans(updated);
+    StorageManager.saveSessionPlans(updated);
+
+    // Deleting the active plan falls back to an open session
+    if (planId === activePlanId) {
+      setActivePlanId(null);
+      StorageManager.updateTimerSettings({ type: 'count-up', planId: undefined });
+      notifyTimer();
+    }
+  };
+
+  const handleSave = () => {
+    if (!editingPlan) return;
+
+    // Drop empty stages and give the plan a name
+    const stages = editingPlan.stages.filter(stage => stage.name.trim() && stage.minutes > 0);
+    if (stages.length === 0) return;
+    const plan = { ...editingPlan, name: editingPlan.name.trim() || 'Untitled Plan', stages };
+
+    const exists = plans.some(p => p.id === plan.id);
+    const updated = exists ? plans.map(p => (p.id === plan.id ? plan : p)) : [...plans, plan];
+    setPlans(updated);
+    StorageManager.saveSessionPlans(updated);
+    setEditingPlan(null);
+
+    // Editing the active plan updates the running timer
+    if (plan.id === activePlanId) {
+      notifyTimer();
+    }
+  };
+
+  const updateStage = (stageId: string, changes: Partial<SessionPlanStage>) => {
+    if (!editingPlan) return;
+    setEditingPlan({
+      ...editingPlan,
+      stages: editingPlan.stages.map(stage => (stage.id === stageId ? { ...stage, ...changes } : stage))
+    });
+  };
+
+  const removeStage = (stageId: string) => {
+    if (!editingPlan) return;
+    setEditingPlan({ ...editingPlan, stages: editingPlan.stages.filter(stage => stage.id !== stageId) });
+  };
+
+  const addStage = () => {
+    if (!editingPlan) return;
+    setEditingPlan({ ...editingPlan, stages: [...editingPlan.stages, createStage()] });
+  };
+
+  // Plan editor
+  if (editingPlan) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Plan Name
+          </label>
+          <input
+            type="text"
+            value={editingPlan.name}
+            onChange={(e) => setEditingPlan({ ...editingPlan, name: e.target.value })}
+            className="w-full px-4 py-2 bg-black/50 border border-primary-30 rounded text-white/90 font-cinzel focus:outline-none focus:border-primary"
+            placeholder="e.g. Morning Sit"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+            Stages
+          </label>
+          {editingPlan.stages.map((stage, index) => (
+            <div key={stage.id} className="p-3 rounded border border-primary-20 bg-primary-5 flex items-center space-x-2">
+              <span className="text-primary-40 text-xs w-4">{index + 1}</span>
+              <input
+                type="text"
+                value={stage.name}
+                onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                placeholder="Stage name"
+              />
+              <input
+                type="number"
+                min={1}
+                value={stage.minutes}
+                onChange={(e) => updateStage(stage.id, { minutes: parseFloat(e.target.value) || 0 })}
+                className="w-16 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary-50"
+                title="Minutes"
+              />
+              <select
+                value={stage.bellStrikes}
+                onChange={(e) => updateStage(stage.id, { bellStrikes: parseInt(e.target.value) })}
+                className="px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+                title="Bell strikes when this stage begins"
+              >
+                {[1, 2, 3].map((strikes) => (
+                  <option key={strikes} value={strikes}>
+                    {strikes} {strikes === 1 ? 'bell' : 'bells'}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeStage(stage.id)}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Remove stage"
+              >
+                &#10005;
+              </button>
+            </div>
+          ))}
+          <div
+            className="p-3 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+            onClick={addStage}
+          >
+            <p className="text-primary-50 text-center text-sm">+ Add Stage</p>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingPlan(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Plan list
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+        Session Plans
+      </label>
+
+      {plans.map((plan) => (
+        <div
+          key={plan.id}
+          className={`p-4 rounded border transition-all ${
+            activePlanId === plan.id
+              ? 'border-primary bg-primary-10'
+              : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex-1 cursor-pointer" onClick={() => handleSelect(plan.id)}>
+              <p className="text-white/90 font-medium">{plan.name}</p>
+              <p className="text-primary-40 text-xs mt-1">
+                {plan.stages.map(stage => stage.name).join(' → ')} ({describePlan(plan)})
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {activePlanId === plan.id && (
+                <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                  <span className="text-black text-xs">&#10003;</span>
+                </div>
+              )}
+              <button
+                onClick={() => setEditingPlan(plan)}
+                className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(plan.id)}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Delete"
+              >
+                &#10005;
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div
+        className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+        onClick={() => setEditingPlan(createPlan())}
+      >
+        <p className="text-primary-50 text-center">+ New Session Plan</p>
+      </div>
+
+      <div className="mt-6 p-3 bg-primary-5 border border-primary-20 rounded text-xs text-primary-50">
+        Selecting a plan switches the timer to plan mode. Each stage begins with its own number of bell strikes.
+      </div>
+    </div>
+  );
+};
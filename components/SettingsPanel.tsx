@@ -1,6 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StorageManager, mediaCache } from '../utils/storage';
+import { StorageManager, mediaCache, GoalBehavior } from '../utils/storage';
 import { generateDisplayName } from '../utils/displayName';
+import { PREDEFINED_AUDIO, PREDEFINED_IMAGES, PREDEFINED_VIDEOS, GENERATED_BACKGROUNDS } from '../utils/mediaCatalog';
+import { CUSTOM_VIDEO_ID, MAX_IMAGE_BYTES, MAX_VIDEO_BYTES } from '../utils/backgrounds';
+import { DEFAULT_GOAL_BEHAVIOR, REMINDER_PRESETS } from '../utils/goalBehavior';
+import { SessionPlansSettings } from './SessionPlansSettings';
+import { BreathingPacerSettings } from './BreathingPacerSettings';
+import { TimerPresetsSettings } from './TimerPresetsSettings';
+import { BellSettings } from './BellSettings';
+import { SoundscapeMixer } from './SoundscapeMixer';
+import { GeneratedSounds } from './GeneratedSounds';
+import { EntrainmentSettings } from './EntrainmentSettings';
+import { VolumeSettings } from './VolumeSettings';
+import { GuidedCuesSettings } from './GuidedCuesSettings';
+import { AudioLibrary } from './AudioLibrary';
+import { Playlists } from './Playlists';
+import { SlideshowSettings } from './SlideshowSettings';
+import { TimeOfDaySettings } from './TimeOfDaySettings';
+import { ThemeSettings } from './ThemeSettings';
+import { BackupSettings } from './BackupSettings';
 
 interface SettingsPanelProps {
   userId: string;
@@ -9,41 +27,23 @@ interface SettingsPanelProps {
   onSettingsChanged?: () => void;
 }
 
-interface MediaItem {
-  id: string;
-  type: string;
-  name: string;
-  path: string;
-  isCustom?: boolean;
-}
-
-const PREDEFINED_AUDIO: MediaItem[] = [
-  { id: 'om-mantra', type: 'audio', name: 'Om Mantra Chant', path: '/media/audio/predefined/om-mantra.mp3' },
-  { id: 'meditation-bell', type: 'audio', name: 'Meditation Bell (1 min)', path: '/media/audio/predefined/meditation-bell-1min.mp3' },
-  { id: 'rain', type: 'audio', name: 'Rain Storm', path: '/media/audio/predefined/11L-rain_storm-14472913.mp3' },
-  { id: 'fire', type: 'audio', name: 'Crackling Fire', path: '/media/audio/predefined/fire.mp3' },
-  { id: 'ocean', type: 'audio', name: 'Ocean Waves', path: '/media/audio/predefined/ocean-waves.mp3' },
-  { id: 'silence', type: 'audio', name: 'Silent Meditation', path: '' }
-];
-
-const PREDEFINED_IMAGES: MediaItem[] = [
-  { id: 'mountain-sunrise', type: 'image', name: 'Mountain Sunrise', path: '/media/images/predefined/mountain-sunrise.jpg' },
-  { id: 'ocean-sunset', type: 'image', name: 'Ocean Sunset', path: '/media/images/predefined/ocean-sunset.jpg' },
-  { id: 'forest-mist', type: 'image', name: 'Misty Forest', path: '/media/images/predefined/forest-mist.jpg' }
-];
+// Preparation countdown lengths offered in the Timer tab (seconds, 0 = off)
+const PREPARATION_OPTIONS = [0, 10, 20, 30, 60];
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'profile' | 'audio' | 'image'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'timer' | 'audio' | 'bells' | 'image'>('profile');
   const [selectedAudioId, setSelectedAudioId] = useState<string | null>(null);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [customAudio, setCustomAudio] = useState<{ name: string; url: string } | null>(null);
   const [customImage, setCustomImage] = useState<{ name: string; url: string } | null>(null);
+  const [customVideo, setCustomVideo] = useState<{ name: string; url: string } | null>(null);
   const [displayName, setDisplayName] = useState<string>('');
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [pendingReload, setPendingReload] = useState(false);
-  const audioInputRef = useRef<HTMLInputElement>(null);
+  const [preparationSeconds, setPreparationSeconds] = useState(0);
+  const [goalBehavior, setGoalBehavior] = useState<GoalBehavior>(DEFAULT_GOAL_BEHAVIOR);
   const imageInputRef = useRef<HTMLInputElement>(null);
 
   // Handle close with pending reload
@@ -66,6 +66,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
       setSelectedAudioId(settings.selectedAudioId);
       setSelectedImageId(settings.selectedImageId);
       setDisplayName(StorageManager.getDisplayName());
+      setPreparationSeconds(settings.timerSettings?.preparationSeconds || 0);
+      setGoalBehavior(settings.timerSettings?.goalBehavior || DEFAULT_GOAL_BEHAVIOR);
 
       // Load custom audio from IndexedDB
       const cachedAudio = await mediaCache.getFile('audio');
@@ -78,6 +80,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
       if (cachedImage) {
         setCustomImage(cachedImage);
       }
+
+      // Load custom video from IndexedDB
+      const cachedVideo = await mediaCache.getFile('video');
+      if (cachedVideo) {
+        setCustomVideo(cachedVideo);
+      }
     };
 
     loadSettings();
@@ -107,6 +115,19 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
     setTempName(newName);
   };
 
+  // Handle preparation countdown selection (applies to the next session start)
+  const handlePreparationSelect = (seconds: number) => {
+    setPreparationSeconds(seconds);
+    StorageManager.updateTimerSettings({ preparationSeconds: seconds });
+  };
+
+  // Handle goal behavior selection (applies to the running timer right away)
+  const handleGoalBehaviorSelect = (behavior: GoalBehavior) => {
+    setGoalBehavior(behavior);
+    StorageManager.updateTimerSettings({ goalBehavior: behavior });
+    window.dispatchEvent(new CustomEvent('timerSettingsChanged'));
+  };
+
   // Handle predefined media selection
   const handleSelect = (type: 'audio' | 'image', id: string) => {
     if (type === 'audio') {
@@ -121,22 +142,25 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
     setPendingReload(true);
   };
 
-  // Handle custom file upload
-  const handleFileUpload = async (type: 'audio' | 'image', file: File) => {
+  // Handle custom image or video upload (audio uploads go to the library).
+  // The preview uses MediaCache's object URL, which it revokes on replace.
+  const handleBackgroundUpload = async (file: File) => {
     setLoading(true);
     try {
-      await mediaCache.saveFile(type, file);
+      if (file.type.startsWith('video/')) {
+        await mediaCache.saveFile('video', file);
 
-      if (type === 'audio') {
-        setSelectedAudioId('custom');
-        setCustomAudio({ name: file.name, url: URL.createObjectURL(file) });
+        setSelectedImageId(CUSTOM_VIDEO_ID);
+        setCustomVideo(await mediaCache.getFile('video'));
         StorageManager.updateSettings({
-          selectedAudioId: 'custom',
-          customAudioName: file.name
+          selectedImageId: CUSTOM_VIDEO_ID,
+          customVideoName: file.name
         });
       } else {
+        await mediaCache.saveFile('image', file);
+
         setSelectedImageId('custom');
-        setCustomImage({ name: file.name, url: URL.createObjectURL(file) });
+        setCustomImage(await mediaCache.getFile('image'));
         StorageManager.updateSettings({
           selectedImageId: 'custom',
           customImageName: file.name
@@ -153,7 +177,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
   };
 
   // Handle removing custom file
-  const handleRemoveCustom = async (type: 'audio' | 'image') => {
+  const handleRemoveCustom = async (type: 'audio' | 'image' | 'video') => {
     await mediaCache.deleteFile(type);
 
     if (type === 'audio') {
@@ -163,6 +187,14 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
         selectedAudioId: PREDEFINED_AUDIO[0].id,
         customAudioName: null
       });
+    } else if (type === 'video') {
+      setCustomVideo(null);
+      const fallbackId = selectedImageId === CUSTOM_VIDEO_ID ? PREDEFINED_IMAGES[0].id : selectedImageId;
+      setSelectedImageId(fallbackId);
+      StorageManager.updateSettings({
+        selectedImageId: fallbackId,
+        customVideoName: null
+      });
     } else {
       setCustomImage(null);
       setSelectedImageId(PREDEFINED_IMAGES[0].id);
@@ -178,9 +210,46 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
 
   if (!isOpen) return null;
 
-  const currentItems = activeTab === 'audio' ? PREDEFINED_AUDIO : PREDEFINED_IMAGES;
+  const currentItems = activeTab === 'audio' ? PREDEFINED_AUDIO : [...PREDEFINED_IMAGES, ...PREDEFINED_VIDEOS, ...GENERATED_BACKGROUNDS];
   const selectedId = activeTab === 'audio' ? selectedAudioId : selectedImageId;
-  const customMedia = activeTab === 'audio' ? customAudio : customImage;
+
+  // A custom upload - select it, or remove it
+  const renderCustomItem = (type: 'audio' | 'image' | 'video', media: { name: string }) => {
+    const id = type === 'video' ? CUSTOM_VIDEO_ID : 'custom';
+    return (
+      <div
+        className={`p-4 rounded border transition-all ${
+          selectedId === id
+            ? 'border-primary bg-primary-10'
+            : 'border-primary-20 bg-primary-5'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <div
+            className="flex-1 cursor-pointer"
+            onClick={() => handleSelect(type === 'audio' ? 'audio' : 'image', id)}
+          >
+            <p className="text-white/90 font-medium truncate">{media.name}</p>
+            <p className="text-primary-40 text-xs mt-1">{type === 'video' ? 'Custom Video' : 'Custom Upload'}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {selectedId === id && (
+              <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                <span className="text-black text-xs">&#10003;</span>
+              </div>
+            )}
+            <button
+              onClick={() => handleRemoveCustom(type)}
+              className="text-red-400/60 hover:text-red-400 text-sm p-1"
+              title="Remove"
+            >
+              &#10005;
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div
@@ -188,7 +257,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
       onClick={handleClose}
     >
       <div
-        className="bg-black/95 border border-primary-30 rounded-lg p-6 max-w-lg w-full mx-4 max-h-[80vh] overflow-y-auto"
+        className="bg-surface-95 border border-primary-30 rounded-lg p-6 max-w-lg w-full mx-4 max-h-[80vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -203,7 +272,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
         </div>
 
         {/* Tabs */}
-        <div className="flex space-x-4 mb-6 border-b border-primary-20">
+        <div className="flex space-x-4 mb-6 border-b border-primary-20 overflow-x-auto">
           <button
             onClick={() => setActiveTab('profile')}
             className={`pb-3 px-4 text-sm uppercase tracking-[0.2em] transition-all ${
@@ -214,6 +283,16 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
           >
             Profile
           </button>
+          <button
+            onClick={() => setActiveTab('timer')}
+            className={`pb-3 px-4 text-sm uppercase tracking-[0.2em] transition-all ${
+              activeTab === 'timer'
+                ? 'text-primary border-b-2 border-primary'
+                : 'text-primary-40 hover:text-primary'
+            }`}
+          >
+            Timer
+          </button>
           <button
             onClick={() => setActiveTab('audio')}
             className={`pb-3 px-4 text-sm uppercase tracking-[0.2em] transition-all ${
@@ -224,6 +303,16 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
           >
             Audio
           </button>
+          <button
+            onClick={() => setActiveTab('bells')}
+            className={`pb-3 px-4 text-sm uppercase tracking-[0.2em] transition-all ${
+              activeTab === 'bells'
+                ? 'text-primary border-b-2 border-primary'
+                : 'text-primary-40 hover:text-primary'
+            }`}
+          >
+            Bells
+          </button>
           <button
             onClick={() => setActiveTab('image')}
             className={`pb-3 px-4 text-sm uppercase tracking-[0.2em] transition-all ${
@@ -299,61 +388,106 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
             <div className="mt-6 p-3 bg-primary-5 border border-primary-20 rounded text-xs text-primary-50">
               Your display name is shown on the leaderboard. Click the refresh icon while editing to generate a new random name.
             </div>
+
+            <BackupSettings />
           </div>
         )}
 
-        {/* Media List */}
-        {(activeTab === 'audio' || activeTab === 'image') && (
-        <div className="space-y-3">
-          {/* Custom Upload Option */}
-          {customMedia ? (
-            <div
-              className={`p-4 rounded border transition-all ${
-                selectedId === 'custom'
-                  ? 'border-primary bg-primary-10'
-                  : 'border-primary-20 bg-primary-5'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div
-                  className="flex-1 cursor-pointer"
-                  onClick={() => handleSelect(activeTab as 'audio' | 'image', 'custom')}
-                >
-                  <p className="text-white/90 font-medium truncate">{customMedia.name}</p>
-                  <p className="text-primary-40 text-xs mt-1">Custom Upload</p>
-                </div>
-                <div className="flex items-center space-x-2">
-                  {selectedId === 'custom' && (
-                    <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
-                      <span className="text-black text-xs">&#10003;</span>
-                    </div>
-                  )}
+        {/* Timer Tab Content */}
+        {activeTab === 'timer' && (
+          <div className="space-y-6">
+            <div>
+              <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+                Preparation Countdown
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {PREPARATION_OPTIONS.map((seconds) => (
                   <button
-                    onClick={() => handleRemoveCustom(activeTab as 'audio' | 'image')}
-                    className="text-red-400/60 hover:text-red-400 text-sm p-1"
-                    title="Remove"
+                    key={seconds}
+                    onClick={() => handlePreparationSelect(seconds)}
+                    className={`px-4 py-2 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                      preparationSeconds === seconds
+                        ? 'bg-primary-30 border-primary text-white'
+                        : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+                    }`}
                   >
-                    &#10005;
+                    {seconds === 0 ? 'Off' : `${seconds}s`}
                   </button>
-                </div>
+                ))}
               </div>
+              <p className="text-primary-30 text-xs mt-2">
+                Time to sit down and settle after tapping begin. A bell rings when the session starts; this time isn't counted.
+              </p>
             </div>
-          ) : (
+
+            <div>
+              <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+                When the Goal Is Reached
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {([
+                  { behavior: { mode: 'continue' }, label: 'Continue' },
+                  { behavior: { mode: 'auto-end' }, label: 'End Session' },
+                  ...REMINDER_PRESETS.map((minutes) => ({
+                    behavior: { mode: 'reminder', reminderMinutes: minutes },
+                    label: `Remind / ${minutes} Min`
+                  }))
+                ] as Array<{ behavior: GoalBehavior; label: string }>).map(({ behavior, label }) => {
+                  const isActive = goalBehavior.mode === behavior.mode &&
+                    (behavior.mode !== 'reminder' || goalBehavior.reminderMinutes === behavior.reminderMinutes);
+                  return (
+                    <button
+                      key={label}
+                      onClick={() => handleGoalBehaviorSelect(behavior)}
+                      className={`px-4 py-2 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                        isActive
+                          ? 'bg-primary-30 border-primary text-white'
+                          : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-primary-30 text-xs mt-2">
+                End Session records exactly the goal duration. Reminders keep the session going and ring a bell during overtime.
+              </p>
+            </div>
+
+            <TimerPresetsSettings />
+
+            <SessionPlansSettings />
+
+            <BreathingPacerSettings />
+
+            <GuidedCuesSettings />
+          </div>
+        )}
+
+        {/* Bells Tab Content */}
+        {activeTab === 'bells' && <BellSettings />}
+
+        {/* Media List */}
+        {(activeTab === 'audio' || activeTab === 'image') && (
+        <div className="space-y-3">
+          {/* Master volume and session fades */}
+          {activeTab === 'audio' && <VolumeSettings />}
+
+          {/* Custom Uploads - audio keeps an earlier single upload, new ones go to the library */}
+          {activeTab === 'audio' && customAudio && renderCustomItem('audio', customAudio)}
+          {activeTab === 'image' && customImage && renderCustomItem('image', customImage)}
+          {activeTab === 'image' && customVideo && renderCustomItem('video', customVideo)}
+          {activeTab === 'image' && (!customImage || !customVideo) && (
             <div
               className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
-              onClick={() => {
-                if (activeTab === 'audio') {
-                  audioInputRef.current?.click();
-                } else {
-                  imageInputRef.current?.click();
-                }
-              }}
+              onClick={() => imageInputRef.current?.click()}
             >
               <p className="text-primary-50 text-center">
-                + Upload Custom {activeTab === 'audio' ? 'Audio' : 'Image'}
+                + Upload Custom Image or Video
               </p>
               <p className="text-primary-30 text-xs text-center mt-1">
-                {activeTab === 'audio' ? 'MP3, WAV, OGG (max 10MB)' : 'JPG, PNG, WebP (max 5MB)'}
+                JPG, PNG, WebP (max 5MB) · MP4, WebM loops (max 25MB)
               </p>
             </div>
           )}
@@ -372,7 +506,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-white/90 font-medium">{item.name}</p>
-                  <p className="text-primary-40 text-xs mt-1">Predefined</p>
+                  <p className="text-primary-40 text-xs mt-1">{item.type === 'video' ? 'Predefined Video' : item.type === 'generated' ? 'Generated - follows the session' : 'Predefined'}</p>
                 </div>
                 {selectedId === item.id && (
                   <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
@@ -383,6 +517,54 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
             </div>
           ))}
 
+          {/* Several backgrounds in turn */}
+          {activeTab === 'image' && <SlideshowSettings customImageName={customImage?.name || null} />}
+
+          {/* Backgrounds by the local time */}
+          {activeTab === 'image' && (
+            <TimeOfDaySettings
+              customImageName={customImage?.name || null}
+              customVideoName={customVideo?.name || null}
+            />
+          )}
+
+          {/* Accent colour, dimming and saved themes */}
+          {activeTab === 'image' && <ThemeSettings />}
+
+          {/* Personal tracks and playlists */}
+          {activeTab === 'audio' && (
+            <>
+              <AudioLibrary
+                selectedAudioId={selectedAudioId}
+                onSelect={(id) => handleSelect('audio', id)}
+              />
+              <Playlists
+                selectedAudioId={selectedAudioId}
+                onSelect={(id) => handleSelect('audio', id)}
+              />
+            </>
+          )}
+
+          {/* Procedural sounds */}
+          {activeTab === 'audio' && (
+            <GeneratedSounds
+              selectedAudioId={selectedAudioId}
+              onSelect={(id) => handleSelect('audio', id)}
+            />
+          )}
+
+          {/* Layered mixes */}
+          {activeTab === 'audio' && (
+            <SoundscapeMixer
+              selectedAudioId={selectedAudioId}
+              customAudioName={customAudio?.name || null}
+              onSelect={(id) => handleSelect('audio', id)}
+            />
+          )}
+
+          {/* Binaural / isochronic tones */}
+          {activeTab === 'audio' && <EntrainmentSettings />}
+
           {/* Info */}
           <div className="mt-6 p-3 bg-primary-5 border border-primary-20 rounded text-xs text-primary-50">
             Custom files are stored locally in your browser and persist across sessions.
@@ -396,33 +578,21 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
           </div>
         )}
 
-        {/* Hidden file inputs */}
-        <input
-          ref={audioInputRef}
-          type="file"
-          accept="audio/*"
-          className="hidden"
-          onChange={(e) => {
-            const file = e.target.files?.[0];
-            if (file && file.size <= 10 * 1024 * 1024) {
-              handleFileUpload('audio', file);
-            } else if (file) {
-              alert('File too large. Maximum size is 10MB.');
-            }
-          }}
-        />
+        {/* Hidden file input */}
         <input
           ref={imageInputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,video/mp4,video/webm"
           className="hidden"
           onChange={(e) => {
             const file = e.target.files?.[0];
-            if (file && file.size <= 5 * 1024 * 1024) {
-              handleFileUpload('image', file);
+            const maxBytes = file?.type.startsWith('video/') ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES;
+            if (file && file.size <= maxBytes) {
+              handleBackgroundUpload(file);
             } else if (file) {
-              alert('File too large. Maximum size is 5MB.');
+              alert(`File too large. Maximum size is ${maxBytes / (1024 * 1024)}MB.`);
             }
+            e.target.value = '';
           }}
         />
       </div>
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, SlideshowSettings as SlideshowSettingsType } from '../utils/storage';
+import { PREDEFINED_IMAGES } from '../utils/mediaCatalog';
+import { SLIDESHOW_INTERVALS, prefersReducedMotion } from '../utils/slideshow';
+
+interface SlideshowSettingsProps {
+  customImageName: string | null;
+}
+
+/**
+ * SlideshowSettings - Cycle the background through several images
+ * Rendered in the Background tab of SettingsPanel. Changes apply right away
+ * via the 'slideshowSettingsChanged' event.
+ */
+export const SlideshowSettings: React.FC<SlideshowSettingsProps> = ({ customImageName }) => {
+  const [settings, setSettings] = useState<SlideshowSettingsType>(StorageManager.getSlideshowSettings);
+
+  useEffect(() => {
+    setSettings(StorageManager.getSlideshowSettings());
+  }, []);
+
+  const update = (partial: Partial<SlideshowSettingsType>) => {
+    StorageManager.updateSlideshowSettings(partial);
+    setSettings(StorageManager.getSlideshowSettings());
+    window.dispatchEvent(new CustomEvent('slideshowSettingsChanged'));
+  };
+
+  const toggleImage = (imageId: string) => {
+    update({
+      imageIds: settings.imageIds.includes(imageId)
+        ? settings.imageIds.filter(id => id !== imageId)
+        : [...settings.imageIds, imageId]
+    });
+  };
+
+  const images = [
+    ...PREDEFINED_IMAGES.map(image => ({ id: image.id, name: image.name })),
+    ...(customImageName ? [{ id: 'custom', name: customImageName }] : [])
+  ];
+  const includedCount = images.filter(image => settings.imageIds.includes(image.id)).length;
+
+  const renderToggle = (isOn: boolean, onToggle: () => void) => (
+    <button
+      onClick={onToggle}
+      className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+        isOn
+          ? 'bg-primary-30 border-primary text-white'
+          : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+      }`}
+    >
+      {isOn ? 'On' : 'Off'}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between pt-2">
+        <label className="text-primary-40 text-xs uppercase tracking-[0.2em]">
+          Slideshow
+        </label>
+        {renderToggle(settings.enabled, () => update({ enabled: !settings.enabled }))}
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="space-y-2">
+            {images.map((image) => (
+              <label key={image.id} className="flex items-center space-x-2 text-white/90 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.imageIds.includes(image.id)}
+                  onChange={() => toggleImage(image.id)}
+                  className="accent-[var(--color-primary)]"
+                />
+                <span className="truncate">{image.name}</span>
+              </label>
+            ))}
+            {includedCount < 2 && (
+              <p className="text-primary-30 text-xs">Choose at least two images - until then the selected background is shown.</p>
+            )}
+          </div>
+
+          <div>
+            <span className="text-primary-50 text-xs block mb-2">Change Every</span>
+            <div className="flex flex-wrap gap-2">
+              {SLIDESHOW_INTERVALS.map((seconds) => (
+                <button
+                  key={seconds}
+                  onClick={() => update({ intervalSeconds: seconds })}
+                  className={`px-3 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+                    settings.intervalSeconds === seconds
+                      ? 'bg-primary-30 border-primary text-white'
+                      : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+                  }`}
+                >
+                  {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-primary-50 text-xs">Slow pan and zoom</span>
+            {renderToggle(settings.motion, () => update({ motion: !settings.motion }))}
+          </div>
+          {settings.motion && prefersReducedMotion() && (
+            <p className="text-primary-30 text-xs">Your system asks for reduced motion, so the images stay still.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, Soundscape, SoundscapeLayer } from '../utils/storage';
+import { PREDEFINED_AUDIO, GENERATED_AUDIO } from '../utils/mediaCatalog';
+import { createLayer, createSoundscape, describeSoundscape, MAX_SOUNDSCAPE_LAYERS } from '../utils/soundscapes';
+
+interface SoundscapeMixerProps {
+  selectedAudioId: string | null;
+  customAudioName: string | null;
+  onSelect: (soundscapeId: string) => void;
+}
+
+/**
+ * SoundscapeMixer - Save, edit and select layered ambient mixes
+ * Rendered in the Audio tab of SettingsPanel, alongside the single sounds.
+ *
+ * The selected soundscape shows a volume slider per layer that applies
+ * live through the 'soundscapesChanged' event.
+ */
+export const SoundscapeMixer: React.FC<SoundscapeMixerProps> = ({ selectedAudioId, customAudioName, onSelect }) => {
+  const [soundscapes, setSoundscapes] = useState<Soundscape[]>([]);
+  const [editingSoundscape, setEditingSoundscape] = useState<Soundscape | null>(null);
+
+  useEffect(() => {
+    setSoundscapes(StorageManager.getSoundscapes());
+  }, []);
+
+  // Save and let AudioPlayer pick up changes to the playing mix
+  const persist = (updated: Soundscape[]) => {
+    setSoundscapes(updated);
+    StorageManager.saveSoundscapes(updated);
+    window.dispatchEvent(new CustomEvent('soundscapesChanged'));
+  };
+
+  const handleLayerVolume = (soundscapeId: string, layerIndex: number, volume: number) => {
+    persist(soundscapes.map(soundscape => soundscape.id !== soundscapeId ? soundscape : {
+      ...soundscape,
+      layers: soundscape.layers.map((layer, index) => (index === layerIndex ? { ...layer, volume } : layer))
+    }));
+  };
+
+  const handleDelete = (soundscapeId: string) => {
+    persist(soundscapes.filter(soundscape => soundscape.id !== soundscapeId));
+
+    // Deleting the playing mix falls back to the first sound
+    if (soundscapeId === selectedAudioId) {
+      onSelect(PREDEFINED_AUDIO[0].id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editingSoundscape || editingSoundscape.layers.length === 0) return;
+
+    const soundscape = { ...editingSoundscape, name: editingSoundscape.name.trim() || 'Untitled Soundscape' };
+    const exists = soundscapes.some(s => s.id === soundscape.id);
+    persist(exists ? soundscapes.map(s => (s.id === soundscape.id ? soundscape : s)) : [...soundscapes, soundscape]);
+    setEditingSoundscape(null);
+  };
+
+  const updateLayer = (layerIndex: number, changes: Partial<SoundscapeLayer>) => {
+    if (!editingSoundscape) return;
+    setEditingSoundscape({
+      ...editingSoundscape,
+      layers: editingSoundscape.layers.map((layer, index) => (index === layerIndex ? { ...layer, ...changes } : layer))
+    });
+  };
+
+  const removeLayer = (layerIndex: number) => {
+    if (!editingSoundscape) return;
+    setEditingSoundscape({
+      ...editingSoundscape,
+      layers: editingSoundscape.layers.filter((_, index) => index !== layerIndex)
+    });
+  };
+
+  const addLayer = () => {
+    if (!editingSoundscape || editingSoundscape.layers.length >= MAX_SOUNDSCAPE_LAYERS) return;
+    // Start with a sound that isn't in the mix yet
+    const unused = PREDEFINED_AUDIO.find(item =>
+      item.path && !editingSoundscape.layers.some(layer => layer.audioId === item.id));
+    setEditingSoundscape({
+      ...editingSoundscape,
+      layers: [...editingSoundscape.layers, createLayer(unused?.id)]
+    });
+  };
+
+  const renderVolumeSlider = (volume: number, onChange: (volume: number) => void) => (
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={volume}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      onClick={(e) => e.stopPropagation()}
+      className="flex-1 accent-[var(--color-primary)]"
+    />
+  );
+
+  // Soundscape editor
+  if (editingSoundscape) {
+    return (
+      <div className="space-y-4 p-4 rounded border border-primary bg-primary-5">
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Soundscape Name
+          </label>
+          <input
+            type="text"
+            value={editingSoundscape.name}
+            onChange={(e) => setEditingSoundscape({ ...editingSoundscape, name: e.target.value })}
+            className="w-full px-4 py-2 bg-black/50 border border-primary-30 rounded text-white/90 font-cinzel focus:outline-none focus:border-primary"
+            placeholder="e.g. Rainy Hearth"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+            Layers
+          </label>
+          {editingSoundscape.layers.map((layer, index) => (
+            <div key={index} className="p-3 rounded border border-primary-20 bg-primary-5 flex items-center space-x-2">
+              <select
+                value={layer.audioId}
+                onChange={(e) => updateLayer(index, { audioId: e.target.value })}
+                className="w-36 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+              >
+                {PREDEFINED_AUDIO.filter(item => item.path).map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+                {GENERATED_AUDIO.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+                {customAudioName && <option value="custom">{customAudioName}</option>}
+              </select>
+              {renderVolumeSlider(layer.volume, (volume) => updateLayer(index, { volume }))}
+              <span className="text-primary-40 text-xs w-8 text-right">{Math.round(layer.volume * 100)}</span>
+              <button
+                onClick={() => removeLayer(index)}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Remove layer"
+              >
+                &#10005;
+              </button>
+            </div>
+          ))}
+          {editingSoundscape.layers.length < MAX_SOUNDSCAPE_LAYERS && (
+            <div
+              className="p-3 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+              onClick={addLayer}
+            >
+              <p className="text-primary-50 text-center text-sm">+ Add Layer</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingSoundscape(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Soundscape list
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        Soundscapes
+      </label>
+
+      {soundscapes.map((soundscape) => {
+        const isSelected = selectedAudioId === soundscape.id;
+        return (
+          <div
+            key={soundscape.id}
+            className={`p-4 rounded border transition-all cursor-pointer ${
+              isSelected
+                ? 'border-primary bg-primary-10'
+                : 'border-primary-20 hover:border-primary-40 bg-primary-5'
+            }`}
+            onClick={() => onSelect(soundscape.id)}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex-1 min-w-0">
+                <p className="text-white/90 font-medium">{soundscape.name}</p>
+                <p className="text-primary-40 text-xs mt-1 truncate">
+                  {describeSoundscape(soundscape, customAudioName)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {isSelected && (
+                  <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <span className="text-black text-xs">&#10003;</span>
+                  </div>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingSoundscape(soundscape);
+                  }}
+                  className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(soundscape.id);
+                  }}
+                  className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                  title="Delete"
+                >
+                  &#10005;
+                </button>
+              </div>
+            </div>
+
+            {/* Live mix of the selected soundscape */}
+            {isSelected && (
+              <div className="mt-3 space-y-2">
+                {soundscape.layers.map((layer, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <span className="text-primary-50 text-xs w-28 truncate">
+                      {layer.audioId === 'custom'
+                        ? customAudioName || 'Custom Audio'
+                        : [...PREDEFINED_AUDIO, ...GENERATED_AUDIO].find(item => item.id === layer.audioId)?.name || layer.audioId}
+                    </span>
+                    {renderVolumeSlider(layer.volume, (volume) => handleLayerVolume(soundscape.id, index, volume))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div
+        className="p-4 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+        onClick={() => setEditingSoundscape(createSoundscape())}
+      >
+        <p className="text-primary-50 text-center">+ New Soundscape</p>
+      </div>
+    </div>
+  );
+};
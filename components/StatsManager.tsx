@@ -47,14 +47,7 @@ export const StatsManager: React.FC<StatsManagerProps> = ({ userId }) => {
       } catch (error) {
         console.warn('Failed to load stats:', error);
         // Load from localStorage as fallback
-        const localStats = localStorage.getItem('om-local-stats');
-        if (localStats) {
-          try {
-            setStats(JSON.parse(localStats));
-          } catch (e) {
-            console.error('Failed to parse local stats:', e);
-          }
-        }
+        setStats(StorageManager.getLocalStats());
       }
     };
 
@@ -112,7 +105,7 @@ export const StatsManager: React.FC<StatsManagerProps> = ({ userId }) => {
           onClick={() => setShowLeaderboard(false)}
         >
           <div
-            className="bg-black/95 border border-primary-30 rounded-lg p-6 max-w-md w-full mx-4 max-h-[80vh] overflow-hidden flex flex-col"
+            className="bg-surface-95 border border-primary-30 rounded-lg p-6 max-w-md w-full mx-4 max-h-[80vh] overflow-hidden flex flex-col"
             onClick={(e) => e.stopPropagation()}
           >
             {/* Header */}
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorageManager, SavedTheme, ThemeSettings as ThemeSettingsType } from '../utils/storage';
+import { saveThemeColors } from '../lib/database';
+import {
+  createTheme,
+  getThemeSettings,
+  MIN_BRIGHTNESS,
+  MAX_BRIGHTNESS,
+  THEME_SWATCHES
+} from '../utils/themes';
+
+// Slider drags are synced once they settle
+const SYNC_DELAY_MS = 1000;
+
+/**
+ * ThemeSettings - Lock the primary colour, dim and shade the background, save themes
+ * Rendered in the Background tab of SettingsPanel. Changes apply right away
+ * via the 'themeSettingsChanged' event and sync to the database (theme_colors).
+ */
+export const ThemeSettings: React.FC = () => {
+  const [theme, setTheme] = useState<ThemeSettingsType>(StorageManager.getThemeSettings);
+  const [savedThemes, setSavedThemes] = useState<SavedTheme[]>(StorageManager.getSavedThemes);
+  const [themeName, setThemeName] = useState<string | null>(null);  // null = not saving
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Sync the current theme and saved themes to the database
+  const syncThemes = () => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+    }
+    saveThemeColors(StorageManager.getUserId(), {
+      current: StorageManager.getThemeSettings(),
+      themes: StorageManager.getSavedThemes()
+    }).catch((error) => {
+      console.error('Failed to sync themes:', error);
+    });
+  };
+
+  const scheduleSync = () => {
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(syncThemes, SYNC_DELAY_MS);
+  };
+
+  // Don't lose a pending sync when the panel closes
+  useEffect(() => () => {
+    if (syncTimerRef.current) syncThemes();
+  }, []);
+
+  const update = (partial: Partial<ThemeSettingsType>) => {
+    StorageManager.updateThemeSettings(partial);
+    setTheme(StorageManager.getThemeSettings());
+    window.dispatchEvent(new CustomEvent('themeSettingsChanged'));
+    scheduleSync();
+  };
+
+  const persistThemes = (updated: SavedTheme[]) => {
+    setSavedThemes(updated);
+    StorageManager.saveSavedThemes(updated);
+    syncThemes();
+  };
+
+  const handleSaveTheme = () => {
+    if (themeName === null) return;
+    persistThemes([...savedThemes, createTheme(themeName, theme)]);
+    setThemeName(null);
+  };
+
+  const renderSlider = (value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={0.05}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 accent-[var(--color-primary)]"
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block pt-2">
+        Theme
+      </label>
+
+      {/* Primary colour - follows the background unless locked */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-primary-50 text-xs">Accent Colour</span>
+          <button
+            onClick={() => update({ primary: null })}
+            className={`px-3 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+              theme.primary === null
+                ? 'bg-primary-30 border-primary text-white'
+                : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+            }`}
+          >
+            From Background
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {THEME_SWATCHES.map((color) => (
+            <button
+              key={color}
+              onClick={() => update({ primary: color })}
+              className={`w-7 h-7 rounded-full border-2 transition-all ${
+                theme.primary === color ? 'border-white' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+          <input
+            type="color"
+            value={theme.primary || '#fb923c'}
+            onChange={(e) => update({ primary: e.target.value })}
+            className="w-7 h-7 bg-transparent border border-primary-30 rounded cursor-pointer"
+            title="Pick a colour"
+          />
+        </div>
+        {theme.primary && (
+          <p className="text-primary-30 text-xs mt-2">Locked for every background - lightened if needed to stay readable.</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <span className="text-primary-50 text-xs w-28">Background</span>
+        {renderSlider(theme.brightness, MIN_BRIGHTNESS, MAX_BRIGHTNESS, (brightness) => update({ brightness }))}
+        <span className="text-primary-40 text-xs w-10 text-right">{Math.round(theme.brightness * 100)}%</span>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <span className="text-primary-50 text-xs w-28">Shade Overlay</span>
+        {renderSlider(theme.overlay, 0, 1, (overlay) => update({ overlay }))}
+        <span className="text-primary-40 text-xs w-10 text-right">{Math.round(theme.overlay * 100)}%</span>
+      </div>
+
+      {/* Saved themes */}
+      {savedThemes.map((saved) => (
+        <div
+          key={saved.id}
+          className="p-3 rounded border border-primary-20 hover:border-primary-40 bg-primary-5 transition-all cursor-pointer"
+          onClick={() => update(getThemeSettings(saved))}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 min-w-0">
+              <span
+                className="w-4 h-4 rounded-full border border-primary-30 flex-shrink-0"
+                style={{ backgroundColor: saved.primary || 'transparent' }}
+              />
+              <p className="text-white/90 text-sm truncate">{saved.name}</p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                persistThemes(savedThemes.filter(t => t.id !== saved.id));
+              }}
+              className="text-red-400/60 hover:text-red-400 text-sm p-1"
+              title="Delete"
+            >
+              &#10005;
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {themeName === null ? (
+        <div
+          className="p-3 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+          onClick={() => setThemeName('')}
+        >
+          <p className="text-primary-50 text-center text-sm">+ Save Current Theme</p>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={themeName}
+            onChange={(e) => setThemeName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveTheme()}
+            className="flex-1 px-3 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary"
+            placeholder="Theme name"
+            autoFocus
+          />
+          <button
+            onClick={handleSaveTheme}
+            className="px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setThemeName(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
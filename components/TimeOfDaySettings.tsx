@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { StorageManager, SavedTheme, TimeOfDaySettings as TimeOfDaySettingsType, TimeWindow } from '../utils/storage';
+import { PREDEFINED_IMAGES, PREDEFINED_VIDEOS, GENERATED_BACKGROUNDS } from '../utils/mediaCatalog';
+import { CUSTOM_VIDEO_ID } from '../utils/backgrounds';
+import { NIGHT_THEME_ID, formatStartTime, parseStartTime } from '../utils/timeOfDay';
+
+interface TimeOfDaySettingsProps {
+  customImageName: string | null;
+  customVideoName: string | null;
+}
+
+/**
+ * TimeOfDaySettings - Pick the background (and theme) for each part of the day
+ * Rendered in the Background tab of SettingsPanel. While on, the local time
+ * chooses the background instead of the selection and slideshow. Changes
+ * apply right away via the 'timeOfDaySettingsChanged' event.
+ */
+export const TimeOfDaySettings: React.FC<TimeOfDaySettingsProps> = ({ customImageName, customVideoName }) => {
+  const [settings, setSettings] = useState<TimeOfDaySettingsType>(StorageManager.getTimeOfDaySettings);
+  const [savedThemes] = useState<SavedTheme[]>(StorageManager.getSavedThemes);
+
+  const update = (partial: Partial<TimeOfDaySettingsType>) => {
+    StorageManager.updateTimeOfDaySettings(partial);
+    setSettings(StorageManager.getTimeOfDaySettings());
+    window.dispatchEvent(new CustomEvent('timeOfDaySettingsChanged'));
+  };
+
+  const updateWindow = (windowId: string, changes: Partial<TimeWindow>) => {
+    update({
+      windows: settings.windows.map(timeWindow => (timeWindow.id === windowId ? { ...timeWindow, ...changes } : timeWindow))
+    });
+  };
+
+  const backgrounds = [
+    ...PREDEFINED_IMAGES,
+    ...PREDEFINED_VIDEOS,
+    ...GENERATED_BACKGROUNDS,
+    ...(customImageName ? [{ id: 'custom', name: customImageName }] : []),
+    ...(customVideoName ? [{ id: CUSTOM_VIDEO_ID, name: customVideoName }] : [])
+  ];
+
+  const selectClassName = 'flex-1 min-w-0 px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between pt-2">
+        <label className="text-primary-40 text-xs uppercase tracking-[0.2em]">
+          Follow the Time of Day
+        </label>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+            settings.enabled
+              ? 'bg-primary-30 border-primary text-white'
+              : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+          }`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          {[...settings.windows].sort((a, b) => a.startMinutes - b.startMinutes).map((timeWindow) => (
+            <div key={timeWindow.id} className="p-3 rounded border border-primary-20 bg-primary-5 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-white/90 text-sm">{timeWindow.name}</span>
+                <input
+                  type="time"
+                  value={formatStartTime(timeWindow.startMinutes)}
+                  onChange={(e) => {
+                    const startMinutes = parseStartTime(e.target.value);
+                    if (startMinutes !== null) updateWindow(timeWindow.id, { startMinutes });
+                  }}
+                  className="px-2 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={timeWindow.imageId}
+                  onChange={(e) => updateWindow(timeWindow.id, { imageId: e.target.value })}
+                  className={selectClassName}
+                >
+                  {backgrounds.map((item) => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={timeWindow.themeId || ''}
+                  onChange={(e) => updateWindow(timeWindow.id, { themeId: e.target.value || null })}
+                  className={selectClassName}
+                >
+                  <option value="">Your theme</option>
+                  <option value={NIGHT_THEME_ID}>Deep Night</option>
+                  {savedThemes.map((theme) => (
+                    <option key={theme.id} value={theme.id}>{theme.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+          <p className="text-primary-30 text-xs">
+            Each part of the day lasts until the next one starts. The background changes on its own during a session.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, TimerPreset, Soundscape, Playlist } from '../utils/storage';
+import { saveTimerPresets } from '../lib/database';
+import { PREDEFINED_AUDIO, GENERATED_AUDIO, PREDEFINED_IMAGES, PREDEFINED_VIDEOS, GENERATED_BACKGROUNDS } from '../utils/mediaCatalog';
+import { CUSTOM_VIDEO_ID } from '../utils/backgrounds';
+import { createPreset, getPresetLabel, movePreset } from '../utils/timerPresets';
+
+/**
+ * TimerPresetsSettings - Add, reorder, label and delete the timer preset buttons
+ * Rendered inside the Timer tab of SettingsPanel.
+ *
+ * Presets are saved locally, synced to the user's preferences in the database,
+ * and pushed to UnifiedTimer via the 'timerPresetsChanged' event.
+ */
+export const TimerPresetsSettings: React.FC = () => {
+  const [presets, setPresets] = useState<TimerPreset[]>([]);
+  const [editingPreset, setEditingPreset] = useState<TimerPreset | null>(null);
+  const [customAudioName, setCustomAudioName] = useState<string | null>(null);
+  const [customImageName, setCustomImageName] = useState<string | null>(null);
+  const [customVideoName, setCustomVideoName] = useState<string | null>(null);
+  const [soundscapes, setSoundscapes] = useState<Soundscape[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+
+  useEffect(() => {
+    const settings = StorageManager.getSettings();
+    setPresets(StorageManager.getTimerPresets());
+    setCustomAudioName(settings.customAudioName);
+    setCustomImageName(settings.customImageName);
+    setCustomVideoName(settings.customVideoName || null);
+    setSoundscapes(StorageManager.getSoundscapes());
+    setPlaylists(StorageManager.getPlaylists());
+  }, []);
+
+  // Save locally, sync to the database and update the timer buttons
+  const persist = (updated: TimerPreset[]) => {
+    setPresets(updated);
+    StorageManager.saveTimerPresets(updated);
+    window.dispatchEvent(new CustomEvent('timerPresetsChanged'));
+
+    saveTimerPresets(StorageManager.getUserId(), updated).catch((error) => {
+      console.error('Failed to sync timer presets:', error);
+    });
+  };
+
+  const handleDelete = (presetId: string) => {
+    persist(presets.filter(preset => preset.id !== presetId));
+  };
+
+  const handleMove = (presetId: string, direction: -1 | 1) => {
+    persist(movePreset(presets, presetId, direction));
+  };
+
+  const handleSave = () => {
+    if (!editingPreset || !(editingPreset.minutes > 0)) return;
+
+    const preset = { ...editingPreset, label: editingPreset.label.trim() };
+    const exists = presets.some(p => p.id === preset.id);
+    persist(exists ? presets.map(p => (p.id === preset.id ? preset : p)) : [...presets, preset]);
+    setEditingPreset(null);
+  };
+
+  // Describe the sound and background a preset switches to
+  const describeMedia = (preset: TimerPreset): string => {
+    const audioName = preset.audioId === 'custom'
+      ? customAudioName || 'Custom Sound'
+      : [...PREDEFINED_AUDIO, ...GENERATED_AUDIO, ...soundscapes, ...playlists].find(item => item.id === preset.audioId)?.name;
+    const imageName = preset.imageId === 'custom'
+      ? customImageName || 'Custom Background'
+      : preset.imageId === CUSTOM_VIDEO_ID
+        ? customVideoName || 'Custom Video'
+        : [...PREDEFINED_IMAGES, ...PREDEFINED_VIDEOS, ...GENERATED_BACKGROUNDS].find(item => item.id === preset.imageId)?.name;
+    return [audioName, imageName].filter(Boolean).join(' · ');
+  };
+
+  // Preset editor
+  if (editingPreset) {
+    return (
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+              Label
+            </label>
+            <input
+              type="text"
+              value={editingPreset.label}
+              onChange={(e) => setEditingPreset({ ...editingPreset, label: e.target.value })}
+              className="w-full px-4 py-2 bg-black/50 border border-primary-30 rounded text-white/90 font-cinzel focus:outline-none focus:border-primary"
+              placeholder="e.g. Morning 25"
+            />
+          </div>
+          <div>
+            <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+              Minutes
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={editingPreset.minutes}
+              onChange={(e) => setEditingPreset({ ...editingPreset, minutes: parseInt(e.target.value) || 0 })}
+              className="w-20 px-2 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none focus:border-primary"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Sound
+          </label>
+          <select
+            value={editingPreset.audioId || ''}
+            onChange={(e) => setEditingPreset({ ...editingPreset, audioId: e.target.value || null })}
+            className="w-full px-2 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+          >
+            <option value="">Keep current sound</option>
+            {[...PREDEFINED_AUDIO, ...GENERATED_AUDIO].map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+            {customAudioName && <option value="custom">{customAudioName}</option>}
+            {soundscapes.map((soundscape) => (
+              <option key={soundscape.id} value={soundscape.id}>{soundscape.name} (Soundscape)</option>
+            ))}
+            {playlists.map((playlist) => (
+              <option key={playlist.id} value={playlist.id}>{playlist.name} (Playlist)</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="text-primary-40 text-xs uppercase tracking-[0.2em] mb-2 block">
+            Background
+          </label>
+          <select
+            value={editingPreset.imageId || ''}
+            onChange={(e) => setEditingPreset({ ...editingPreset, imageId: e.target.value || null })}
+            className="w-full px-2 py-2 bg-black/50 border border-primary-30 rounded text-white/90 text-sm focus:outline-none"
+          >
+            <option value="">Keep current background</option>
+            {[...PREDEFINED_IMAGES, ...PREDEFINED_VIDEOS, ...GENERATED_BACKGROUNDS].map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+            {customImageName && <option value="custom">{customImageName}</option>}
+            {customVideoName && <option value={CUSTOM_VIDEO_ID}>{customVideoName}</option>}
+          </select>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-primary-20 hover:bg-primary-30 border border-primary rounded text-white/90 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingPreset(null)}
+            className="px-4 py-2 bg-black/30 hover:bg-black/50 border border-primary-20 rounded text-primary-50 text-sm uppercase tracking-[0.2em] transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Preset list
+  return (
+    <div className="space-y-3">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+        Timer Presets
+      </label>
+
+      {presets.map((preset, index) => (
+        <div
+          key={preset.id}
+          className="p-3 rounded border border-primary-20 hover:border-primary-40 bg-primary-5 transition-all"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex-1 min-w-0">
+              <p className="text-white/90 font-medium">{getPresetLabel(preset)}</p>
+              <p className="text-primary-40 text-xs mt-1 truncate">
+                {preset.minutes} min{describeMedia(preset) && ` · ${describeMedia(preset)}`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => handleMove(preset.id, -1)}
+                disabled={index === 0}
+                className="text-primary-40 hover:text-primary disabled:opacity-20 text-sm p-1"
+                title="Move up"
+              >
+                &#9650;
+              </button>
+              <button
+                onClick={() => handleMove(preset.id, 1)}
+                disabled={index === presets.length - 1}
+                className="text-primary-40 hover:text-primary disabled:opacity-20 text-sm p-1"
+                title="Move down"
+              >
+                &#9660;
+              </button>
+              <button
+                onClick={() => setEditingPreset(preset)}
+                className="text-primary-40 hover:text-primary text-xs uppercase tracking-[0.2em] p-1"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(preset.id)}
+                className="text-red-400/60 hover:text-red-400 text-sm p-1"
+                title="Delete"
+              >
+                &#10005;
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div
+        className="p-3 rounded border border-dashed border-primary-30 hover:border-primary-50 transition-all cursor-pointer bg-primary-5"
+        onClick={() => setEditingPreset(createPreset())}
+      >
+        <p className="text-primary-50 text-center">+ New Preset</p>
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,54 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StorageManager } from '../utils/storage';
+import { StorageManager, IntervalBellSchedule, SessionPlan, TimerPreset, GoalBehavior, CueScript } from '../utils/storage';
+import { INTERVAL_BELL_PRESETS, DEFAULT_INTERVAL_BELLS, getLastBellAt, parseCustomOffsets, describeSchedule } from '../utils/intervalBells';
+import { getPlanTotalSeconds, getStageAt, isStageBoundary } from '../utils/sessionPlans';
+import { playBell, preloadBell } from '../utils/bellPlayer';
+import { playCue, stopCue } from '../utils/cuePlayer';
+import { getLatestDueCue } from '../utils/guidedCues';
+import { getCheckpointActiveSeconds, isPaused } from '../utils/sessionTime';
+import { getPresetLabel } from '../utils/timerPresets';
+import { DEFAULT_GOAL_BEHAVIOR, getLastReminderAt, describeGoalBehavior } from '../utils/goalBehavior';
+import { BreathingPacer } from './BreathingPacer';
 
 /**
  * UnifiedTimer - Display timer for meditation sessions
  *
  * Features:
- * - Uses session checkpoint startedAt as single source of truth
+ * - Uses session checkpoint startedAt as single source of truth (minus paused intervals)
  * - Count-up mode: Shows elapsed time since session start
  * - Count-down mode: Shows remaining time to goal (but session continues after)
  * - Changing timer mode doesn't reset the session - just changes display
- * - When count-down reaches 0: Play audio cue + switch to count-up showing overflow
+ * - When count-down reaches 0: Play audio cue, then per the goal behavior setting either
+ *   switch to count-up showing overflow (optionally ringing overtime reminders), or
+ *   auto-end via 'requestEndSession' so App ends it exactly like the End Session button
+ * - Plan mode: Shows remaining time in the current stage, rings the stage's bell
+ *   strikes at each boundary, and completes like a count-down at the end of the plan
+ * - Interval bells ring at offsets from startedAt in both modes; after the tab was
+ *   backgrounded only the latest missed bell rings, never a burst of them
+ * - Guided cues of the active script ('guidanceSettingsChanged', 'cueScriptsChanged')
+ *   are spoken the same way, counted from the start or back from the goal
+ * - Listens for 'timerSettingsChanged' (e.g. plan selected in SettingsPanel) and
+ *   announces goals set here with 'sessionGoalChanged' (entrainment ramps follow the goal)
+ * - Preset buttons are user-defined ('timerPresetsChanged'); a preset can also switch
+ *   the sound and background, announced with 'mediaSelectionChanged'
+ * - Optional breathing pacer rendered alongside the clock
  */
 
 interface TimerMode {
-  type: 'count-up' | 'count-down';
+  type: 'count-up' | 'count-down' | 'plan';
   targetSeconds?: number;
+  plan?: SessionPlan;  // For plan mode
 }
 
 // Load initial timer mode from storage
 const getInitialTimerMode = (): TimerMode => {
   const settings = StorageManager.getSettings();
+  if (settings.timerSettings?.type === 'plan') {
+    const plan = StorageManager.getActiveSessionPlan();
+    if (plan && plan.stages.length > 0) {
+      return { type: 'plan', targetSeconds: getPlanTotalSeconds(plan), plan };
+    }
+  }
   if (settings.timerSettings?.type === 'count-down' && settings.timerSettings.targetMinutes) {
     return {
       type: 'count-down',
@@ -29,37 +58,68 @@ const getInitialTimerMode = (): TimerMode => {
   return { type: 'count-up' };
 };
 
-export const UnifiedTimer: React.FC = () => {
+// Load goal behavior from storage
+const getInitialGoalBehavior = (): GoalBehavior => {
+  return StorageManager.getSettings().timerSettings?.goalBehavior || DEFAULT_GOAL_BEHAVIOR;
+};
+
+// Load interval bell schedule from storage
+const getInitialIntervalBells = (): IntervalBellSchedule => {
+  return StorageManager.getSettings().timerSettings?.intervalBells || DEFAULT_INTERVAL_BELLS;
+};
+
+interface UnifiedTimerProps {
+  isMuted: boolean;  // App mute state - silences the breathing pacer's ticks
+}
+
+export const UnifiedTimer: React.FC<UnifiedTimerProps> = ({ isMuted }) => {
   const [mode, setMode] = useState<TimerMode>(getInitialTimerMode);
-  const [elapsed, setElapsed] = useState(0); // Elapsed seconds from session start
+  const [elapsed, setElapsed] = useState(0); // Active (unpaused) seconds from session start
+  const [paused, setPaused] = useState(false);
   const [customInput, setCustomInput] = useState('');
   const [hasPlayedCompletionSound, setHasPlayedCompletionSound] = useState(false);
+  const [intervalBells, setIntervalBells] = useState<IntervalBellSchedule>(getInitialIntervalBells);
+  const [customBellInput, setCustomBellInput] = useState('');
+  const [goalBehavior, setGoalBehavior] = useState<GoalBehavior>(getInitialGoalBehavior);
+  const [presets, setPresets] = useState<TimerPreset[]>(StorageManager.getTimerPresets);
+  const [activePresetId, setActivePresetId] = useState<string | null>(
+    () => StorageManager.getSettings().timerSettings?.presetId || null
+  );
+  const [cueScript, setCueScript] = useState<CueScript | null>(StorageManager.getActiveCueScript);
+  const lastBellAtRef = useRef(0); // Offset (seconds) of the last bell rung this session
+  const lastStageIndexRef = useRef(0); // Index of the last plan stage whose bell was rung
+  const overtimeGoalRef = useRef<number | null>(null); // Goal (seconds) reached this session, for reminders
+  const lastReminderAtRef = useRef(0); // Offset (seconds) of the last overtime reminder rung
+  const lastCueAtRef = useRef(-1); // Offset (seconds) of the last guided cue spoken, -1 = none yet
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
 
   // Get elapsed time from checkpoint (single source of truth)
   const getElapsedFromCheckpoint = (): number => {
     const checkpoint = StorageManager.getSessionCheckpoint();
     if (checkpoint && checkpoint.startedAt) {
-      return Math.floor((Date.now() - checkpoint.startedAt) / 1000);
+      return getCheckpointActiveSeconds(checkpoint);
     }
     return 0;
   };
 
+  // Read elapsed time and paused state from the checkpoint
+  const updateFromCheckpoint = () => {
+    setElapsed(getElapsedFromCheckpoint());
+    setPaused(isPaused(StorageManager.getSessionCheckpoint()?.pausedIntervals));
+  };
+
   // Update elapsed time every second from checkpoint
   useEffect(() => {
     // Initial read
-    setElapsed(getElapsedFromCheckpoint());
+    updateFromCheckpoint();
 
     // Update every second
-    intervalRef.current = setInterval(() => {
-      setElapsed(getElapsedFromCheckpoint());
-    }, 1000);
+    intervalRef.current = setInterval(updateFromCheckpoint, 1000);
 
     // Also update when page becomes visible
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible') {
-        setElapsed(getElapsedFromCheckpoint());
+        updateFromCheckpoint();
       }
     };
     document.addEventListener('visibilitychange', handleVisibilityChange);
@@ -76,7 +136,14 @@ export const UnifiedTimer: React.FC = () => {
       // Reset display state
       setMode(getInitialTimerMode());
       setElapsed(0);
+      setPaused(false);
       setHasPlayedCompletionSound(false);
+      lastBellAtRef.current = 0;
+      lastStageIndexRef.current = 0;
+      overtimeGoalRef.current = null;
+      lastReminderAtRef.current = 0;
+      lastCueAtRef.current = -1;
+      stopCue();
     };
 
     window.addEventListener('endMeditationSession', handleEndSession);
@@ -85,25 +152,158 @@ export const UnifiedTimer: React.FC = () => {
     };
   }, []);
 
-  // Check for count-down completion
+  // Listen for timer settings changed elsewhere (plan selected or edited in SettingsPanel)
+  useEffect(() => {
+    const handleTimerSettingsChanged = () => {
+      const nextMode = getInitialTimerMode();
+      setMode(nextMode);
+      setHasPlayedCompletionSound(false);
+      setGoalBehavior(getInitialGoalBehavior());
+
+      // Stages already reached in this session stay silent
+      const position = nextMode.plan ? getStageAt(nextMode.plan, getElapsedFromCheckpoint()) : null;
+      lastStageIndexRef.current = position ? position.index : 0;
+    };
+
+    window.addEventListener('timerSettingsChanged', handleTimerSettingsChanged);
+    return () => {
+      window.removeEventListener('timerSettingsChanged', handleTimerSettingsChanged);
+    };
+  }, []);
+
+  // Listen for presets edited in SettingsPanel or synced from the database
+  useEffect(() => {
+    const handleTimerPresetsChanged = () => {
+      setPresets(StorageManager.getTimerPresets());
+    };
+
+    window.addEventListener('timerPresetsChanged', handleTimerPresetsChanged);
+    return () => {
+      window.removeEventListener('timerPresetsChanged', handleTimerPresetsChanged);
+    };
+  }, []);
+
+  // Listen for the guidance script being chosen or edited in SettingsPanel
   useEffect(() => {
-    if (mode.type === 'count-down' && mode.targetSeconds && !hasPlayedCompletionSound) {
+    const handleGuidanceChanged = () => {
+      setCueScript(StorageManager.getActiveCueScript());
+    };
+
+    window.addEventListener('guidanceSettingsChanged', handleGuidanceChanged);
+    window.addEventListener('cueScriptsChanged', handleGuidanceChanged);
+    return () => {
+      window.removeEventListener('guidanceSettingsChanged', handleGuidanceChanged);
+      window.removeEventListener('cueScriptsChanged', handleGuidanceChanged);
+    };
+  }, []);
+
+  // Seed what already sounded from the checkpoint, so a reload doesn't replay the
+  // latest bell, reminder or stage bell, and a new script or goal moves the cues -
+  // those already passed in this session stay silent
+  const cueGoalSeconds = mode.type !== 'count-up' && mode.targetSeconds ? mode.targetSeconds : null;
+  useEffect(() => {
+    const restoredElapsed = getElapsedFromCheckpoint();
+    lastBellAtRef.current = getLastBellAt(intervalBells, restoredElapsed);
+
+    if (mode.type === 'plan' && mode.plan) {
+      lastStageIndexRef.current = getStageAt(mode.plan, restoredElapsed)?.index ?? 0;
+    }
+
+    const goalSeconds = overtimeGoalRef.current ?? cueGoalSeconds;
+    lastReminderAtRef.current = goalSeconds !== null
+      ? getLastReminderAt(goalSeconds, goalBehavior.reminderMinutes, restoredElapsed)
+      : 0;
+
+    const passed = getLatestDueCue(cueScript, cueGoalSeconds, restoredElapsed);
+    lastCueAtRef.current = passed ? passed.offsetSeconds : -1;
+  }, [cueScript, cueGoalSeconds]);
+
+  // Speak guided cues - like interval bells, only the latest missed cue plays after a throttled tick
+  useEffect(() => {
+    const due = getLatestDueCue(cueScript, cueGoalSeconds, elapsed);
+    if (due && due.offsetSeconds > lastCueAtRef.current) {
+      lastCueAtRef.current = due.offsetSeconds;
+      playCue(due.cue);
+    }
+  }, [elapsed, cueScript, cueGoalSeconds]);
+
+  // Load the bell up front so cues ring on time
+  useEffect(() => {
+    preloadBell();
+  }, []);
+
+  // Check for count-down (or plan) completion
+  useEffect(() => {
+    if ((mode.type === 'count-down' || mode.type === 'plan') && mode.targetSeconds && !hasPlayedCompletionSound) {
       if (elapsed >= mode.targetSeconds) {
         // Play audio cue once
-        if (audioRef.current) {
-          audioRef.current.play().catch(e => console.warn('Audio cue blocked:', e));
-        }
+        playBell();
         setHasPlayedCompletionSound(true);
 
+        if (goalBehavior.mode === 'auto-end') {
+          // End through App's End Session path, recording exactly the goal
+          // (the tick may land a moment late, or much later in a background tab)
+          console.log('🎯 Goal reached! Ending session...');
+          window.dispatchEvent(new CustomEvent('requestEndSession', {
+            detail: { durationSeconds: mode.targetSeconds }
+          }));
+          return;
+        }
+
+        // Overtime reminders count from the goal, skipping any already missed
+        overtimeGoalRef.current = mode.targetSeconds;
+        lastReminderAtRef.current = getLastReminderAt(mode.targetSeconds, goalBehavior.reminderMinutes, elapsed);
+
         // Switch to count-up mode showing time beyond goal
         console.log('🎯 Goal reached! Continuing in count-up mode...');
         setMode({ type: 'count-up' });
-        StorageManager.updateSettings({
-          timerSettings: { type: 'count-up' }
-        });
+        StorageManager.updateTimerSettings({ type: 'count-up', targetMinutes: undefined, presetId: undefined });
+      }
+    }
+  }, [elapsed, mode, hasPlayedCompletionSound, goalBehavior]);
+
+  // Ring overtime reminders after the goal (reminder goal behavior only)
+  useEffect(() => {
+    const goalSeconds = overtimeGoalRef.current;
+    if (goalBehavior.mode !== 'reminder' || goalSeconds === null) return;
+
+    const dueAt = getLastReminderAt(goalSeconds, goalBehavior.reminderMinutes, elapsed);
+    if (dueAt > lastReminderAtRef.current) {
+      lastReminderAtRef.current = dueAt;
+
+      // An interval bell landing on the same moment already covers it
+      if (getLastBellAt(intervalBells, elapsed) !== dueAt) {
+        playBell();
       }
     }
-  }, [elapsed, mode, hasPlayedCompletionSound]);
+  }, [elapsed, goalBehavior, intervalBells]);
+
+  // Ring interval bells - compares the latest due offset against the last one rung,
+  // so a throttled background tab rings once on wake instead of replaying every bell
+  useEffect(() => {
+    const dueAt = getLastBellAt(intervalBells, elapsed);
+    if (dueAt > lastBellAtRef.current) {
+      lastBellAtRef.current = dueAt;
+
+      // The completion cue and stage bells already cover bells landing on them
+      const isGoalBell = mode.type !== 'count-up' && mode.targetSeconds === dueAt;
+      const isStageBell = mode.plan ? isStageBoundary(mode.plan, dueAt) : false;
+      if (!isGoalBell && !isStageBell) {
+        playBell();
+      }
+    }
+  }, [elapsed, intervalBells, mode]);
+
+  // Ring the stage bell when the plan moves into its next stage
+  useEffect(() => {
+    if (mode.type !== 'plan' || !mode.plan) return;
+
+    const position = getStageAt(mode.plan, elapsed);
+    if (position && position.index > lastStageIndexRef.current) {
+      lastStageIndexRef.current = position.index;
+      playBell(position.stage.bellStrikes);
+    }
+  }, [elapsed, mode]);
 
   // Format time as HH:MM:SS or MM:SS
   const formatTime = (seconds: number): string => {
@@ -123,25 +323,66 @@ export const UnifiedTimer: React.FC = () => {
       return elapsed;
     } else if (mode.type === 'count-down' && mode.targetSeconds) {
       return Math.max(0, mode.targetSeconds - elapsed);
+    } else if (mode.type === 'plan' && mode.plan) {
+      // Remaining time in the current stage
+      const position = getStageAt(mode.plan, elapsed);
+      return position ? position.endSeconds - elapsed : 0;
     }
     return 0;
   };
 
-  // Handle preset button clicks - just changes display mode, doesn't reset session
-  const handlePreset = (minutes: number) => {
+  // Label under the clock: paused, goal, current stage, or open session
+  const getModeLabel = (): string => {
+    if (paused) {
+      return 'Paused';
+    }
+    if (mode.type === 'plan' && mode.plan) {
+      const position = getStageAt(mode.plan, elapsed);
+      if (position) {
+        return `${position.stage.name} · Stage ${position.index + 1} of ${mode.plan.stages.length}`;
+      }
+    }
+    if (mode.type === 'count-down' && mode.targetSeconds) {
+      return goalBehavior.mode === 'continue'
+        ? `Goal: ${formatTime(mode.targetSeconds)}`
+        : `Goal: ${formatTime(mode.targetSeconds)} · ${describeGoalBehavior(goalBehavior)}`;
+    }
+    return 'Open Session';
+  };
+
+  // Set a count-down goal - just changes display mode, doesn't reset session
+  const setCountDown = (minutes: number, presetId?: string) => {
     setMode({ type: 'count-down', targetSeconds: minutes * 60 });
     setHasPlayedCompletionSound(false);
+    setActivePresetId(presetId || null);
     // Persist timer selection
-    StorageManager.updateSettings({
-      timerSettings: { type: 'count-down', targetMinutes: minutes }
-    });
+    StorageManager.updateTimerSettings({ type: 'count-down', targetMinutes: minutes, presetId });
+    window.dispatchEvent(new CustomEvent('sessionGoalChanged'));
+  };
+
+  // Handle preset button clicks - sets the goal and switches sound/background if the preset has them
+  const handlePreset = (preset: TimerPreset) => {
+    setCountDown(preset.minutes, preset.id);
+
+    const settings = StorageManager.getSettings();
+    const media: { selectedAudioId?: string; selectedImageId?: string } = {};
+    if (preset.audioId && preset.audioId !== settings.selectedAudioId) {
+      media.selectedAudioId = preset.audioId;
+    }
+    if (preset.imageId && preset.imageId !== settings.selectedImageId) {
+      media.selectedImageId = preset.imageId;
+    }
+    if (Object.keys(media).length > 0) {
+      StorageManager.updateSettings(media);
+      window.dispatchEvent(new CustomEvent('mediaSelectionChanged', { detail: media }));
+    }
   };
 
   // Handle custom duration input
   const handleCustomSet = () => {
     const minutes = parseInt(customInput);
     if (!isNaN(minutes) && minutes > 0) {
-      handlePreset(minutes);
+      setCountDown(minutes);
       setCustomInput('');
     }
   };
@@ -150,48 +391,60 @@ export const UnifiedTimer: React.FC = () => {
   const handleReset = () => {
     setMode({ type: 'count-up' });
     // Persist open session selection
-    StorageManager.updateSettings({
-      timerSettings: { type: 'count-up' }
-    });
+    StorageManager.updateTimerSettings({ type: 'count-up', targetMinutes: undefined, presetId: undefined });
+    window.dispatchEvent(new CustomEvent('sessionGoalChanged'));
+  };
+
+  // Change the interval bell schedule - bells already passed in this session stay silent
+  const handleIntervalBells = (schedule: IntervalBellSchedule) => {
+    setIntervalBells(schedule);
+    lastBellAtRef.current = getLastBellAt(schedule, elapsed);
+    StorageManager.updateTimerSettings({ intervalBells: schedule });
+  };
+
+  // Handle custom interval bell offsets ("5, 12, 20")
+  const handleCustomBellsSet = () => {
+    const customMinutes = parseCustomOffsets(customBellInput);
+    if (customMinutes.length > 0) {
+      handleIntervalBells({ mode: 'custom', customMinutes });
+      setCustomBellInput('');
+    }
   };
 
   const displayTime = getDisplayTime();
-  const isCountDown = mode.type === 'count-down';
+  const isCountDown = mode.type === 'count-down' || mode.type === 'plan';
 
   return (
     <div className="flex flex-col items-center space-y-6">
-      {/* Timer Display */}
-      <div className="text-center">
-        <div className="text-8xl md:text-9xl font-cinzel font-bold text-white/90 glow-primary-strong tracking-wider">
-          {formatTime(displayTime)}
+      {/* Timer Display (with breathing pacer alongside when enabled) */}
+      <div className="flex flex-col md:flex-row items-center gap-8">
+        <BreathingPacer isMuted={isMuted} />
+        <div className="text-center">
+          <div className="text-8xl md:text-9xl font-cinzel font-bold text-white/90 glow-primary-strong tracking-wider">
+            {formatTime(displayTime)}
+          </div>
+          <p className="text-[10px] uppercase tracking-[0.5em] text-primary-40 mt-4 font-bold">
+            {getModeLabel()}
+          </p>
         </div>
-        <p className="text-[10px] uppercase tracking-[0.5em] text-primary-40 mt-4 font-bold">
-          {isCountDown && mode.targetSeconds
-            ? `Goal: ${formatTime(mode.targetSeconds)}`
-            : 'Open Session'}
-        </p>
       </div>
 
       {/* Preset Buttons */}
       <div className="flex flex-wrap gap-3 justify-center">
-        {[
-          { minutes: 10, label: '10 Min' },
-          { minutes: 20, label: '20 Min' },
-          { minutes: 30, label: '30 Min' },
-          { minutes: 60, label: '1 Hour' }
-        ].map(({ minutes, label }) => {
-          const isActive = mode.type === 'count-down' && mode.targetSeconds === minutes * 60;
+        {presets.map((preset) => {
+          const isActive = mode.type === 'count-down' && mode.targetSeconds === preset.minutes * 60 &&
+            (activePresetId === null || activePresetId === preset.id);
           return (
             <button
-              key={minutes}
-              onClick={() => handlePreset(minutes)}
+              key={preset.id}
+              onClick={() => handlePreset(preset)}
               className={`px-6 py-2 border rounded text-sm uppercase tracking-[0.2em] transition-all duration-300 ${
                 isActive
                   ? 'bg-primary-30 border-primary text-white'
                   : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
               }`}
             >
-              {label}
+              {getPresetLabel(preset)}
             </button>
           );
         })}
@@ -215,6 +468,57 @@ export const UnifiedTimer: React.FC = () => {
         </button>
       </div>
 
+      {/* Interval Bells */}
+      <div className="flex flex-col items-center space-y-3">
+        <p className="text-[10px] uppercase tracking-[0.4em] text-primary-40 font-bold">
+          Interval Bell: {describeSchedule(intervalBells)}
+        </p>
+        <div className="flex flex-wrap gap-2 justify-center">
+          <button
+            onClick={() => handleIntervalBells({ mode: 'off' })}
+            className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all duration-300 ${
+              intervalBells.mode === 'off'
+                ? 'bg-primary-30 border-primary text-white'
+                : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+            }`}
+          >
+            Off
+          </button>
+          {INTERVAL_BELL_PRESETS.map((minutes) => {
+            const isActive = intervalBells.mode === 'every' && intervalBells.everyMinutes === minutes;
+            return (
+              <button
+                key={minutes}
+                onClick={() => handleIntervalBells({ mode: 'every', everyMinutes: minutes })}
+                className={`px-4 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all duration-300 ${
+                  isActive
+                    ? 'bg-primary-30 border-primary text-white'
+                    : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+                }`}
+              >
+                {minutes} Min
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={customBellInput}
+            onChange={(e) => setCustomBellInput(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleCustomBellsSet()}
+            placeholder="Bells at e.g. 5, 12, 20"
+            className="px-4 py-1 bg-black/50 border border-primary-30 rounded text-white/90 text-xs placeholder:text-primary-30 focus:outline-none focus:border-primary-50 w-48"
+          />
+          <button
+            onClick={handleCustomBellsSet}
+            className="px-3 py-1 bg-primary-20 hover:bg-primary-30 border border-primary-40 rounded text-white/90 text-xs uppercase tracking-[0.2em] transition-all duration-300"
+          >
+            Set
+          </button>
+        </div>
+      </div>
+
       {/* Reset Button */}
       {isCountDown && (
         <button
@@ -224,13 +528,6 @@ export const UnifiedTimer: React.FC = () => {
           Reset to Open Session
         </button>
       )}
-
-      {/* Hidden audio element for completion cue */}
-      <audio
-        ref={audioRef}
-        src="https://cdn.pixabay.com/download/audio/2021/08/04/audio_0625c1539c.mp3"
-        preload="auto"
-      />
     </div>
   );
 };
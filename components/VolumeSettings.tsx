@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { StorageManager, VolumeSettings as VolumeSettingsType } from '../utils/storage';
+
+/**
+ * VolumeSettings - Master volume and the fades at session start and end
+ * Rendered at the top of the Audio tab of SettingsPanel. The same master volume
+ * is on the footer slider; both stay in step via 'volumeSettingsChanged'.
+ */
+
+// Fade lengths offered (seconds, 0 = off)
+const FADE_OPTIONS = [0, 3, 5, 10, 20];
+
+export const VolumeSettings: React.FC = () => {
+  const [settings, setSettings] = useState<VolumeSettingsType>(StorageManager.getVolumeSettings);
+
+  useEffect(() => {
+    const handleVolumeSettingsChanged = () => {
+      setSettings(StorageManager.getVolumeSettings());
+    };
+
+    window.addEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+    return () => {
+      window.removeEventListener('volumeSettingsChanged', handleVolumeSettingsChanged);
+    };
+  }, []);
+
+  const update = (partial: Partial<VolumeSettingsType>) => {
+    StorageManager.updateVolumeSettings(partial);
+    window.dispatchEvent(new CustomEvent('volumeSettingsChanged'));
+  };
+
+  const renderFadeOptions = (label: string, key: 'fadeInSeconds' | 'fadeOutSeconds') => (
+    <div>
+      <span className="text-primary-50 text-xs block mb-2">{label}</span>
+      <div className="flex flex-wrap gap-2">
+        {FADE_OPTIONS.map((seconds) => (
+          <button
+            key={seconds}
+            onClick={() => update({ [key]: seconds })}
+            className={`px-3 py-1 border rounded text-xs uppercase tracking-[0.2em] transition-all ${
+              settings[key] === seconds
+                ? 'bg-primary-30 border-primary text-white'
+                : 'bg-primary-10 hover:bg-primary-20 border-primary-30 text-white/90'
+            }`}
+          >
+            {seconds === 0 ? 'Off' : `${seconds}s`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 pb-2">
+      <label className="text-primary-40 text-xs uppercase tracking-[0.2em] block">
+        Volume
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.masterVolume}
+          onChange={(e) => update({ masterVolume: parseFloat(e.target.value) })}
+          className="flex-1 accent-[var(--color-primary)]"
+        />
+        <span className="text-primary-40 text-xs w-8 text-right">{Math.round(settings.masterVolume * 100)}</span>
+      </div>
+
+      {renderFadeOptions('Fade In at Start', 'fadeInSeconds')}
+      {renderFadeOptions('Fade Out at End', 'fadeOutSeconds')}
+    </div>
+  );
+};
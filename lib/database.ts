@@ -22,6 +22,7 @@ import {
   Timestamp,
   addDoc
 } from 'firebase/firestore';
+import type { SessionPlan, ThemeColors, TimerPreset } from '../utils/storage';
 
 // Determine if we're in local development mode
 const isLocalDev = typeof window !== 'undefined' &&
@@ -48,6 +49,12 @@ export interface Session {
   isActive: boolean;
 }
 
+// Extra details recorded with a finished session
+export interface SessionDetails {
+  plan?: SessionPlan | null;
+  breathCycles?: number;  // breathing pacer cycles completed
+}
+
 export interface LeaderboardEntry {
   id: string;
   displayName: string;
@@ -233,12 +240,18 @@ export async function createSession(userId: string): Promise<string> {
 export async function endSession(
   sessionId: string,
   durationSeconds: number,
-  endedAt?: number // timestamp in ms
+  endedAt?: number, // timestamp in ms
+  details: SessionDetails = {}
 ): Promise<void> {
   if (isLocalDev) {
     await localApiCall(`/meditation/end`, {
       method: 'POST',
-      body: JSON.stringify({ sessionId, durationSeconds }),
+      body: JSON.stringify({
+        sessionId,
+        durationSeconds,
+        plan: details.plan || null,
+        breathCycles: details.breathCycles || 0,
+      }),
     });
   } else {
     const sessionRef = doc(firestore, 'sessions', sessionId);
@@ -246,6 +259,8 @@ export async function endSession(
       endedAt: endedAt ? Timestamp.fromMillis(endedAt) : serverTimestamp(),
       durationSeconds,
       isActive: false,
+      plan: details.plan || null,
+      breathCycles: details.breathCycles || 0,
     });
   }
 }
@@ -538,6 +553,66 @@ export async function getUserStats(userId: string): Promise<{
   }
 }
 
+// ============ PREFERENCES ============
+
+/**
+ * Get the user's timer presets (null if they never saved any)
+ */
+export async function getTimerPresets(userId: string): Promise<TimerPreset[] | null> {
+  if (isLocalDev) {
+    const data = await localApiCall(`/preferences/${userId}`);
+    return data.timerPresets || null;
+  } else {
+    const prefsRef = doc(firestore, 'userPreferences', userId);
+    const prefsDoc = await getDoc(prefsRef);
+    return prefsDoc.exists() ? prefsDoc.data().timerPresets || null : null;
+  }
+}
+
+/**
+ * Save the user's timer presets so they follow the user across devices
+ */
+export async function saveTimerPresets(userId: string, presets: TimerPreset[]): Promise<void> {
+  if (isLocalDev) {
+    await localApiCall(`/preferences/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ timerPresets: presets }),
+    });
+  } else {
+    const prefsRef = doc(firestore, 'userPreferences', userId);
+    await setDoc(prefsRef, { timerPresets: presets, updatedAt: serverTimestamp() }, { merge: true });
+  }
+}
+
+/**
+ * Get the user's theme settings and saved themes (null if they never saved any)
+ */
+export async function getThemeColors(userId: string): Promise<ThemeColors | null> {
+  if (isLocalDev) {
+    const data = await localApiCall(`/preferences/${userId}`);
+    return data.themeColors || null;
+  } else {
+    const prefsRef = doc(firestore, 'userPreferences', userId);
+    const prefsDoc = await getDoc(prefsRef);
+    return prefsDoc.exists() ? prefsDoc.data().themeColors || null : null;
+  }
+}
+
+/**
+ * Save the user's theme settings and saved themes so they follow the user across devices
+ */
+export async function saveThemeColors(userId: string, themeColors: ThemeColors): Promise<void> {
+  if (isLocalDev) {
+    await localApiCall(`/preferences/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ themeColors }),
+    });
+  } else {
+    const prefsRef = doc(firestore, 'userPreferences', userId);
+    await setDoc(prefsRef, { themeColors, updatedAt: serverTimestamp() }, { merge: true });
+  }
+}
+
 // ============ UTILITY ============
 
 export function isUsingLocalDatabase(): boolean {
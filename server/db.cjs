@@ -41,6 +41,21 @@ const initDatabase = () => {
     )
   `);
 
+  // Add plan column if it doesn't exist (migration for existing DBs)
+  // Stores the JSON snapshot of the session plan that was followed
+  try {
+    db.exec(`ALTER TABLE sessions ADD COLUMN plan TEXT`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Add breath_cycles column if it doesn't exist (breathing pacer cycles completed)
+  try {
+    db.exec(`ALTER TABLE sessions ADD COLUMN breath_cycles INTEGER DEFAULT 0`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
   // Media library table
   db.exec(`
     CREATE TABLE IF NOT EXISTS media_library (
@@ -69,6 +84,13 @@ const initDatabase = () => {
     )
   `);
 
+  // Add timer_presets column if it doesn't exist (JSON array of user-defined presets)
+  try {
+    db.exec(`ALTER TABLE user_preferences ADD COLUMN timer_presets TEXT`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
   console.log('✅ Database initialized successfully');
 };
 
@@ -108,7 +108,8 @@ app.post('/api/users/init', (req, res) => {
       preferences: {
         selectedAudioId: preferences.selected_audio_id,
         selectedImageId: preferences.selected_image_id,
-        themeColors: preferences.theme_colors ? JSON.parse(preferences.theme_colors) : null
+        themeColors: preferences.theme_colors ? JSON.parse(preferences.theme_colors) : null,
+        timerPresets: preferences.timer_presets ? JSON.parse(preferences.timer_presets) : null
       }
     });
   } catch (error) {
@@ -336,7 +337,8 @@ app.get('/api/preferences/:userId', (req, res) => {
     res.json({
       selectedAudioId: preferences.selected_audio_id,
       selectedImageId: preferences.selected_image_id,
-      themeColors: preferences.theme_colors ? JSON.parse(preferences.theme_colors) : null
+      themeColors: preferences.theme_colors ? JSON.parse(preferences.theme_colors) : null,
+      timerPresets: preferences.timer_presets ? JSON.parse(preferences.timer_presets) : null
     });
   } catch (error) {
     console.error('Error in /api/preferences/:userId:', error);
@@ -348,7 +350,7 @@ app.get('/api/preferences/:userId', (req, res) => {
 app.put('/api/preferences/:userId', (req, res) => {
   try {
     const { userId } = req.params;
-    const { selectedAudioId, selectedImageId, themeColors } = req.body;
+    const { selectedAudioId, selectedImageId, themeColors, timerPresets } = req.body;
 
     // Ensure preferences record exists
     const exists = db.prepare('SELECT * FROM user_preferences WHERE user_id = ?').get(userId);
@@ -379,6 +381,11 @@ app.put('/api/preferences/:userId', (req, res) => {
       params.push(JSON.stringify(themeColors));
     }
 
+    if (timerPresets !== undefined) {
+      updates.push('timer_presets = ?');
+      params.push(JSON.stringify(timerPresets));
+    }
+
     if (updates.length > 0) {
       params.push(userId);
       db.prepare(`
@@ -493,7 +500,7 @@ app.post('/api/meditation/start', (req, res) => {
 // POST /api/meditation/end - End a session
 app.post('/api/meditation/end', (req, res) => {
   try {
-    const { sessionId, durationSeconds } = req.body;
+    const { sessionId, durationSeconds, plan, breathCycles } = req.body;
 
     if (!sessionId) {
       return res.status(400).json({ error: 'sessionId is required' });
@@ -503,9 +510,11 @@ app.post('/api/meditation/end', (req, res) => {
       UPDATE sessions
       SET ended_at = CURRENT_TIMESTAMP,
           duration_seconds = ?,
-          is_active = FALSE
+          is_active = FALSE,
+          plan = ?,
+          breath_cycles = ?
       WHERE id = ?
-    `).run(durationSeconds || 0, sessionId);
+    `).run(durationSeconds || 0, plan ? JSON.stringify(plan) : null, breathCycles || 0, sessionId);
 
     res.json({ success: true });
   } catch (error) {
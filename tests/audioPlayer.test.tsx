@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRef } from 'react';
+import { render, act, cleanup } from '@testing-library/react';
+import { AudioPlayer, AudioPlayerHandle } from '../components/AudioPlayer';
+import { StorageManager } from '../utils/storage';
+
+// Audio elements created by the player (two per looping track)
+let audios: FakeAudio[] = [];
+
+class FakeAudio {
+  src = '';
+  preload = '';
+  volume = 1;
+  muted = false;
+  currentTime = 0;
+  duration = NaN;  // Metadata never loads, so no crossfade is scheduled
+  paused = true;
+  plays = 0;
+
+  constructor() {
+    audios.push(this);
+  }
+
+  load() {}
+  addEventListener() {}
+  removeEventListener() {}
+
+  play() {
+    this.plays++;
+    this.paused = false;
+    return Promise.resolve();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+}
+
+// Render the player and let it resolve its layers
+const renderPlayer = async () => {
+  const ref = createRef<AudioPlayerHandle>();
+  await act(async () => {
+    render(<AudioPlayer ref={ref} isMuted={false} userId="user-1" />);
+  });
+  return ref.current!;
+};
+
+// The element playing the selected sound
+const getPlaying = () => audios.find(audio => !audio.paused);
+
+describe('Audio Player', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    audios = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('Audio', FakeAudio);
+    StorageManager.updateVolumeSettings({ masterVolume: 0.6, fadeInSeconds: 0, fadeOutSeconds: 5 });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should play at the master volume', async () => {
+    const player = await renderPlayer();
+    await act(() => player.play());
+    expect(getPlaying()?.volume).toBeCloseTo(0.6);
+  });
+
+  it('should fade out before pausing at session end', async () => {
+    const player = await renderPlayer();
+    await act(() => player.play());
+    const audio = getPlaying()!;
+
+    act(() => player.fadeOut());
+    act(() => {
+      vi.advanceTimersByTime(2_500);
+    });
+    expect(audio.paused).toBe(false);
+    expect(audio.volume).toBeCloseTo(0.3);
+
+    act(() => {
+      vi.advanceTimersByTime(2_400);
+    });
+    expect(audio.paused).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(audio.paused).toBe(true);
+    expect(audio.volume).toBeLessThan(0.01);
+  });
+
+  it('should pause at once when fading out is off', async () => {
+    StorageManager.updateVolumeSettings({ fadeOutSeconds: 0 });
+    const player = await renderPlayer();
+    await act(() => player.play());
+    const audio = getPlaying()!;
+
+    act(() => player.fadeOut());
+    expect(audio.paused).toBe(true);
+  });
+
+  it('should fade back in when played again during the fade', async () => {
+    const player = await renderPlayer();
+    await act(() => player.play());
+    const audio = getPlaying()!;
+
+    act(() => player.fadeOut());
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    await act(() => player.play());
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+
+    expect(audio.paused).toBe(false);
+    expect(audio.volume).toBeCloseTo(0.6);
+  });
+
+  it('should unlock its audio elements silently, ready to play after a countdown', async () => {
+    const player = await renderPlayer();
+
+    // Tap to begin: unlocked inside the gesture...
+    await act(async () => player.unlock());
+    expect(audios.length).toBeGreaterThan(0);
+    audios.forEach((audio) => {
+      expect(audio.plays).toBe(1);
+      expect(audio.paused).toBe(true);
+      expect(audio.muted).toBe(false);
+    });
+
+    // ...and started audibly once the countdown ends
+    await act(() => player.play());
+    expect(getPlaying()?.muted).toBe(false);
+    expect(getPlaying()?.volume).toBeCloseTo(0.6);
+  });
+
+  it('should keep playing when started while the unlock is still settling', async () => {
+    const player = await renderPlayer();
+
+    await act(async () => {
+      player.unlock();
+      await player.play();
+    });
+    const audio = getPlaying()!;
+    expect(audio.paused).toBe(false);
+    expect(audio.muted).toBe(false);
+  });
+
+  describe('Lock screen controls', () => {
+    const handlers: Record<string, () => void> = {};
+
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'mediaSession', {
+        configurable: true,
+        value: {
+          metadata: null,
+          playbackState: 'none',
+          setActionHandler: (action: string, handler: (() => void) | null) => {
+            if (handler) handlers[action] = handler;
+          }
+        }
+      });
+      vi.stubGlobal('MediaMetadata', class {});
+    });
+
+    afterEach(() => {
+      delete (navigator as { mediaSession?: unknown }).mediaSession;
+    });
+
+    it('should pause and resume the session, not just the sound', async () => {
+      const events: string[] = [];
+      const record = (event: Event) => events.push(event.type);
+      window.addEventListener('pauseMeditationSession', record);
+      window.addEventListener('resumeMeditationSession', record);
+
+      const player = await renderPlayer();
+      await act(() => player.play());
+      const audio = getPlaying()!;
+
+      await act(async () => handlers.pause());
+      expect(audio.paused).toBe(true);
+      expect(events).toEqual(['pauseMeditationSession']);
+
+      await act(async () => handlers.play());
+      expect(audio.paused).toBe(false);
+      expect(events).toEqual(['pauseMeditationSession', 'resumeMeditationSession']);
+
+      window.removeEventListener('pauseMeditationSession', record);
+      window.removeEventListener('resumeMeditationSession', record);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isVideoBackground, resolveImageUrl, resolveBackground, CUSTOM_VIDEO_ID } from '../utils/backgrounds';
+
+describe('Backgrounds', () => {
+  it('should tell videos from images', () => {
+    expect(isVideoBackground(CUSTOM_VIDEO_ID)).toBe(true);
+    expect(isVideoBackground('candle')).toBe(true);
+    expect(isVideoBackground('custom')).toBe(false);
+    expect(isVideoBackground('forest-mist')).toBe(false);
+    expect(isVideoBackground(null)).toBe(false);
+  });
+
+  it('should resolve predefined images, falling back to the first', async () => {
+    expect(await resolveImageUrl('forest-mist')).toBe('/media/images/predefined/forest-mist.jpg');
+    expect(await resolveImageUrl(null)).toBe('/media/images/predefined/mountain-sunrise.jpg');
+  });
+
+  it('should resolve images as image backgrounds', async () => {
+    expect(await resolveBackground('ocean-sunset')).toEqual({ url: '/media/images/predefined/ocean-sunset.jpg', kind: 'image' });
+  });
+
+  it('should resolve bundled clips as video backgrounds', async () => {
+    expect(await resolveBackground('candle')).toEqual({ url: '/media/videos/candle.webm', kind: 'video' });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  Backup,
+  LocalSnapshot,
+  describeImport,
+  exportBackup,
+  getBackupFileName,
+  mergeSessionHistory,
+  mergeSettings,
+  parseBackup,
+  restoreBackup
+} from '../utils/backup';
+import { StorageManager, mediaCache } from '../utils/storage';
+
+const settings = {
+  userId: 'user-old',
+  displayName: 'Quiet Heron',
+  selectedAudioId: 'om-mantra',
+  selectedImageId: 'forest-mist',
+  customAudioName: null,
+  customImageName: null
+};
+
+const backup: Backup = {
+  format: 'om-backup',
+  version: 1,
+  exportedAt: Date.UTC(2026, 9, 1),
+  userId: 'user-from-backup',
+  displayName: 'Still Lake',
+  settings: { ...settings, userId: 'user-from-backup', displayName: 'Still Lake', selectedImageId: 'ocean-sunset', customImageName: 'beach.jpg' },
+  localStats: { totalSeconds: 3600, lastSession: null, sessionsCount: 3 },
+  sessionHistory: [
+    { sessionId: 's3', startedAt: 3000, endedAt: 3600, durationSeconds: 600 },
+    { sessionId: 's1', startedAt: 1000, endedAt: 1600, durationSeconds: 600 }
+  ],
+  media: [{ type: 'image', name: 'beach.jpg', mimeType: 'image/jpeg', data: 'data:image/jpeg;base64,AAAA' }],
+  library: [{
+    track: { id: 'track-1', name: 'Rain', durationSeconds: 60, tags: [], mimeType: 'audio/mpeg', addedAt: 1 },
+    data: 'data:audio/mpeg;base64,AAAA'
+  }]
+};
+
+const local: LocalSnapshot = {
+  userId: 'user-old',
+  displayName: 'Quiet Heron',
+  settings,
+  sessionHistory: [
+    { sessionId: 's1', startedAt: 1000, endedAt: 1600, durationSeconds: 600 },
+    { sessionId: 's2', startedAt: 2000, endedAt: 2600, durationSeconds: 600 }
+  ],
+  mediaNames: { image: 'mountain.png', bell: 'ding.wav' },
+  libraryTrackIds: ['track-1', 'track-2']
+};
+
+describe('Backup', () => {
+  it('should read back an exported backup', () => {
+    expect(parseBackup(exportBackup(backup))).toEqual(backup);
+  });
+
+  it('should reject files that are not usable backups', () => {
+    expect(() => parseBackup('not json')).toThrow('not valid JSON');
+    expect(() => parseBackup(JSON.stringify({ format: 'om-cue-script' }))).toThrow('not a backup');
+    expect(() => parseBackup(exportBackup({ ...backup, version: 99 }))).toThrow('newer version');
+    expect(() => parseBackup(exportBackup({ ...backup, userId: '' }))).toThrow('no user ID');
+    expect(() => parseBackup(JSON.stringify({ ...backup, media: [{ ...backup.media[0], type: 'poster' }] })))
+      .toThrow('custom file');
+    expect(() => parseBackup(JSON.stringify({ ...backup, library: [{ track: { id: 'track-1' }, data: 'data:,' }] })))
+      .toThrow('library track');
+  });
+
+  it('should merge session histories without duplicates, newest first', () => {
+    expect(mergeSessionHistory(local.sessionHistory, backup.sessionHistory).map(record => record.sessionId))
+      .toEqual(['s3', 's2', 's1']);
+  });
+
+  it('should merge settings lists by id and let the backup win', () => {
+    const merged = mergeSettings(
+      { ...settings, timerPresets: [{ id: 'preset-a', label: 'A', minutes: 5 }, { id: 'preset-b', label: 'B', minutes: 15 }] },
+      { ...backup.settings, timerPresets: [{ id: 'preset-b', label: 'B', minutes: 25 }] }
+    );
+    expect(merged.selectedImageId).toBe('ocean-sunset');
+    expect(merged.timerPresets).toEqual([
+      { id: 'preset-b', label: 'B', minutes: 25 },
+      { id: 'preset-a', label: 'A', minutes: 5 }
+    ]);
+  });
+
+  it('should describe what a merge overwrites', () => {
+    expect(describeImport(backup, local, 'merge')).toEqual([
+      'User ID user-old becomes user-fro (stats and leaderboard follow it)',
+      'Display name "Quiet Heron" becomes "Still Lake"',
+      '2 settings overwritten',
+      'Session history: 1 session added',
+      'Custom image "mountain.png" replaced by "beach.jpg"'
+    ]);
+  });
+
+  it('should describe what a replace removes', () => {
+    const changes = describeImport(backup, local, 'replace');
+    expect(changes).toContain('All settings are replaced');
+    expect(changes).toContain('Session history: 2 sessions replaced by 2');
+    expect(changes).toContain('Custom bell "ding.wav" removed');
+    expect(changes).toContain('Audio library: 2 tracks replaced by 1');
+  });
+
+  it('should report nothing for a backup of this browser', () => {
+    const same = { ...backup, userId: local.userId, displayName: local.displayName, settings, sessionHistory: local.sessionHistory, media: [], library: [] };
+    expect(describeImport(same, { ...local, mediaNames: {} }, 'merge')).toEqual([]);
+  });
+
+  it('should name the file after the day', () => {
+    expect(getBackupFileName(new Date(2026, 0, 5))).toBe('meditation-timer-backup-2026-01-05.json');
+  });
+
+  describe('restoring in replace mode', () => {
+    // Stand-ins for IndexedDB - this browser has a custom bell and two library tracks
+    const mockMediaCache = () => ({
+      saveFile: vi.spyOn(mediaCache, 'saveFile').mockResolvedValue('saved'),
+      restoreLibraryTrack: vi.spyOn(mediaCache, 'restoreLibraryTrack').mockResolvedValue(),
+      deleteFile: vi.spyOn(mediaCache, 'deleteFile').mockResolvedValue(),
+      deleteLibraryTrack: vi.spyOn(mediaCache, 'deleteLibraryTrack').mockResolvedValue(),
+      getLibraryTracks: vi.spyOn(mediaCache, 'getLibraryTracks').mockResolvedValue([
+        backup.library[0].track,
+        { ...backup.library[0].track, id: 'track-2' }
+      ])
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should leave everything in place when a file cannot be decoded', async () => {
+      const cache = mockMediaCache();
+      StorageManager.setUserId('user-old');
+      StorageManager.saveSettings(settings);
+      const broken = { ...backup, library: [{ ...backup.library[0], data: 'data:audio/mpeg;base64,%%%' }] };
+
+      await expect(restoreBackup(broken, 'replace')).rejects.toThrow();
+      expect(cache.saveFile).not.toHaveBeenCalled();
+      expect(cache.deleteFile).not.toHaveBeenCalled();
+      expect(cache.deleteLibraryTrack).not.toHaveBeenCalled();
+      expect(StorageManager.getUserId()).toBe('user-old');
+      expect(StorageManager.getSettings().selectedImageId).toBe('forest-mist');
+    });
+
+    it('should remove nothing when saving a file fails', async () => {
+      const cache = mockMediaCache();
+      cache.saveFile.mockRejectedValue(new Error('Quota exceeded'));
+      StorageManager.setUserId('user-old');
+
+      await expect(restoreBackup(backup, 'replace')).rejects.toThrow('Quota exceeded');
+      expect(cache.deleteFile).not.toHaveBeenCalled();
+      expect(cache.deleteLibraryTrack).not.toHaveBeenCalled();
+      expect(StorageManager.getUserId()).toBe('user-old');
+    });
+
+    it('should save the backup, then remove only what it lacks', async () => {
+      const cache = mockMediaCache();
+
+      await restoreBackup(backup, 'replace');
+      expect(cache.saveFile).toHaveBeenCalledWith('image', expect.any(File));
+      expect(cache.restoreLibraryTrack).toHaveBeenCalledWith(backup.library[0].track, expect.any(Blob));
+      expect(cache.deleteFile.mock.calls.map(([type]) => type)).toEqual(['audio', 'bell', 'video']);
+      expect(cache.deleteLibraryTrack.mock.calls).toEqual([['track-2']]);
+      expect(StorageManager.getUserId()).toBe('user-from-backup');
+      expect(StorageManager.getSessionHistory()).toEqual(backup.sessionHistory);
+    });
+  });
+});
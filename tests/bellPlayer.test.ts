@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { playBell, playSoftTick, previewBell, resetBell, resolveBellUrl, unlockBell } from '../utils/bellPlayer';
+import { StorageManager, mediaCache } from '../utils/storage';
+
+const SINGING_BOWL = '/media/audio/bells/singing-bowl.wav';
+const GONG = '/media/audio/bells/gong.wav';
+
+// Records every bell the player rings audibly
+const played: { src: string; volume: number }[] = [];
+
+class FakeAudio {
+  src: string;
+  volume = 1;
+  muted = false;
+  paused = true;
+  currentTime = 0;
+  preload = '';
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  load() {}
+
+  play() {
+    this.paused = false;
+    if (!this.muted) {
+      played.push({ src: this.src, volume: this.volume });
+    }
+    return Promise.resolve();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  cloneNode() {
+    return new FakeAudio(this.src);
+  }
+}
+
+// Peak gains of the ticks synthesized on the shared context
+const tickPeaks: number[] = [];
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+
+  createOscillator() {
+    return { type: '', frequency: { value: 0 }, connect() {}, start() {}, stop() {} };
+  }
+
+  createGain() {
+    let peak = 0;
+    return {
+      gain: {
+        setValueAtTime() {},
+        exponentialRampToValueAtTime(value: number) {
+          // The first ramp rises to the peak, the second decays
+          if (!peak) {
+            peak = value;
+            tickPeaks.push(value);
+          }
+        }
+      },
+      connect() {}
+    };
+  }
+}
+
+// Let the bell resolve and the first strike's timer run
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Bell Player', () => {
+  beforeEach(() => {
+    played.length = 0;
+    tickPeaks.length = 0;
+    vi.stubGlobal('Audio', FakeAudio);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    resetBell();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve bundled bells, falling back to the first', async () => {
+    expect(await resolveBellUrl('gong')).toBe(GONG);
+    expect(await resolveBellUrl('no-such-bell')).toBe(SINGING_BOWL);
+  });
+
+  it('should resolve the custom bell from MediaCache', async () => {
+    vi.spyOn(mediaCache, 'getFile').mockResolvedValue({ url: 'blob:custom-bell', name: 'ding.wav' });
+    expect(await resolveBellUrl('custom')).toBe('blob:custom-bell');
+  });
+
+  it('should fall back to a bundled bell when the custom one is missing', async () => {
+    vi.spyOn(mediaCache, 'getFile').mockResolvedValue(null);
+    expect(await resolveBellUrl('custom')).toBe(SINGING_BOWL);
+  });
+
+  it('should keep the loaded bell until reset after an upload', async () => {
+    StorageManager.updateBellSettings({ soundId: 'gong', volume: 0.5 });
+    playBell();
+    await settle();
+    expect(played).toEqual([{ src: GONG, volume: 0.5 }]);
+
+    // A custom bell is uploaded and selected
+    vi.spyOn(mediaCache, 'getFile').mockResolvedValue({ url: 'blob:custom-bell', name: 'ding.wav' });
+    StorageManager.updateBellSettings({ soundId: 'custom' });
+    playBell();
+    await settle();
+    expect(played[1].src).toBe(GONG);
+
+    resetBell();
+    playBell();
+    await settle();
+    expect(played[2].src).toBe('blob:custom-bell');
+  });
+
+  it('should preview a bell at the bell volume without selecting it', async () => {
+    StorageManager.updateBellSettings({ soundId: 'singing-bowl', volume: 0.3 });
+    previewBell('gong');
+    await settle();
+    expect(played).toEqual([{ src: GONG, volume: 0.3 }]);
+    expect(StorageManager.getBellSettings().soundId).toBe('singing-bowl');
+
+    playBell();
+    await settle();
+    expect(played[1].src).toBe(SINGING_BOWL);
+  });
+
+  it('should unlock the bell silently and ring it later from a timer', async () => {
+    StorageManager.updateBellSettings({ soundId: 'gong', volume: 0.4 });
+    unlockBell();
+    await settle();
+    expect(played).toEqual([]);
+
+    playBell();
+    await settle();
+    expect(played).toEqual([{ src: GONG, volume: 0.4 }]);
+  });
+
+  it('should play soft ticks at the bell volume', () => {
+    StorageManager.updateBellSettings({ volume: 1 });
+    playSoftTick();
+    StorageManager.updateBellSettings({ volume: 0.5 });
+    playSoftTick();
+    expect(tickPeaks[0]).toBeCloseTo(0.06);
+    expect(tickPeaks[1]).toBeCloseTo(0.03);
+  });
+
+  it('should not play soft ticks with the bell volume off', () => {
+    StorageManager.updateBellSettings({ volume: 0 });
+    playSoftTick();
+    expect(tickPeaks).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { BREATHING_PATTERNS, getSelectedPattern, getCycleSeconds, getBreathState } from '../utils/breathingPatterns';
+import type { BreathingSettings } from '../utils/storage';
+
+describe('Breathing Patterns', () => {
+  const DEFAULT_BREATHING_SETTINGS: BreathingSettings = {
+    enabled: true,
+    patternId: 'box',
+    targetCycles: 0,
+    ticks: false
+  };
+  const box = BREATHING_PATTERNS.find(pattern => pattern.id === 'box')!;
+  const relaxing = BREATHING_PATTERNS.find(pattern => pattern.id === '4-7-8')!;
+
+  describe('Pattern selection', () => {
+    it('should resolve presets by id', () => {
+      expect(getSelectedPattern({ ...DEFAULT_BREATHING_SETTINGS, patternId: '4-7-8' })).toBe(relaxing);
+    });
+
+    it('should use custom timings when selected', () => {
+      const pattern = getSelectedPattern({
+        ...DEFAULT_BREATHING_SETTINGS,
+        patternId: 'custom',
+        customPattern: { inhale: 5, holdIn: 2, exhale: 6, holdOut: 1 }
+      });
+      expect(getCycleSeconds(pattern)).toBe(14);
+    });
+
+    it('should fall back to the first preset for unknown ids', () => {
+      expect(getSelectedPattern({ ...DEFAULT_BREATHING_SETTINGS, patternId: 'missing' })).toBe(BREATHING_PATTERNS[0]);
+    });
+
+    it('should time coherent breathing at 5.5 breaths per minute', () => {
+      const coherent = BREATHING_PATTERNS.find(pattern => pattern.id === 'coherent')!;
+      expect(60 / getCycleSeconds(coherent)).toBeCloseTo(5.5);
+    });
+  });
+
+  describe('Breath state', () => {
+    it('should walk through each phase of box breathing', () => {
+      expect(getBreathState(box, 0).phase).toBe('inhale');
+      expect(getBreathState(box, 5).phase).toBe('hold-in');
+      expect(getBreathState(box, 9).phase).toBe('exhale');
+      expect(getBreathState(box, 13).phase).toBe('hold-out');
+    });
+
+    it('should grow on the inhale and shrink on the exhale', () => {
+      expect(getBreathState(box, 0).scale).toBe(0);
+      expect(getBreathState(box, 2).scale).toBeCloseTo(0.5);
+      expect(getBreathState(box, 6).scale).toBe(1);
+      expect(getBreathState(box, 10).scale).toBeCloseTo(0.5);
+      expect(getBreathState(box, 14).scale).toBe(0);
+    });
+
+    it('should skip phases with no duration', () => {
+      // 4-7-8 has no hold after the exhale
+      const state = getBreathState(relaxing, 19);
+      expect(state.phase).toBe('inhale');
+      expect(state.completedCycles).toBe(1);
+    });
+
+    it('should count completed cycles', () => {
+      expect(getBreathState(box, 15.9).completedCycles).toBe(0);
+      expect(getBreathState(box, 16).completedCycles).toBe(1);
+      expect(getBreathState(box, 16 * 10 + 3).completedCycles).toBe(10);
+    });
+
+    it('should handle an empty pattern', () => {
+      const state = getBreathState({ inhale: 0, holdIn: 0, exhale: 0, holdOut: 0 }, 30);
+      expect(state.completedCycles).toBe(0);
+    });
+  });
+});
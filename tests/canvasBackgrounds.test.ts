@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isGeneratedBackgroundId,
+  getSessionSettle,
+  getMandalaRings,
+  getParticle,
+  SETTLE_SECONDS,
+  MANDALA_RING_SECONDS,
+  MANDALA_MAX_RINGS
+} from '../utils/canvasBackgrounds';
+
+describe('Canvas Backgrounds', () => {
+  it('should recognise generated background ids', () => {
+    expect(isGeneratedBackgroundId('aurora')).toBe(true);
+    expect(isGeneratedBackgroundId('growing-mandala')).toBe(true);
+    expect(isGeneratedBackgroundId('forest-mist')).toBe(false);
+    expect(isGeneratedBackgroundId(null)).toBe(false);
+  });
+
+  it('should settle over the first part of a session', () => {
+    expect(getSessionSettle(0)).toBe(0);
+    expect(getSessionSettle(-5)).toBe(0);
+    expect(getSessionSettle(SETTLE_SECONDS / 2)).toBeCloseTo(0.5);
+    expect(getSessionSettle(SETTLE_SECONDS * 3)).toBe(1);
+  });
+
+  it('should grow the mandala a ring at a time up to the limit', () => {
+    expect(getMandalaRings(0)).toBe(1);
+    expect(getMandalaRings(MANDALA_RING_SECONDS / 2)).toBeCloseTo(1.5);
+    expect(getMandalaRings(MANDALA_RING_SECONDS * 3)).toBe(4);
+    expect(getMandalaRings(MANDALA_RING_SECONDS * 100)).toBe(MANDALA_MAX_RINGS);
+  });
+
+  it('should keep particles on screen as they rise and wrap', () => {
+    for (const time of [0, 10, 1000, 123456]) {
+      for (let i = 0; i < 20; i++) {
+        const particle = getParticle(i, time, 0);
+        expect(particle.y).toBeGreaterThanOrEqual(0);
+        expect(particle.y).toBeLessThan(1);
+        expect(particle.glow).toBeGreaterThanOrEqual(0);
+        expect(particle.glow).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('should draw the same frame for the same time', () => {
+    expect(getParticle(7, 42, 0.5)).toEqual(getParticle(7, 42, 0.5));
+    expect(getParticle(7, 42, 0.5)).not.toEqual(getParticle(7, 43, 0.5));
+  });
+});
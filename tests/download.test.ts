@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { downloadBlob } from '../utils/download';
+
+describe('Download', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:backup');
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should click a link attached to the page and remove it afterwards', () => {
+    const clicked: { href: string; download: string; attached: boolean }[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      clicked.push({ href: this.href, download: this.download, attached: document.body.contains(this) });
+    });
+
+    downloadBlob(new Blob(['{}'], { type: 'application/json' }), 'om-backup.json');
+
+    expect(clicked).toEqual([{ href: 'blob:backup', download: 'om-backup.json', attached: true }]);
+    expect(document.querySelector('a[download]')).toBeNull();
+  });
+
+  it('should keep the URL alive well after the click', () => {
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    downloadBlob(new Blob(['{}']), 'script.json');
+
+    vi.advanceTimersByTime(1_000);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10_000);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:backup');
+  });
+});
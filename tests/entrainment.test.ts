@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageManager, EntrainmentSettings } from '../utils/storage';
+import {
+  getBeatRamp,
+  getBeatFrequency,
+  getBinauralFrequencies,
+  getSessionGoalSeconds,
+  MAX_BEAT_HZ
+} from '../utils/entrainment';
+
+describe('Entrainment', () => {
+  const settings: EntrainmentSettings = {
+    mode: 'binaural',
+    bandId: 'theta',
+    customStartHz: 10,
+    customEndHz: 6,
+    carrierHz: 200,
+    volume: 0.3,
+    withAmbient: true
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('Beat ramp', () => {
+    it('should use the selected band', () => {
+      expect(getBeatRamp(settings)).toEqual({ startHz: 10, endHz: 6 });
+    });
+
+    it('should use the custom ramp, clamped to the supported range', () => {
+      expect(getBeatRamp({ ...settings, bandId: 'custom', customStartHz: 8, customEndHz: 4 }))
+        .toEqual({ startHz: 8, endHz: 4 });
+      expect(getBeatRamp({ ...settings, bandId: 'custom', customStartHz: 100, customEndHz: 0 }))
+        .toEqual({ startHz: MAX_BEAT_HZ, endHz: 0.5 });
+    });
+
+    it('should move linearly from start to target over the ramp', () => {
+      const ramp = { startHz: 10, endHz: 6 };
+      expect(getBeatFrequency(ramp, 0, 1200)).toBe(10);
+      expect(getBeatFrequency(ramp, 600, 1200)).toBe(8);
+      expect(getBeatFrequency(ramp, 1200, 1200)).toBe(6);
+    });
+
+    it('should hold the target after the ramp', () => {
+      expect(getBeatFrequency({ startHz: 10, endHz: 6 }, 5000, 1200)).toBe(6);
+      expect(getBeatFrequency({ startHz: 10, endHz: 6 }, 0, 0)).toBe(6);
+    });
+  });
+
+  it('should offset each ear by half the beat', () => {
+    expect(getBinauralFrequencies(200, 6)).toEqual({ left: 197, right: 203 });
+  });
+
+  describe('Session goal', () => {
+    it('should have no goal in an open session', () => {
+      expect(getSessionGoalSeconds()).toBeNull();
+    });
+
+    it('should use the count-down target', () => {
+      StorageManager.updateTimerSettings({ type: 'count-down', targetMinutes: 20 });
+      expect(getSessionGoalSeconds()).toBe(1200);
+    });
+
+    it('should use the total of the active plan', () => {
+      StorageManager.updateTimerSettings({ type: 'plan', planId: 'plan-default' });
+      expect(getSessionGoalSeconds()).toBe(25 * 60);
+    });
+  });
+});
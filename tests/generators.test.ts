@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageManager } from '../utils/storage';
+import {
+  isGeneratedId,
+  getGeneratorParams,
+  noteFrequency,
+  brightnessToCutoff,
+  quantizeToLoop,
+  removeDrift,
+  getTanpuraStrings,
+  getDroneCycleSeconds,
+  getPadRatios
+} from '../utils/generators';
+
+describe('Generators', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should tell generated sounds apart from other audio ids', () => {
+    expect(isGeneratedId('pink-noise')).toBe(true);
+    expect(isGeneratedId('tanpura-drone')).toBe(true);
+    expect(isGeneratedId('rain')).toBe(false);
+    expect(isGeneratedId('silence')).toBe(false);
+    expect(isGeneratedId(null)).toBe(false);
+  });
+
+  it('should merge saved parameters over the defaults', () => {
+    const defaults = getGeneratorParams('tanpura-drone');
+
+    StorageManager.updateGeneratorParams('tanpura-drone', { pitch: 4 });
+    expect(getGeneratorParams('tanpura-drone')).toEqual({ ...defaults, pitch: 4 });
+    // Other generators keep their own parameters
+    expect(getGeneratorParams('evolving-pad').pitch).not.toBe(4);
+  });
+
+  it('should convert root notes to frequencies', () => {
+    expect(noteFrequency(9, 4)).toBeCloseTo(440);
+    expect(noteFrequency(0)).toBeCloseTo(130.81, 1);
+    expect(noteFrequency(0, 2)).toBeCloseTo(noteFrequency(0) / 2);
+  });
+
+  it('should map brightness to a rising cutoff', () => {
+    expect(brightnessToCutoff(0)).toBe(200);
+    expect(brightnessToCutoff(1)).toBeGreaterThan(9000);
+    expect(brightnessToCutoff(0.5)).toBeGreaterThan(brightnessToCutoff(0.4));
+  });
+
+  it('should quantize frequencies to whole cycles per loop', () => {
+    const frequency = quantizeToLoop(130.81, 32);
+    expect(Number.isInteger(frequency * 32)).toBe(true);
+    expect(Math.abs(frequency - 130.81)).toBeLessThanOrEqual(1 / 64);
+  });
+
+  it('should remove drift so a random walk loops without a jump', () => {
+    const samples = new Float32Array([0, 0.2, 0.5, 0.3, 0.8]);
+    removeDrift(samples);
+    expect(samples[4]).toBeCloseTo(samples[0]);
+    expect(samples[2]).toBeCloseTo(0.1);
+  });
+
+  it('should tune the tanpura strings to Pa, Sa, Sa and low Sa', () => {
+    expect(getTanpuraStrings(200)).toEqual([150, 200, 200, 100]);
+  });
+
+  it('should pluck faster and add pad voices as density grows', () => {
+    expect(getDroneCycleSeconds(0)).toBe(8);
+    expect(getDroneCycleSeconds(1)).toBe(4);
+    expect(getPadRatios(0)).toEqual([1, 1.5]);
+    expect(getPadRatios(1)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getLastReminderAt, describeGoalBehavior } from '../utils/goalBehavior';
+
+describe('Goal Behavior', () => {
+  const goal = 20 * 60;
+
+  describe('Overtime reminders', () => {
+    it('should not remind before the first interval of overtime', () => {
+      expect(getLastReminderAt(goal, 5, goal - 10)).toBe(0);
+      expect(getLastReminderAt(goal, 5, goal)).toBe(0);
+      expect(getLastReminderAt(goal, 5, goal + 299)).toBe(0);
+    });
+
+    it('should remind every N minutes after the goal', () => {
+      expect(getLastReminderAt(goal, 5, goal + 300)).toBe(goal + 300);
+      expect(getLastReminderAt(goal, 5, goal + 650)).toBe(goal + 600);
+    });
+
+    it('should only report the latest reminder after a long gap', () => {
+      // Background tab woke up 47 minutes into overtime
+      expect(getLastReminderAt(goal, 10, goal + 47 * 60)).toBe(goal + 40 * 60);
+    });
+
+    it('should never remind without an interval', () => {
+      expect(getLastReminderAt(goal, undefined, goal + 3600)).toBe(0);
+      expect(getLastReminderAt(goal, 0, goal + 3600)).toBe(0);
+    });
+  });
+
+  describe('Labels', () => {
+    it('should describe each behavior', () => {
+      expect(describeGoalBehavior(undefined)).toBe('Continue');
+      expect(describeGoalBehavior({ mode: 'continue' })).toBe('Continue');
+      expect(describeGoalBehavior({ mode: 'auto-end' })).toBe('Auto-end');
+      expect(describeGoalBehavior({ mode: 'reminder', reminderMinutes: 5 })).toBe('Remind every 5 min');
+    });
+  });
+});
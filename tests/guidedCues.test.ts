@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { CueScript, GuidedCue } from '../utils/storage';
+import {
+  getCueOffset,
+  getLatestDueCue,
+  describeCueTiming,
+  sortCues,
+  exportCueScript,
+  parseCueScript
+} from '../utils/guidedCues';
+
+describe('Guided Cues', () => {
+  const cue = (anchor: GuidedCue['anchor'], minutes: number, text = 'Breathe'): GuidedCue => ({
+    id: `cue-${anchor}-${minutes}`, anchor, minutes, text
+  });
+  const script: CueScript = {
+    id: 'cues-test',
+    name: 'Test',
+    cues: [cue('start', 0, 'Settle'), cue('start', 5), cue('end', 10, 'Ten minutes remain'), cue('end', 30)]
+  };
+
+  describe('Offsets', () => {
+    it('should count start cues from the session start', () => {
+      expect(getCueOffset(cue('start', 2.5), null)).toBe(150);
+    });
+
+    it('should count end cues back from the goal', () => {
+      expect(getCueOffset(cue('end', 10), 1200)).toBe(600);
+    });
+
+    it('should drop end cues without a goal or before the start', () => {
+      expect(getCueOffset(cue('end', 10), null)).toBeNull();
+      expect(getCueOffset(cue('end', 30), 1200)).toBeNull();
+    });
+  });
+
+  describe('Due cues', () => {
+    it('should not speak before the session has started', () => {
+      expect(getLatestDueCue(script, 1200, 0)).toBeNull();
+      expect(getLatestDueCue(null, 1200, 500)).toBeNull();
+    });
+
+    it('should speak the start cue on the first tick', () => {
+      expect(getLatestDueCue(script, 1200, 1)?.cue.text).toBe('Settle');
+    });
+
+    it('should return only the latest cue after a long gap', () => {
+      const due = getLatestDueCue(script, 1200, 700);
+      expect(due?.cue.text).toBe('Ten minutes remain');
+      expect(due?.offsetSeconds).toBe(600);
+    });
+
+    it('should skip end cues in an open session', () => {
+      expect(getLatestDueCue(script, null, 700)?.offsetSeconds).toBe(300);
+    });
+  });
+
+  it('should describe and sort cues by timeline', () => {
+    expect(describeCueTiming(cue('start', 0))).toBe('At start');
+    expect(describeCueTiming(cue('end', 10))).toBe('10 min before end');
+    expect(sortCues([cue('end', 1), cue('start', 5), cue('end', 10), cue('start', 0)]).map(describeCueTiming))
+      .toEqual(['At start', '5 min', '10 min before end', '1 min before end']);
+  });
+
+  describe('Sharing', () => {
+    it('should round-trip a script with fresh ids and without clips', () => {
+      const shared = { ...script, cues: [{ ...cue('start', 1, 'Listen'), clipId: 'track-1' }] };
+      const imported = parseCueScript(exportCueScript(shared));
+      expect(imported.name).toBe('Test');
+      expect(imported.id).not.toBe(shared.id);
+      expect(imported.cues).toHaveLength(1);
+      expect(imported.cues[0]).toMatchObject({ anchor: 'start', minutes: 1, text: 'Listen', clipId: null });
+    });
+
+    it('should reject files that are not cue scripts', () => {
+      expect(() => parseCueScript('not json')).toThrow('not valid JSON');
+      expect(() => parseCueScript('{"cues": []}')).toThrow('not a cue script');
+      expect(() => parseCueScript('{"format": "instant-om-cue-script", "version": 99, "cues": []}')).toThrow('newer version');
+    });
+
+    it('should reject invalid cues', () => {
+      const file = JSON.stringify({ format: 'instant-om-cue-script', version: 1, cues: [{ anchor: 'middle', minutes: 1, text: 'Hi' }] });
+      expect(() => parseCueScript(file)).toThrow('Cue 1');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { getLastBellAt, parseCustomOffsets, describeSchedule } from '../utils/intervalBells';
+
+describe('Interval Bells', () => {
+  describe('Parsing custom offsets', () => {
+    it('should parse comma separated minutes', () => {
+      expect(parseCustomOffsets('5, 12, 20')).toEqual([5, 12, 20]);
+    });
+
+    it('should sort, dedupe and drop invalid entries', () => {
+      expect(parseCustomOffsets('20 5, abc, 5, -3, 0, 12.5')).toEqual([5, 12.5, 20]);
+    });
+
+    it('should return empty list for empty input', () => {
+      expect(parseCustomOffsets('')).toEqual([]);
+    });
+  });
+
+  describe('Every N minutes', () => {
+    const schedule = { mode: 'every' as const, everyMinutes: 5 };
+
+    it('should not ring before the first interval', () => {
+      expect(getLastBellAt(schedule, 0)).toBe(0);
+      expect(getLastBellAt(schedule, 299)).toBe(0);
+    });
+
+    it('should ring exactly on the interval', () => {
+      expect(getLastBellAt(schedule, 300)).toBe(300);
+    });
+
+    it('should return the latest bell after a long background gap', () => {
+      // Tab was throttled from 4 min to 17 min - only the 15 min bell is due
+      expect(getLastBellAt(schedule, 17 * 60)).toBe(15 * 60);
+    });
+  });
+
+  describe('Custom offsets', () => {
+    const schedule = { mode: 'custom' as const, customMinutes: [5, 12, 20] };
+
+    it('should return the latest passed offset', () => {
+      expect(getLastBellAt(schedule, 4 * 60)).toBe(0);
+      expect(getLastBellAt(schedule, 13 * 60)).toBe(12 * 60);
+      expect(getLastBellAt(schedule, 90 * 60)).toBe(20 * 60);
+    });
+  });
+
+  describe('Off', () => {
+    it('should never ring', () => {
+      expect(getLastBellAt({ mode: 'off' }, 3600)).toBe(0);
+      expect(getLastBellAt(undefined, 3600)).toBe(0);
+    });
+
+    it('should describe schedules', () => {
+      expect(describeSchedule({ mode: 'off' })).toBe('Off');
+      expect(describeSchedule({ mode: 'every', everyMinutes: 10 })).toBe('Every 10 min');
+      expect(describeSchedule({ mode: 'custom', customMinutes: [5, 12] })).toBe('5, 12 min');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getCrossfadeSeconds, getIterationStart, createEqualPowerCurve, rampGain, ElementLoopingTrack } from '../utils/loopingTrack';
+
+// Records the automation scheduled on a gain
+class FakeParam {
+  value = 0.6;
+  calls: [string, ...number[]][] = [];
+
+  cancelScheduledValues(time: number) {
+    this.calls.push(['cancel', time]);
+  }
+
+  setValueAtTime(value: number, time: number) {
+    this.calls.push(['set', value, time]);
+  }
+
+  linearRampToValueAtTime(value: number, time: number) {
+    this.calls.push(['ramp', value, time]);
+  }
+
+  setTargetAtTime(value: number, time: number, timeConstant: number) {
+    this.calls.push(['target', value, time, timeConstant]);
+  }
+}
+
+// Audio element that only keeps its volume and play state
+class FakeAudio {
+  src = '';
+  preload = '';
+  volume = 1;
+  currentTime = 0;
+  duration = NaN;  // Metadata never loads, so no crossfade is scheduled
+  paused = true;
+
+  load() {}
+  addEventListener() {}
+  removeEventListener() {}
+
+  play() {
+    this.paused = false;
+    return Promise.resolve();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+}
+
+describe('Looping Track', () => {
+  describe('Crossfade length', () => {
+    it('should use the full crossfade for long tracks', () => {
+      expect(getCrossfadeSeconds(60)).toBe(2);
+    });
+
+    it('should shorten the crossfade for short loops', () => {
+      // Fade-in and fade-out of a 4 second loop must not overlap
+      expect(getCrossfadeSeconds(4)).toBe(1);
+    });
+  });
+
+  describe('Repeat schedule', () => {
+    it('should start each repeat one crossfade before the previous ends', () => {
+      const duration = 13;
+      const crossfade = getCrossfadeSeconds(duration);
+      expect(getIterationStart(100, 0, duration, crossfade)).toBe(100);
+      expect(getIterationStart(100, 1, duration, crossfade)).toBe(111);
+      expect(getIterationStart(100, 2, duration, crossfade)).toBe(122);
+    });
+
+    it('should stay sample-accurate after many repeats', () => {
+      // No accumulated drift - repeat 1000 lands exactly where the math says
+      expect(getIterationStart(0, 1000, 13, 2)).toBe(11000);
+    });
+  });
+
+  describe('Equal-power curves', () => {
+    const fadeIn = createEqualPowerCurve('in', 33);
+    const fadeOut = createEqualPowerCurve('out', 33);
+
+    it('should run from silent to full and back', () => {
+      expect(fadeIn[0]).toBeCloseTo(0);
+      expect(fadeIn[32]).toBeCloseTo(1);
+      expect(fadeOut[0]).toBeCloseTo(1);
+      expect(fadeOut[32]).toBeCloseTo(0);
+    });
+
+    it('should keep constant power through the crossfade', () => {
+      for (let i = 0; i < 33; i++) {
+        expect(fadeIn[i] ** 2 + fadeOut[i] ** 2).toBeCloseTo(1);
+      }
+    });
+
+    it('should not dip in the middle like a linear fade', () => {
+      expect(fadeIn[16]).toBeCloseTo(Math.SQRT1_2);
+    });
+  });
+
+  describe('Session fades on the audio clock', () => {
+    it('should fade in linearly from the current gain', () => {
+      const param = new FakeParam();
+      rampGain(param as unknown as AudioParam, 1, 10, 3);
+      expect(param.calls).toEqual([['cancel', 10], ['set', 0.6, 10], ['ramp', 1, 13]]);
+    });
+
+    it('should fade out to silence over the fade time', () => {
+      const param = new FakeParam();
+      rampGain(param as unknown as AudioParam, 0, 20, 5);
+      expect(param.calls).toEqual([['cancel', 20], ['set', 0.6, 20], ['ramp', 0, 25]]);
+    });
+
+    it('should smooth quickly without a fade time', () => {
+      const param = new FakeParam();
+      rampGain(param as unknown as AudioParam, 0.2, 4);
+      expect(param.calls.map(call => call[0])).toEqual(['cancel', 'set', 'target']);
+      expect(param.calls[2].slice(1, 3)).toEqual([0.2, 4]);
+    });
+  });
+
+  describe('Session fades on audio elements', () => {
+    let audios: FakeAudio[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      audios = [];
+      vi.stubGlobal('Audio', class extends FakeAudio {
+        constructor() {
+          super();
+          audios.push(this);
+        }
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('should fade in linearly over the fade time', async () => {
+      const track = new ElementLoopingTrack('/rain.mp3', 0);
+      await track.play();
+      track.setVolume(0.8, 4);
+
+      vi.advanceTimersByTime(2_000);
+      expect(audios[0].volume).toBeCloseTo(0.4);
+
+      vi.advanceTimersByTime(2_000);
+      expect(audios[0].volume).toBeCloseTo(0.8);
+      track.dispose();
+    });
+
+    it('should fade out to silence and keep playing until paused', async () => {
+      const track = new ElementLoopingTrack('/rain.mp3', 0.8);
+      await track.play();
+      track.setVolume(0, 5);
+
+      vi.advanceTimersByTime(2_500);
+      expect(audios[0].volume).toBeCloseTo(0.4);
+
+      vi.advanceTimersByTime(2_500);
+      expect(audios[0].volume).toBe(0);
+      expect(track.isPlaying()).toBe(true);
+      track.dispose();
+    });
+
+    it('should let a new volume take over a fade in progress', async () => {
+      const track = new ElementLoopingTrack('/rain.mp3', 0.8);
+      await track.play();
+      track.setVolume(0, 5);
+      vi.advanceTimersByTime(1_000);
+
+      track.setVolume(0.5);
+      vi.advanceTimersByTime(5_000);
+      expect(audios[0].volume).toBe(0.5);
+      track.dispose();
+    });
+  });
+});
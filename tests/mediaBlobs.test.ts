@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { dataUrlToBlob, isDataUrl } from '../utils/mediaBlobs';
+
+describe('Media Blobs', () => {
+  it('should recognise data URLs left from before the migration', () => {
+    expect(isDataUrl('data:audio/mpeg;base64,AAAA')).toBe(true);
+    expect(isDataUrl('blob:http://localhost/1234')).toBe(false);
+    expect(isDataUrl(new Blob(['x']))).toBe(false);
+    expect(isDataUrl(undefined)).toBe(false);
+  });
+
+  it('should decode base64 data URLs to their bytes', async () => {
+    const blob = dataUrlToBlob('data:image/png;base64,' + btoa('\x89PNG\x00\xff'));
+    expect(blob.type).toBe('image/png');
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+  });
+
+  it('should decode plain data URLs', async () => {
+    const blob = dataUrlToBlob('data:text/plain,hello%20world');
+    expect(blob.type).toBe('text/plain');
+    expect(await blob.text()).toBe('hello world');
+  });
+
+  it('should fall back to the stored type when the URL has none', () => {
+    expect(dataUrlToBlob('data:;base64,' + btoa('abc'), 'audio/mpeg').type).toBe('audio/mpeg');
+    expect(dataUrlToBlob('data:video/mp4;base64,', 'audio/mpeg').type).toBe('video/mp4');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageManager } from '../utils/storage';
+import { getPositionState, resolveAudioName } from '../utils/mediaSession';
+
+describe('Media Session', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('Position state', () => {
+    it('should show elapsed time against the goal', () => {
+      expect(getPositionState(300, 1200)).toEqual({ duration: 1200, position: 300, playbackRate: 1 });
+    });
+
+    it('should be open-ended without a goal or in overtime', () => {
+      expect(getPositionState(300, null).duration).toBe(Infinity);
+      expect(getPositionState(1500, 1200)).toEqual({ duration: Infinity, position: 1500, playbackRate: 1 });
+    });
+  });
+
+  describe('Audio name', () => {
+    it('should name predefined and generated sounds', async () => {
+      expect(await resolveAudioName('rain')).toBe('Rain Storm');
+      expect(await resolveAudioName('pink-noise')).toBe('Pink Noise');
+    });
+
+    it('should name soundscapes and playlists', async () => {
+      expect(await resolveAudioName('soundscape-rainy-hearth')).toBe('Rainy Hearth');
+      StorageManager.savePlaylists([{ id: 'playlist-1', name: 'Evening', trackIds: [], shuffle: false }]);
+      expect(await resolveAudioName('playlist-1')).toBe('Evening');
+    });
+
+    it('should use the uploaded file name for custom audio', async () => {
+      StorageManager.updateSettings({ customAudioName: 'chimes.mp3' });
+      expect(await resolveAudioName('custom')).toBe('chimes.mp3');
+    });
+  });
+});
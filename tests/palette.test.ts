@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  kMeans,
+  buildPalette,
+  getPixelColors,
+  getReadableBrightness,
+  computePalette,
+  getContrastRatio,
+  getRelativeLuminance,
+  ensureContrast,
+  hexToRgb,
+  DEFAULT_PALETTE,
+  MIN_CONTRAST,
+  BACKGROUND_BRIGHTNESS
+} from '../utils/palette';
+import { getPaletteCacheKey } from '../utils/colorExtractor';
+import { StorageManager } from '../utils/storage';
+
+// RGBA pixel data made of solid colour blocks, e.g. [[color, count], ...]
+function makePixels(blocks: [[number, number, number], number][]): Uint8ClampedArray {
+  const values: number[] = [];
+  blocks.forEach(([[r, g, b], count]) => {
+    for (let i = 0; i < count; i++) values.push(r, g, b, 255);
+  });
+  return new Uint8ClampedArray(values);
+}
+
+const luminance = (hex: string) => getRelativeLuminance(hexToRgb(hex));
+
+describe('Palette', () => {
+  it('should measure WCAG contrast', () => {
+    expect(getContrastRatio(1, 0)).toBeCloseTo(21);
+    expect(getContrastRatio(0.5, 0.5)).toBe(1);
+    expect(getRelativeLuminance({ r: 255, g: 255, b: 255 })).toBeCloseTo(1);
+  });
+
+  it('should lighten a colour until it meets AA contrast', () => {
+    const background = 0.1;
+    const color = ensureContrast({ r: 60, g: 20, b: 20 }, background);
+    expect(getContrastRatio(getRelativeLuminance(color), background)).toBeGreaterThanOrEqual(MIN_CONTRAST);
+  });
+
+  it('should find the colour groups in the pixels, largest first', () => {
+    const colors = [
+      ...Array(60).fill({ r: 20, g: 40, b: 200 }),
+      ...Array(40).fill({ r: 230, g: 120, b: 30 })
+    ];
+    const clusters = kMeans(colors, 2);
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toEqual({ color: { r: 20, g: 40, b: 200 }, share: 0.6 });
+    expect(clusters[1].share).toBeCloseTo(0.4);
+  });
+
+  it('should give the same clusters for the same pixels', () => {
+    const pixels = makePixels([[[200, 50, 50], 30], [[50, 200, 50], 30], [[50, 50, 200], 30], [[10, 10, 10], 10]]);
+    expect(computePalette(pixels)).toEqual(computePalette(pixels));
+  });
+
+  it('should keep every text colour readable on the dimmed background and surface', () => {
+    const pixels = makePixels([[[250, 240, 200], 50], [[240, 120, 40], 30], [[40, 90, 200], 20]]);
+    const palette = computePalette(pixels);
+    const background = Math.max(luminance(palette.surface), getRelativeLuminance({
+      r: 250 * BACKGROUND_BRIGHTNESS, g: 240 * BACKGROUND_BRIGHTNESS, b: 200 * BACKGROUND_BRIGHTNESS
+    }));
+
+    [palette.primary, palette.primaryDark, palette.primaryLight, palette.secondary, palette.accent].forEach((color) => {
+      expect(getContrastRatio(luminance(color), background)).toBeGreaterThanOrEqual(MIN_CONTRAST);
+    });
+  });
+
+  it('should pick an accent of a different hue', () => {
+    const palette = computePalette(makePixels([[[220, 100, 30], 70], [[30, 80, 220], 30]]));
+    const primary = hexToRgb(palette.primary);
+    const accent = hexToRgb(palette.accent);
+    expect(primary.r).toBeGreaterThan(primary.b);
+    expect(accent.b).toBeGreaterThan(accent.r);
+  });
+
+  it('should build around a locked primary colour', () => {
+    const palette = computePalette(makePixels([[[30, 80, 220], 100]]), { primary: '#f472b6' });
+    expect(palette.primary).toBe('#f472b6');
+    expect(buildPalette([], { primary: '#f472b6' }).primary).toBe('#f472b6');
+  });
+
+  it('should lighten text for a brighter background', () => {
+    const pixels = makePixels([[[150, 140, 130], 80], [[120, 60, 200], 20]]);
+    const bright = computePalette(pixels, { brightness: 0.5 });
+    const background = getRelativeLuminance({ r: 150 * 0.5, g: 140 * 0.5, b: 130 * 0.5 });
+
+    expect(luminance(bright.primary)).toBeGreaterThan(luminance(computePalette(pixels).primary));
+    expect(getContrastRatio(luminance(bright.primary), background)).toBeGreaterThanOrEqual(MIN_CONTRAST);
+  });
+
+  it('should cap the brightness where text could no longer be read', () => {
+    const clusters = kMeans(getPixelColors(makePixels([[[240, 230, 220], 100]])), 1);
+    const capped = getReadableBrightness(clusters, 0.8);
+    const background = getRelativeLuminance({ r: 240 * capped, g: 230 * capped, b: 220 * capped });
+
+    expect(capped).toBeLessThan(0.8);
+    expect(getContrastRatio(1, background)).toBeGreaterThanOrEqual(MIN_CONTRAST - 0.01);
+    expect(getReadableBrightness(kMeans([{ r: 20, g: 30, b: 60 }], 1), 0.8)).toBe(0.8);
+  });
+
+  it('should fall back to the default palette for gray images', () => {
+    expect(buildPalette([])).toEqual(DEFAULT_PALETTE);
+    expect(computePalette(makePixels([[[128, 128, 128], 50], [[20, 20, 20], 50]]))).toEqual(DEFAULT_PALETTE);
+  });
+});
+
+describe('Palette Cache', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should key short URLs directly and long data URLs by hash', () => {
+    expect(getPaletteCacheKey('/media/images/predefined/forest-mist.jpg')).toContain('forest-mist.jpg');
+
+    const dataUrl = 'data:image/png;base64,' + 'A'.repeat(5000);
+    const key = getPaletteCacheKey(dataUrl);
+    expect(key.length).toBeLessThan(40);
+    expect(getPaletteCacheKey(dataUrl)).toBe(key);
+    expect(getPaletteCacheKey(dataUrl + 'B')).not.toBe(key);
+  });
+
+  it('should cache colour clusters per background', () => {
+    const clusters = [{ color: { r: 200, g: 100, b: 50 }, share: 1 }];
+    expect(StorageManager.getCachedClusters('a')).toBeNull();
+    StorageManager.cacheClusters('a', clusters);
+    expect(StorageManager.getCachedClusters('a')).toEqual(clusters);
+  });
+
+  it('should drop the least recently used palettes', () => {
+    for (let i = 0; i < 40; i++) {
+      StorageManager.cacheClusters(`image-${i}`, []);
+    }
+    expect(Object.keys(StorageManager.getPaletteCache()).length).toBeLessThanOrEqual(30);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { LibraryTrack, Playlist } from '../utils/storage';
+import {
+  parseTags,
+  formatTrackDuration,
+  getLibraryTags,
+  getPlaylistTracks,
+  describePlaylist,
+  createPlayOrder,
+  moveTrack,
+  isLibraryTrackId,
+  isPlaylistId
+} from '../utils/playlists';
+
+describe('Playlists', () => {
+  const track = (id: string, durationSeconds: number, tags: string[] = []): LibraryTrack => ({
+    id, name: id, durationSeconds, tags, mimeType: 'audio/mpeg', addedAt: 0
+  });
+  const library = [track('track-a', 90, ['rain']), track('track-b', 150, ['rain', 'night']), track('track-c', 60)];
+  const playlist: Playlist = { id: 'playlist-1', name: 'Evening', trackIds: ['track-b', 'track-gone', 'track-a'], shuffle: false };
+
+  it('should recognize library and playlist ids', () => {
+    expect(isLibraryTrackId('track-a')).toBe(true);
+    expect(isPlaylistId('playlist-1')).toBe(true);
+    expect(isPlaylistId('soundscape-1')).toBe(false);
+    expect(isLibraryTrackId(null)).toBe(false);
+  });
+
+  it('should parse comma-separated tags', () => {
+    expect(parseTags(' Rain, night,,rain ')).toEqual(['rain', 'night']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('should format track lengths', () => {
+    expect(formatTrackDuration(65)).toBe('1:05');
+    expect(formatTrackDuration(3725)).toBe('1:02:05');
+  });
+
+  it('should list library tags sorted', () => {
+    expect(getLibraryTags(library)).toEqual(['night', 'rain']);
+  });
+
+  it('should keep playlist order and skip deleted tracks', () => {
+    expect(getPlaylistTracks(playlist, library).map(t => t.id)).toEqual(['track-b', 'track-a']);
+    expect(describePlaylist(playlist, library)).toBe('2 tracks · 4:00');
+    expect(describePlaylist({ ...playlist, shuffle: true }, library)).toBe('2 tracks · 4:00 · Shuffle');
+  });
+
+  describe('Play order', () => {
+    it('should play in order without shuffle', () => {
+      expect(createPlayOrder(4, false)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should shuffle every track exactly once', () => {
+      const order = createPlayOrder(5, true);
+      expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should not repeat the last track when a new pass starts', () => {
+      // random() = 0.99 leaves the order as listed, so 0 comes first
+      expect(createPlayOrder(3, true, 0, () => 0.99)[0]).not.toBe(0);
+      expect(createPlayOrder(1, true, 0)).toEqual([0]);
+    });
+  });
+
+  it('should move tracks within bounds', () => {
+    expect(moveTrack(['a', 'b', 'c'], 1, -1)).toEqual(['b', 'a', 'c']);
+    expect(moveTrack(['a', 'b', 'c'], 1, 1)).toEqual(['a', 'c', 'b']);
+    expect(moveTrack(['a', 'b', 'c'], 0, -1)).toEqual(['a', 'b', 'c']);
+  });
+});
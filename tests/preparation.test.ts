@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getPreparationRemaining, startPreparationCountdown } from '../utils/preparation';
+import { getCheckpointActiveSeconds } from '../utils/sessionTime';
+import { StorageManager } from '../utils/storage';
+
+describe('Preparation', () => {
+  describe('Remaining seconds', () => {
+    const endsAt = 1_000_000;
+
+    it('should round up to whole seconds', () => {
+      expect(getPreparationRemaining(endsAt, endsAt - 10_000)).toBe(10);
+      expect(getPreparationRemaining(endsAt, endsAt - 9_750)).toBe(10);
+      expect(getPreparationRemaining(endsAt, endsAt - 1)).toBe(1);
+    });
+
+    it('should reach zero at the end and never go negative', () => {
+      expect(getPreparationRemaining(endsAt, endsAt)).toBe(0);
+      expect(getPreparationRemaining(endsAt, endsAt + 5_000)).toBe(0);
+    });
+  });
+
+  describe('Countdown', () => {
+    // Start the session the way App does once preparation finishes
+    const startSession = () => {
+      const now = Date.now();
+      StorageManager.saveSessionCheckpoint({
+        sessionId: 'session-1',
+        userId: 'user-1',
+        startedAt: now,
+        lastCheckpoint: now,
+        elapsedSeconds: 0
+      });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count down and finish once at the end', () => {
+      const ticks: number[] = [];
+      const onFinish = vi.fn();
+      const countdown = startPreparationCountdown(3, remaining => ticks.push(remaining), onFinish);
+
+      vi.advanceTimersByTime(2_999);
+      expect(onFinish).not.toHaveBeenCalled();
+      expect(countdown.isRunning()).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(onFinish).toHaveBeenCalledTimes(1);
+      expect(countdown.isRunning()).toBe(false);
+      expect([...new Set(ticks)]).toEqual([3, 2, 1]);
+
+      vi.advanceTimersByTime(5_000);
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not create a session or checkpoint before the countdown ends', () => {
+      const onFinish = vi.fn(startSession);
+      startPreparationCountdown(10, () => {}, onFinish);
+
+      vi.advanceTimersByTime(9_999);
+      expect(onFinish).not.toHaveBeenCalled();
+      expect(StorageManager.getSessionCheckpoint()).toBeNull();
+
+      vi.advanceTimersByTime(1);
+      expect(StorageManager.getSessionCheckpoint()).not.toBeNull();
+    });
+
+    it('should not count preparation time toward the session', () => {
+      startPreparationCountdown(10, () => {}, startSession);
+
+      vi.advanceTimersByTime(10_000);
+      const checkpoint = StorageManager.getSessionCheckpoint()!;
+      expect(checkpoint.startedAt).toBe(1_000_000 + 10_000);
+
+      vi.advanceTimersByTime(60_000);
+      expect(getCheckpointActiveSeconds(checkpoint, Date.now())).toBe(60);
+    });
+
+    it('should start right away when skipped', () => {
+      const onFinish = vi.fn(startSession);
+      const countdown = startPreparationCountdown(10, () => {}, onFinish);
+
+      vi.advanceTimersByTime(4_000);
+      countdown.skip();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+      expect(StorageManager.getSessionCheckpoint()!.startedAt).toBe(1_000_000 + 4_000);
+
+      // Skipping twice or letting the old end time pass doesn't start it again
+      countdown.skip();
+      vi.advanceTimersByTime(10_000);
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave no session when cancelled during preparation', () => {
+      const ticks: number[] = [];
+      const onFinish = vi.fn(startSession);
+      const countdown = startPreparationCountdown(10, remaining => ticks.push(remaining), onFinish);
+
+      vi.advanceTimersByTime(3_000);
+      countdown.cancel();
+      const ticksAtCancel = ticks.length;
+
+      vi.advanceTimersByTime(20_000);
+      expect(countdown.isRunning()).toBe(false);
+      expect(onFinish).not.toHaveBeenCalled();
+      expect(ticks).toHaveLength(ticksAtCancel);
+      expect(StorageManager.getSessionCheckpoint()).toBeNull();
+
+      // A cancelled countdown can't be skipped into a session either
+      countdown.skip();
+      expect(onFinish).not.toHaveBeenCalled();
+    });
+
+    it('should finish on time when ticks are delayed', () => {
+      const onFinish = vi.fn();
+      startPreparationCountdown(5, () => {}, onFinish);
+
+      // A throttled background tab: the clock moves on without ticks
+      vi.setSystemTime(1_000_000 + 6_000);
+      vi.advanceTimersByTime(250);
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+  });
+});
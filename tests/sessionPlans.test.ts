@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getPlanTotalSeconds, getStageAt, isStageBoundary, describePlan } from '../utils/sessionPlans';
+
+const plan = {
+  id: 'plan-1',
+  name: 'Morning Sit',
+  stages: [
+    { id: 'settle', name: 'Settling', minutes: 2, bellStrikes: 1 },
+    { id: 'practice', name: 'Practice', minutes: 20, bellStrikes: 2 },
+    { id: 'metta', name: 'Loving-Kindness', minutes: 3, bellStrikes: 3 }
+  ]
+};
+
+describe('Session Plans', () => {
+  it('should calculate total plan length', () => {
+    expect(getPlanTotalSeconds(plan)).toBe(25 * 60);
+  });
+
+  it('should find the first stage at session start', () => {
+    const position = getStageAt(plan, 0);
+    expect(position?.index).toBe(0);
+    expect(position?.stage.name).toBe('Settling');
+    expect(position?.endSeconds).toBe(120);
+  });
+
+  it('should move to the next stage exactly at the boundary', () => {
+    expect(getStageAt(plan, 119)?.index).toBe(0);
+    expect(getStageAt(plan, 120)?.index).toBe(1);
+    expect(getStageAt(plan, 22 * 60)?.stage.name).toBe('Loving-Kindness');
+  });
+
+  it('should return null once the plan is complete', () => {
+    expect(getStageAt(plan, 25 * 60)).toBeNull();
+    expect(getStageAt({ ...plan, stages: [] }, 0)).toBeNull();
+  });
+
+  it('should detect stage boundaries', () => {
+    expect(isStageBoundary(plan, 0)).toBe(false);
+    expect(isStageBoundary(plan, 120)).toBe(true);
+    expect(isStageBoundary(plan, 22 * 60)).toBe(true);
+    expect(isStageBoundary(plan, 600)).toBe(false);
+  });
+
+  it('should describe stage lengths', () => {
+    expect(describePlan(plan)).toBe('2 · 20 · 3 min');
+  });
+});
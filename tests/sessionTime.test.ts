@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getPausedMs, getActiveSeconds, isPaused, getCheckpointActiveSeconds } from '../utils/sessionTime';
+
+describe('Session Time', () => {
+  const startedAt = 1_000_000;
+
+  describe('Without pauses', () => {
+    it('should count wall clock time', () => {
+      expect(getActiveSeconds(startedAt, undefined, startedAt + 90_000)).toBe(90);
+      expect(getActiveSeconds(startedAt, [], startedAt + 90_000)).toBe(90);
+    });
+  });
+
+  describe('With paused intervals', () => {
+    it('should subtract closed paused intervals', () => {
+      const paused = [{ start: startedAt + 60_000, end: startedAt + 120_000 }];
+      expect(getActiveSeconds(startedAt, paused, startedAt + 300_000)).toBe(240);
+    });
+
+    it('should subtract an open pause up to now', () => {
+      const paused = [{ start: startedAt + 60_000, end: null }];
+      // Time stands still while paused
+      expect(getActiveSeconds(startedAt, paused, startedAt + 60_000)).toBe(60);
+      expect(getActiveSeconds(startedAt, paused, startedAt + 600_000)).toBe(60);
+    });
+
+    it('should add up several pauses', () => {
+      const paused = [
+        { start: startedAt + 10_000, end: startedAt + 20_000 },
+        { start: startedAt + 30_000, end: startedAt + 45_000 }
+      ];
+      expect(getPausedMs(startedAt, paused, startedAt + 60_000)).toBe(25_000);
+      expect(getActiveSeconds(startedAt, paused, startedAt + 60_000)).toBe(35);
+    });
+
+    it('should ignore pause time before the session started', () => {
+      const paused = [{ start: startedAt - 30_000, end: startedAt + 10_000 }];
+      expect(getPausedMs(startedAt, paused, startedAt + 60_000)).toBe(10_000);
+    });
+
+    it('should detect an open pause', () => {
+      expect(isPaused(undefined)).toBe(false);
+      expect(isPaused([{ start: startedAt, end: startedAt + 1000 }])).toBe(false);
+      expect(isPaused([{ start: startedAt, end: null }])).toBe(true);
+    });
+  });
+
+  describe('Orphan recovery', () => {
+    it('should close an open pause at the last checkpoint', () => {
+      const checkpoint = {
+        sessionId: 'session-123',
+        userId: 'user-456',
+        startedAt,
+        lastCheckpoint: startedAt + 2 * 3600_000,
+        elapsedSeconds: 3600,
+        pausedIntervals: [{ start: startedAt + 3600_000, end: null }]
+      };
+      // Paused after one hour and never resumed - only the first hour counts
+      expect(getCheckpointActiveSeconds(checkpoint, checkpoint.lastCheckpoint)).toBe(3600);
+    });
+  });
+});
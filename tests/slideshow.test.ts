@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import type { SlideshowSettings } from '../utils/storage';
+import { getSlideshowImageIds, getFirstSlideIndex, getKenBurnsVariant, KEN_BURNS_VARIANTS } from '../utils/slideshow';
+
+describe('Slideshow', () => {
+  const settings: SlideshowSettings = {
+    enabled: true,
+    imageIds: ['ocean-sunset', 'custom', 'forest-mist', 'ocean-sunset', 'removed-image'],
+    intervalSeconds: 60,
+    motion: true
+  };
+
+  describe('Images', () => {
+    it('should keep known images once, in order', () => {
+      expect(getSlideshowImageIds(settings, true)).toEqual(['ocean-sunset', 'custom', 'forest-mist']);
+    });
+
+    it('should leave out the custom image when none is uploaded', () => {
+      expect(getSlideshowImageIds(settings, false)).toEqual(['ocean-sunset', 'forest-mist']);
+    });
+
+    it('should not run when off or with fewer than two images', () => {
+      expect(getSlideshowImageIds({ ...settings, enabled: false }, true)).toEqual([]);
+      expect(getSlideshowImageIds({ ...settings, imageIds: ['forest-mist'] }, true)).toEqual([]);
+    });
+  });
+
+  it('should start at the selected background when it is included', () => {
+    expect(getFirstSlideIndex(['ocean-sunset', 'forest-mist'], 'forest-mist')).toBe(1);
+    expect(getFirstSlideIndex(['ocean-sunset', 'forest-mist'], 'mountain-sunrise')).toBe(0);
+    expect(getFirstSlideIndex(['ocean-sunset', 'forest-mist'], null)).toBe(0);
+  });
+
+  it('should vary the motion between consecutive slides', () => {
+    expect(getKenBurnsVariant(1)).not.toBe(getKenBurnsVariant(0));
+    expect(getKenBurnsVariant(KEN_BURNS_VARIANTS)).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { isSoundscapeId, describeSoundscape, getAudibleLayers, createSoundscape } from '../utils/soundscapes';
+
+describe('Soundscapes', () => {
+  const soundscape = {
+    id: 'soundscape-test',
+    name: 'Rainy Hearth',
+    layers: [
+      { audioId: 'rain', volume: 0.7 },
+      { audioId: 'fire', volume: 0.5 },
+      { audioId: 'om-mantra', volume: 0.3 }
+    ]
+  };
+
+  it('should tell soundscape ids apart from audio ids', () => {
+    expect(isSoundscapeId('soundscape-test')).toBe(true);
+    expect(isSoundscapeId(createSoundscape().id)).toBe(true);
+    expect(isSoundscapeId('rain')).toBe(false);
+    expect(isSoundscapeId('custom')).toBe(false);
+    expect(isSoundscapeId(null)).toBe(false);
+  });
+
+  it('should describe the mix by layer names', () => {
+    expect(describeSoundscape(soundscape)).toBe('Rain Storm + Crackling Fire + Om Mantra Chant');
+    expect(describeSoundscape({ ...soundscape, layers: [{ audioId: 'custom', volume: 1 }] }, 'bowls.mp3')).toBe('bowls.mp3');
+  });
+
+  describe('Audible layers', () => {
+    it('should keep every layer with volume', () => {
+      expect(getAudibleLayers(soundscape)).toHaveLength(3);
+    });
+
+    it('should drop muted, silent and duplicate layers', () => {
+      const layers = getAudibleLayers({
+        ...soundscape,
+        layers: [
+          { audioId: 'rain', volume: 0.7 },
+          { audioId: 'fire', volume: 0 },
+          { audioId: 'silence', volume: 1 },
+          { audioId: 'rain', volume: 0.2 }
+        ]
+      });
+      expect(layers).toEqual([{ audioId: 'rain', volume: 0.7 }]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  StorageSchema,
+  isNumber,
+  isString,
+  isRecord,
+  parseJson,
+  readVersioned,
+  repairFields,
+  writeVersioned
+} from '../utils/storageSchema';
+import { StorageManager } from '../utils/storage';
+
+// A key that has been through two shape changes
+interface Reminder {
+  label: string;
+  minutes: number;
+}
+
+const REMINDER_SCHEMA: StorageSchema<Reminder> = {
+  version: 2,
+  migrations: {
+    0: parseJson,
+    // Version 1 stored seconds
+    1: data => (isRecord(data) && isNumber(data.seconds) ? { label: data.label, minutes: data.seconds / 60 } : data)
+  },
+  validate: data => (isRecord(data) ? repairFields<Reminder>(data, { label: isString, minutes: isNumber }, { label: 'Reminder', minutes: 10 }) : null)
+};
+
+describe('Storage Schema', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should migrate values from before envelopes existed', () => {
+    expect(readVersioned('{"label":"Stretch","seconds":300}', REMINDER_SCHEMA)).toEqual({ label: 'Stretch', minutes: 5 });
+  });
+
+  it('should run only the migrations after the stored version', () => {
+    const stored = JSON.stringify({ version: 1, data: { label: 'Tea', seconds: 120 } });
+    expect(readVersioned(stored, REMINDER_SCHEMA)).toEqual({ label: 'Tea', minutes: 2 });
+    expect(readVersioned(writeVersioned({ label: 'Walk', minutes: 15 }, REMINDER_SCHEMA), REMINDER_SCHEMA))
+      .toEqual({ label: 'Walk', minutes: 15 });
+  });
+
+  it('should validate values written by a newer version as they are', () => {
+    const stored = JSON.stringify({ version: 5, data: { label: 'Sit', minutes: 20, repeat: true } });
+    expect(readVersioned(stored, REMINDER_SCHEMA)).toEqual({ label: 'Sit', minutes: 20, repeat: true });
+  });
+
+  it('should repair invalid fields instead of dropping the value', () => {
+    const stored = writeVersioned({ label: 7, minutes: 25 } as unknown as Reminder, REMINDER_SCHEMA);
+    expect(readVersioned(stored, REMINDER_SCHEMA)).toEqual({ label: 'Reminder', minutes: 25 });
+    expect(readVersioned('not json', REMINDER_SCHEMA)).toBeNull();
+    expect(readVersioned(null, REMINDER_SCHEMA)).toBeNull();
+  });
+
+  it('should drop invalid fields that have no default', () => {
+    expect(repairFields({ a: 'x', b: 'y' }, { a: isString, b: isNumber })).toEqual({ a: 'x' });
+    expect(repairFields({}, { a: isString })).toEqual({});
+  });
+
+  it('should read settings saved before envelopes and write them versioned', () => {
+    localStorage.setItem('om-user-settings', JSON.stringify({
+      userId: 'user-1',
+      displayName: 'Quiet Heron',
+      selectedAudioId: 'om-mantra',
+      selectedImageId: 'forest-mist',
+      customAudioName: null,
+      customImageName: null
+    }));
+
+    expect(StorageManager.getSettings().selectedImageId).toBe('forest-mist');
+
+    StorageManager.updateSettings({ selectedAudioId: 'silence' });
+    const stored = JSON.parse(localStorage.getItem('om-user-settings')!);
+    expect(stored.version).toBe(1);
+    expect(stored.data.selectedAudioId).toBe('silence');
+    expect(stored.data.selectedImageId).toBe('forest-mist');
+  });
+
+  it('should repair broken settings fields and keep the rest', () => {
+    localStorage.setItem('om-user-settings', JSON.stringify({
+      version: 1,
+      data: {
+        userId: 'user-1',
+        displayName: 'Quiet Heron',
+        selectedAudioId: 42,
+        selectedImageId: 'forest-mist',
+        customAudioName: null,
+        customImageName: null,
+        timerPresets: 'broken',
+        volumeSettings: { masterVolume: 'loud', fadeInSeconds: 8 }
+      }
+    }));
+
+    const settings = StorageManager.getSettings();
+    expect(settings.selectedAudioId).toBeNull();
+    expect(settings.selectedImageId).toBe('forest-mist');
+    expect(StorageManager.hasCustomTimerPresets()).toBe(false);
+    expect(StorageManager.getVolumeSettings()).toEqual({ masterVolume: 0.8, fadeInSeconds: 8, fadeOutSeconds: 5 });
+  });
+
+  it('should keep legacy plain-text ids', () => {
+    localStorage.setItem('om-user-id', 'legacy-user');
+    localStorage.setItem('om-display-name', 'Calm River');
+    expect(StorageManager.getUserId()).toBe('legacy-user');
+    expect(StorageManager.getDisplayName()).toBe('Calm River');
+  });
+
+  it('should drop unusable sessions but keep the valid ones', () => {
+    localStorage.setItem('om-session-checkpoint', JSON.stringify({ sessionId: 's1', startedAt: 'yesterday' }));
+    expect(StorageManager.getSessionCheckpoint()).toBeNull();
+
+    localStorage.setItem('om-session-history', JSON.stringify([
+      { sessionId: 's1', startedAt: 1, endedAt: 61, durationSeconds: 60, breathCycles: 'many' },
+      { sessionId: 's2' }
+    ]));
+    expect(StorageManager.getSessionHistory()).toEqual([
+      { sessionId: 's1', startedAt: 1, endedAt: 61, durationSeconds: 60 }
+    ]);
+  });
+
+  it('should fill missing stats fields with defaults', () => {
+    localStorage.setItem('om-local-stats', JSON.stringify({ totalSeconds: 600 }));
+    expect(StorageManager.getLocalStats()).toEqual({ totalSeconds: 600, lastSession: null, sessionsCount: 0 });
+  });
+});
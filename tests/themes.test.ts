@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sanitizeThemeSettings,
+  sanitizeThemeColors,
+  createTheme,
+  getThemeSettings,
+  getOverlayGradient,
+  MIN_BRIGHTNESS,
+  MAX_BRIGHTNESS
+} from '../utils/themes';
+
+describe('Themes', () => {
+  const theme = { primary: '#A78BFA', brightness: 0.4, overlay: 0.5 };
+
+  it('should keep well-formed theme settings', () => {
+    expect(sanitizeThemeSettings(theme)).toEqual({ primary: '#a78bfa', brightness: 0.4, overlay: 0.5 });
+    expect(sanitizeThemeSettings({ ...theme, primary: null })?.primary).toBeNull();
+    expect(sanitizeThemeSettings({ ...theme, primary: 'red' })?.primary).toBeNull();
+  });
+
+  it('should clamp out-of-range values', () => {
+    expect(sanitizeThemeSettings({ ...theme, brightness: 2, overlay: -1 })).toMatchObject({
+      brightness: MAX_BRIGHTNESS,
+      overlay: 0
+    });
+    expect(sanitizeThemeSettings({ ...theme, brightness: 0 })?.brightness).toBe(MIN_BRIGHTNESS);
+  });
+
+  it('should reject malformed synced themes', () => {
+    expect(sanitizeThemeColors(null)).toBeNull();
+    expect(sanitizeThemeColors('blue')).toBeNull();
+    expect(sanitizeThemeColors({ themes: [] })).toBeNull();
+    expect(sanitizeThemeSettings({ primary: '#ffffff' })).toBeNull();
+  });
+
+  it('should drop malformed saved themes and keep the rest', () => {
+    const synced = sanitizeThemeColors({
+      current: theme,
+      themes: [
+        { id: 'theme-1', name: 'Dusk', ...theme },
+        { id: 'theme-2', ...theme },
+        { id: 'theme-3', name: 'Broken', primary: '#ffffff' }
+      ]
+    });
+    expect(synced?.themes.map(t => t.name)).toEqual(['Dusk']);
+  });
+
+  it('should save the current settings under a name', () => {
+    const saved = createTheme('  Evening  ', { primary: null, brightness: 0.3, overlay: 1 });
+    expect(saved.id).toMatch(/^theme-/);
+    expect(saved.name).toBe('Evening');
+    expect(createTheme('', getThemeSettings(saved)).name).toBe('My Theme');
+    expect(getThemeSettings(saved)).toEqual({ primary: null, brightness: 0.3, overlay: 1 });
+  });
+
+  it('should shade the overlay gradient', () => {
+    expect(getOverlayGradient(1)).toContain('rgba(0, 0, 0, 0.6)');
+    expect(getOverlayGradient(0)).toContain('rgba(0, 0, 0, 0)');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getActiveWindow,
+  getCurrentTimeWindow,
+  getCurrentTheme,
+  resolveWindowTheme,
+  formatStartTime,
+  parseStartTime,
+  NIGHT_THEME,
+  NIGHT_THEME_ID
+} from '../utils/timeOfDay';
+import { StorageManager } from '../utils/storage';
+
+const at = (hours: number, minutes = 0) => new Date(2026, 0, 15, hours, minutes);
+
+describe('Time of Day', () => {
+  const windows = [
+    { id: 'evening', name: 'Evening', startMinutes: 17 * 60, imageId: 'ocean-sunset', themeId: null },
+    { id: 'morning', name: 'Morning', startMinutes: 5 * 60, imageId: 'mountain-sunrise', themeId: null },
+    { id: 'night', name: 'Night', startMinutes: 21 * 60, imageId: 'drifting-particles', themeId: NIGHT_THEME_ID }
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should pick the window that started last', () => {
+    expect(getActiveWindow(windows, at(5))?.id).toBe('morning');
+    expect(getActiveWindow(windows, at(16, 59))?.id).toBe('morning');
+    expect(getActiveWindow(windows, at(17))?.id).toBe('evening');
+    expect(getActiveWindow(windows, at(23, 30))?.id).toBe('night');
+  });
+
+  it('should carry the last window over past midnight', () => {
+    expect(getActiveWindow(windows, at(0, 10))?.id).toBe('night');
+    expect(getActiveWindow(windows, at(4, 59))?.id).toBe('night');
+    expect(getActiveWindow([], at(12))).toBeNull();
+  });
+
+  it('should resolve window themes', () => {
+    const saved = [{ id: 'theme-1', name: 'Dawn', primary: '#facc15', brightness: 0.5, overlay: 0.4 }];
+    expect(resolveWindowTheme(NIGHT_THEME_ID, saved)).toEqual(NIGHT_THEME);
+    expect(resolveWindowTheme('theme-1', saved)).toEqual({ primary: '#facc15', brightness: 0.5, overlay: 0.4 });
+    expect(resolveWindowTheme(null, saved)).toBeNull();
+    expect(resolveWindowTheme('theme-deleted', saved)).toBeNull();
+  });
+
+  it('should only take over when switched on', () => {
+    expect(getCurrentTimeWindow(at(22))).toBeNull();
+    expect(getCurrentTheme(at(22))).toEqual(StorageManager.getThemeSettings());
+
+    StorageManager.updateTimeOfDaySettings({ enabled: true });
+    expect(getCurrentTimeWindow(at(22))?.id).toBe('night');
+    expect(getCurrentTheme(at(22))).toEqual(NIGHT_THEME);
+    expect(getCurrentTheme(at(12))).toEqual(StorageManager.getThemeSettings());
+  });
+
+  it('should convert start times for the time input', () => {
+    expect(formatStartTime(5 * 60)).toBe('05:00');
+    expect(formatStartTime(21 * 60 + 30)).toBe('21:30');
+    expect(parseStartTime('06:45')).toBe(6 * 60 + 45);
+    expect(parseStartTime('25:00')).toBeNull();
+    expect(parseStartTime('')).toBeNull();
+  });
+});
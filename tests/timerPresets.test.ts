@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { formatPresetDuration, getPresetLabel, movePreset, sanitizePresets, createPreset } from '../utils/timerPresets';
+
+describe('Timer Presets', () => {
+  const presets = [
+    { id: 'a', label: 'Morning 25', minutes: 25 },
+    { id: 'b', label: 'Zazen 40', minutes: 40 },
+    { id: 'c', label: '', minutes: 90 }
+  ];
+
+  describe('Labels', () => {
+    it('should format durations like the original buttons', () => {
+      expect(formatPresetDuration(10)).toBe('10 Min');
+      expect(formatPresetDuration(60)).toBe('1 Hour');
+      expect(formatPresetDuration(120)).toBe('2 Hours');
+      expect(formatPresetDuration(90)).toBe('1 Hour 30 Min');
+    });
+
+    it('should fall back to the duration when the label is empty', () => {
+      expect(getPresetLabel(presets[0])).toBe('Morning 25');
+      expect(getPresetLabel(presets[2])).toBe('1 Hour 30 Min');
+      expect(getPresetLabel({ id: 'd', label: '   ', minutes: 5 })).toBe('5 Min');
+    });
+  });
+
+  describe('Reordering', () => {
+    it('should move a preset up or down', () => {
+      expect(movePreset(presets, 'b', -1).map(p => p.id)).toEqual(['b', 'a', 'c']);
+      expect(movePreset(presets, 'b', 1).map(p => p.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should not move past either end', () => {
+      expect(movePreset(presets, 'a', -1)).toBe(presets);
+      expect(movePreset(presets, 'c', 1)).toBe(presets);
+      expect(movePreset(presets, 'missing', 1)).toBe(presets);
+    });
+
+    it('should not modify the original list', () => {
+      movePreset(presets, 'a', 1);
+      expect(presets.map(p => p.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('Sanitizing synced presets', () => {
+    it('should return null when nothing was saved', () => {
+      expect(sanitizePresets(null)).toBeNull();
+      expect(sanitizePresets('oops')).toBeNull();
+    });
+
+    it('should drop malformed entries and fill missing fields', () => {
+      const result = sanitizePresets([
+        { id: 'a', label: 'Morning', minutes: 25, audioId: 'rain' },
+        { id: 'b', minutes: 0 },
+        { label: 'No id', minutes: 10 },
+        { id: 'c', minutes: 15 }
+      ]);
+      expect(result).toEqual([
+        { id: 'a', label: 'Morning', minutes: 25, audioId: 'rain', imageId: null },
+        { id: 'c', label: '', minutes: 15, audioId: null, imageId: null }
+      ]);
+    });
+
+    it('should keep an empty list (user deleted every preset)', () => {
+      expect(sanitizePresets([])).toEqual([]);
+    });
+  });
+
+  it('should create presets with unique ids', () => {
+    expect(createPreset().id).not.toBe(createPreset().id);
+    expect(createPreset(40).minutes).toBe(40);
+  });
+});
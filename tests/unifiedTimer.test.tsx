@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, act, cleanup } from '@testing-library/react';
+import { UnifiedTimer } from '../components/UnifiedTimer';
+import { StorageManager } from '../utils/storage';
+import { playBell } from '../utils/bellPlayer';
+
+vi.mock('../utils/bellPlayer', () => ({
+  playBell: vi.fn(),
+  preloadBell: vi.fn()
+}));
+
+vi.mock('../utils/cuePlayer', () => ({
+  playCue: vi.fn(),
+  stopCue: vi.fn()
+}));
+
+const NOW = 1_000_000_000;
+
+// Settle for 2 minutes, then sit for 10
+const PLAN = {
+  id: 'plan-1',
+  name: 'Morning',
+  stages: [
+    { id: 'settle', name: 'Settle', minutes: 2, bellStrikes: 1 },
+    { id: 'sit', name: 'Sit', minutes: 10, bellStrikes: 2 }
+  ]
+};
+
+// A session that has been running for `elapsedSeconds`
+const restoreCheckpoint = (elapsedSeconds: number) => {
+  const startedAt = NOW - elapsedSeconds * 1000;
+  StorageManager.saveSessionCheckpoint({
+    sessionId: 'session-1',
+    userId: 'user-1',
+    startedAt,
+    lastCheckpoint: NOW,
+    elapsedSeconds
+  });
+};
+
+// Mount the timer and let a few ticks run
+const renderTimer = () => {
+  render(<UnifiedTimer isMuted={false} />);
+  act(() => {
+    vi.advanceTimersByTime(3_000);
+  });
+};
+
+describe('Unified Timer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.mocked(playBell).mockClear();
+    StorageManager.saveSessionPlans([PLAN]);
+    StorageManager.updateTimerSettings({ type: 'plan', planId: PLAN.id, intervalBells: { mode: 'off' } });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('should not ring the current stage bell again after a reload', () => {
+    restoreCheckpoint(5 * 60);  // Inside the second stage
+    renderTimer();
+    expect(playBell).not.toHaveBeenCalled();
+  });
+
+  it('should still ring the stage bell when the next stage begins', () => {
+    restoreCheckpoint(119);
+    renderTimer();
+    expect(playBell).toHaveBeenCalledTimes(1);
+    expect(playBell).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageManager } from '../utils/storage';
+
+describe('Volume Settings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to a master volume of 0.8', () => {
+    expect(StorageManager.getVolumeSettings()).toEqual({ masterVolume: 0.8, fadeInSeconds: 3, fadeOutSeconds: 5 });
+  });
+
+  it('should persist the master volume through the settings schema', () => {
+    StorageManager.updateVolumeSettings({ masterVolume: 0.35 });
+
+    const stored = JSON.parse(localStorage.getItem('om-user-settings')!);
+    expect(stored.version).toBe(1);
+    expect(stored.data.volumeSettings).toEqual({ masterVolume: 0.35, fadeInSeconds: 3, fadeOutSeconds: 5 });
+    expect(StorageManager.getVolumeSettings().masterVolume).toBe(0.35);
+  });
+
+  it('should keep the other fields on a partial update', () => {
+    StorageManager.updateVolumeSettings({ fadeOutSeconds: 20 });
+    StorageManager.updateVolumeSettings({ masterVolume: 0.5 });
+    expect(StorageManager.getVolumeSettings()).toEqual({ masterVolume: 0.5, fadeInSeconds: 3, fadeOutSeconds: 20 });
+  });
+
+  it('should clamp values saved out of range', () => {
+    StorageManager.updateVolumeSettings({ masterVolume: 1.5, fadeInSeconds: -3 });
+    expect(StorageManager.getVolumeSettings()).toEqual({ masterVolume: 1, fadeInSeconds: 0, fadeOutSeconds: 5 });
+
+    StorageManager.updateVolumeSettings({ masterVolume: -0.2 });
+    expect(StorageManager.getVolumeSettings().masterVolume).toBe(0);
+  });
+
+  it('should clamp out-of-range values already in storage', () => {
+    localStorage.setItem('om-user-settings', JSON.stringify({
+      version: 1,
+      data: { userId: 'user-1', displayName: 'Quiet Heron', volumeSettings: { masterVolume: 4, fadeInSeconds: 3, fadeOutSeconds: -1 } }
+    }));
+    expect(StorageManager.getVolumeSettings()).toEqual({ masterVolume: 1, fadeInSeconds: 3, fadeOutSeconds: 0 });
+  });
+
+  it('should fall back to the default when the stored volume is not a number', () => {
+    localStorage.setItem('om-user-settings', JSON.stringify({
+      version: 1,
+      data: { userId: 'user-1', displayName: 'Quiet Heron', volumeSettings: { masterVolume: null, fadeInSeconds: 3, fadeOutSeconds: 5 } }
+    }));
+    expect(StorageManager.getVolumeSettings().masterVolume).toBe(0.8);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Audio Context - Shared Web Audio context for synthesized sounds
+ * Browsers limit how many contexts a page may open, so everything shares one.
+ * Also unlocks audio elements from a gesture, for sound started later by a timer.
+ */
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Get the shared AudioContext (null when Web Audio is unavailable).
+ * Resumes it if the browser suspended it before the first user gesture.
+ */
+export function getAudioContext(): AudioContext | null {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {});
+  }
+  return audioContext;
+}
+
+/**
+ * Unlock an audio element inside a user gesture, so a later play() from a
+ * timer isn't blocked (Safari/iOS). Plays it muted and stops it at once - a
+ * real play() started meanwhile unmutes it and keeps playing.
+ */
+export function primeAudioElement(audio: HTMLAudioElement): void {
+  audio.muted = true;
+  audio.play()
+    .then(() => {
+      if (audio.muted) {
+        audio.pause();
+      }
+    })
+    .catch(() => {})
+    .finally(() => {
+      audio.muted = false;
+    });
+}
@@ -0,0 +1,56 @@
+/**
+ * Backgrounds - Resolve the selected background to an image or looping video
+ * Predefined images and videos come from the media catalog; the custom image
+ * and custom video are single uploads kept in MediaCache.
+ */
+
+import { mediaCache } from './storage';
+import { PREDEFINED_IMAGES, PREDEFINED_VIDEOS } from './mediaCatalog';
+
+export const CUSTOM_VIDEO_ID = 'custom-video';
+
+// Upload limits - videos get more room than images
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 25 * 1024 * 1024;
+
+export interface ResolvedBackground {
+  url: string;
+  kind: 'image' | 'video';
+}
+
+/**
+ * Whether a background id refers to a video
+ */
+export function isVideoBackground(id: string | null | undefined): boolean {
+  return id === CUSTOM_VIDEO_ID || PREDEFINED_VIDEOS.some(video => video.id === id);
+}
+
+/**
+ * Resolve an image id to a URL (falls back to the first predefined image)
+ */
+export async function resolveImageUrl(imageId: string | null): Promise<string> {
+  if (imageId === 'custom') {
+    const customImage = await mediaCache.getFile('image');
+    if (customImage) {
+      return customImage.url;
+    }
+  }
+  return (PREDEFINED_IMAGES.find(image => image.id === imageId) || PREDEFINED_IMAGES[0]).path;
+}
+
+/**
+ * Resolve any background id - a missing video falls back to the first image
+ */
+export async function resolveBackground(backgroundId: string | null): Promise<ResolvedBackground> {
+  if (backgroundId === CUSTOM_VIDEO_ID) {
+    const customVideo = await mediaCache.getFile('video');
+    if (customVideo) {
+      return { url: customVideo.url, kind: 'video' };
+    }
+  }
+  const video = PREDEFINED_VIDEOS.find(item => item.id === backgroundId);
+  if (video) {
+    return { url: video.path, kind: 'video' };
+  }
+  return { url: await resolveImageUrl(backgroundId), kind: 'image' };
+}
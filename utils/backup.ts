@@ -0,0 +1,325 @@
+/**
+ * Backup - Export everything kept in this browser to one file and restore it
+ * The user ID, display name, settings, local stats, session history, custom
+ * uploads and the audio library travel together in a JSON file (files as
+ * data URLs), so moving to another browser keeps the same identity.
+ *
+ * Restoring either replaces the local data or merges into it: the backup's
+ * identity, settings and files win, while lists (plans, presets, playlists,
+ * themes...), sessions and library tracks that only exist locally are kept.
+ */
+
+import { StorageManager, mediaCache } from './storage';
+import type { LibraryTrack, LocalStats, MediaType, SessionRecord, UserSettings } from './storage';
+import { blobToDataUrl, dataUrlToBlob, isDataUrl } from './mediaBlobs';
+import { hasFields, isArrayOf, isNumber, isRecord, isString } from './storageSchema';
+
+export const BACKUP_FORMAT = 'om-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupMode = 'merge' | 'replace';
+
+// Kinds of single upload, with the name shown when describing an import
+const MEDIA_LABELS: Record<MediaType, string> = {
+  audio: 'Custom audio',
+  image: 'Custom image',
+  bell: 'Custom bell',
+  video: 'Custom video'
+};
+
+// Settings lists merged item by item (by id) instead of replaced
+const MERGED_SETTINGS_LISTS = ['sessionPlans', 'timerPresets', 'soundscapes', 'playlists', 'cueScripts', 'savedThemes'] as const;
+
+export interface BackupMediaFile {
+  type: MediaType;
+  name: string;
+  mimeType: string;
+  data: string;  // data URL
+}
+
+export interface BackupLibraryTrack {
+  track: LibraryTrack;
+  data: string;  // data URL
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;  // timestamp
+  userId: string;
+  displayName: string;
+  settings: UserSettings;
+  localStats: LocalStats;
+  sessionHistory: SessionRecord[];
+  media: BackupMediaFile[];
+  library: BackupLibraryTrack[];
+}
+
+// What this browser holds now, to compare a backup against (no file contents)
+export interface LocalSnapshot {
+  userId: string;
+  displayName: string;
+  settings: UserSettings;
+  sessionHistory: SessionRecord[];
+  mediaNames: Partial<Record<MediaType, string>>;
+  libraryTrackIds: string[];
+}
+
+/**
+ * Gather everything into a backup (reads every stored file)
+ */
+export async function createBackup(): Promise<Backup> {
+  const media: BackupMediaFile[] = [];
+  for (const type of Object.keys(MEDIA_LABELS) as MediaType[]) {
+    const file = await mediaCache.getStoredFile(type);
+    if (file) {
+      media.push({ type, name: file.name, mimeType: file.mimeType, data: await blobToDataUrl(file.blob) });
+    }
+  }
+
+  const library: BackupLibraryTrack[] = [];
+  for (const track of await mediaCache.getLibraryTracks()) {
+    const blob = await mediaCache.getLibraryTrackBlob(track.id);
+    if (blob) {
+      library.push({ track, data: await blobToDataUrl(blob) });
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    userId: StorageManager.getUserId(),
+    displayName: StorageManager.getDisplayName(),
+    settings: StorageManager.getSettings(),
+    localStats: StorageManager.getLocalStats(),
+    sessionHistory: StorageManager.getSessionHistory(),
+    media,
+    library
+  };
+}
+
+/**
+ * Serialize a backup for download
+ */
+export function exportBackup(backup: Backup): string {
+  return JSON.stringify(backup);
+}
+
+/**
+ * File name for a backup made on a given day
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `meditation-timer-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+}
+
+/**
+ * Read a backup file. Throws an Error describing the problem when the file
+ * isn't a valid backup. Settings, stats and sessions are repaired field by
+ * field when read back from storage, so only their overall shape is checked.
+ */
+export function parseBackup(json: string): Backup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a backup.');
+  }
+  if (!isNumber(data.version) || data.version > BACKUP_VERSION) {
+    throw new Error('The backup was made with a newer version of the app.');
+  }
+  if (!isString(data.userId) || !data.userId || !isString(data.displayName)) {
+    throw new Error('The backup has no user ID.');
+  }
+  if (!isRecord(data.settings) || !isRecord(data.localStats) || !Array.isArray(data.sessionHistory)) {
+    throw new Error('The backup is missing its settings or sessions.');
+  }
+
+  const isMediaFile = (item: unknown) => hasFields(item, { type: isString, name: isString, mimeType: isString, data: isDataUrl }) &&
+    (item.type as string) in MEDIA_LABELS;
+  if (!isArrayOf(isMediaFile)(data.media)) {
+    throw new Error('The backup has an unreadable custom file.');
+  }
+
+  const isLibraryTrack = (item: unknown) => hasFields(item, { data: isDataUrl }) &&
+    hasFields(item.track, { id: isString, name: isString, durationSeconds: isNumber, tags: isArrayOf(isString), mimeType: isString, addedAt: isNumber });
+  if (!isArrayOf(isLibraryTrack)(data.library)) {
+    throw new Error('The backup has an unreadable library track.');
+  }
+
+  return data as unknown as Backup;
+}
+
+/**
+ * What this browser holds now (metadata only)
+ */
+export async function getLocalSnapshot(): Promise<LocalSnapshot> {
+  const mediaNames: Partial<Record<MediaType, string>> = {};
+  for (const type of Object.keys(MEDIA_LABELS) as MediaType[]) {
+    const file = await mediaCache.getFile(type);
+    if (file) {
+      mediaNames[type] = file.name;
+    }
+  }
+
+  return {
+    userId: StorageManager.getUserId(),
+    displayName: StorageManager.getDisplayName(),
+    settings: StorageManager.getSettings(),
+    sessionHistory: StorageManager.getSessionHistory(),
+    mediaNames,
+    libraryTrackIds: (await mediaCache.getLibraryTracks()).map(track => track.id)
+  };
+}
+
+// Items from both lists, by id - the incoming version wins, local-only items stay (in order)
+function mergeById<T extends { id: string }>(local: T[] | undefined, incoming: T[] | undefined): T[] | undefined {
+  if (!local) return incoming;
+  if (!incoming) return local;
+  const incomingIds = new Set(incoming.map(item => item.id));
+  return [...incoming, ...local.filter(item => !incomingIds.has(item.id))];
+}
+
+/**
+ * Settings after merging a backup in - the backup's values win, lists are
+ * combined by id and fields only set locally are kept
+ */
+export function mergeSettings(local: UserSettings, incoming: UserSettings): UserSettings {
+  const merged: UserSettings = { ...local, ...incoming };
+  MERGED_SETTINGS_LISTS.forEach((key) => {
+    (merged as unknown as Record<string, unknown>)[key] = mergeById(
+      local[key] as { id: string }[] | undefined,
+      incoming[key] as { id: string }[] | undefined
+    );
+  });
+  return merged;
+}
+
+/**
+ * Sessions from both histories without duplicates, newest first
+ */
+export function mergeSessionHistory(local: SessionRecord[], incoming: SessionRecord[]): SessionRecord[] {
+  const localIds = new Set(local.map(record => record.sessionId));
+  return [...local, ...incoming.filter(record => !localIds.has(record.sessionId))]
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Settings whose stored value differs between the two (identity aside)
+function countChangedSettings(local: UserSettings, incoming: UserSettings): number {
+  return Object.keys(incoming)
+    .filter(key => key !== 'userId' && key !== 'displayName')
+    .filter(key => JSON.stringify(local[key as keyof UserSettings]) !== JSON.stringify(incoming[key as keyof UserSettings]))
+    .length;
+}
+
+/**
+ * Describe what restoring a backup will overwrite, one line per change
+ * (empty when nothing changes)
+ */
+export function describeImport(backup: Backup, local: LocalSnapshot, mode: BackupMode): string[] {
+  const changes: string[] = [];
+
+  if (backup.userId !== local.userId) {
+    changes.push(`User ID ${local.userId.slice(0, 8)} becomes ${backup.userId.slice(0, 8)} (stats and leaderboard follow it)`);
+  }
+  if (backup.displayName !== local.displayName) {
+    changes.push(`Display name "${local.displayName}" becomes "${backup.displayName}"`);
+  }
+
+  const changedSettings = countChangedSettings(local.settings, backup.settings);
+  if (mode === 'replace') {
+    changes.push('All settings are replaced');
+  } else if (changedSettings > 0) {
+    changes.push(`${changedSettings} setting${changedSettings === 1 ? '' : 's'} overwritten`);
+  }
+
+  const localSessionIds = new Set(local.sessionHistory.map(record => record.sessionId));
+  const newSessions = backup.sessionHistory.filter(record => !localSessionIds.has(record.sessionId)).length;
+  if (mode === 'replace') {
+    changes.push(`Session history: ${local.sessionHistory.length} sessions replaced by ${backup.sessionHistory.length}`);
+  } else if (newSessions > 0) {
+    changes.push(`Session history: ${newSessions} session${newSessions === 1 ? '' : 's'} added`);
+  }
+
+  (Object.keys(MEDIA_LABELS) as MediaType[]).forEach((type) => {
+    const incoming = backup.media.find(file => file.type === type);
+    const current = local.mediaNames[type];
+    if (incoming && current) {
+      changes.push(`${MEDIA_LABELS[type]} "${current}" replaced by "${incoming.name}"`);
+    } else if (incoming) {
+      changes.push(`${MEDIA_LABELS[type]} "${incoming.name}" added`);
+    } else if (current && mode === 'replace') {
+      changes.push(`${MEDIA_LABELS[type]} "${current}" removed`);
+    }
+  });
+
+  const localTrackIds = new Set(local.libraryTrackIds);
+  const newTracks = backup.library.filter(({ track }) => !localTrackIds.has(track.id)).length;
+  if (mode === 'replace' && (local.libraryTrackIds.length > 0 || backup.library.length > 0)) {
+    changes.push(`Audio library: ${local.libraryTrackIds.length} tracks replaced by ${backup.library.length}`);
+  } else if (mode === 'merge' && newTracks > 0) {
+    changes.push(`Audio library: ${newTracks} track${newTracks === 1 ? '' : 's'} added`);
+  }
+
+  return changes;
+}
+
+/**
+ * Restore a backup into this browser. Reload the page afterwards - every
+ * part of the app reads the new identity and settings on start.
+ *
+ * Every file is decoded before anything is written, and the backup's files
+ * are saved before replace mode removes what the backup doesn't have - so a
+ * bad file or a full disk never leaves this browser with less than it had.
+ */
+export async function restoreBackup(backup: Backup, mode: BackupMode): Promise<void> {
+  const media = backup.media.map(file => ({
+    type: file.type,
+    file: new File([dataUrlToBlob(file.data, file.mimeType)], file.name, { type: file.mimeType })
+  }));
+  const library = backup.library.map(({ track, data }) => ({ track, blob: dataUrlToBlob(data, track.mimeType) }));
+
+  for (const { type, file } of media) {
+    await mediaCache.saveFile(type, file);
+  }
+  for (const { track, blob } of library) {
+    await mediaCache.restoreLibraryTrack(track, blob);
+  }
+
+  const local = mode === 'merge'
+    ? { settings: StorageManager.getSettings(), localStats: StorageManager.getLocalStats(), sessionHistory: StorageManager.getSessionHistory() }
+    : null;
+
+  StorageManager.setUserId(backup.userId);
+  StorageManager.setDisplayName(backup.displayName);
+
+  const settings = local ? mergeSettings(local.settings, backup.settings) : backup.settings;
+  StorageManager.saveSettings({ ...settings, userId: backup.userId, displayName: backup.displayName });
+
+  // Stats follow the user ID (the database has the full totals) - keep the larger
+  const keepLocalStats = local && local.localStats.totalSeconds > (backup.localStats.totalSeconds || 0);
+  StorageManager.updateLocalStats(keepLocalStats ? local.localStats : backup.localStats);
+
+  StorageManager.saveSessionHistory(local
+    ? mergeSessionHistory(local.sessionHistory, backup.sessionHistory)
+    : backup.sessionHistory);
+
+  if (mode === 'replace') {
+    for (const type of Object.keys(MEDIA_LABELS) as MediaType[]) {
+      if (!backup.media.some(file => file.type === type)) {
+        await mediaCache.deleteFile(type);
+      }
+    }
+    const backupTrackIds = new Set(backup.library.map(({ track }) => track.id));
+    for (const track of await mediaCache.getLibraryTracks()) {
+      if (!backupTrackIds.has(track.id)) {
+        await mediaCache.deleteLibraryTrack(track.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Bell Player - Shared bell sound for session cues
+ * Used by the timer (completion, interval and stage bells) and by the
+ * preparation countdown on the entry overlay. Also plays the soft
+ * synthesized ticks of the breathing pacer.
+ *
+ * The bell is chosen in the Bells settings tab: one of the bundled sounds
+ * under /media/audio/bells, or a custom upload kept in MediaCache.
+ */
+
+import { getAudioContext, primeAudioElement } from './audioContext';
+import { StorageManager, mediaCache } from './storage';
+import { PREDEFINED_BELLS } from './mediaCatalog';
+
+// Gap between strikes when a bell rings more than once
+const STRIKE_GAP_MS = 1500;
+// Peak gain of a soft tick at full bell volume
+const TICK_GAIN = 0.06;
+
+let bellAudio: HTMLAudioElement | null = null;
+let bellLoading: Promise<HTMLAudioElement> | null = null;
+
+/**
+ * Resolve a bell to a playable URL (falls back to the first bundled bell,
+ * also when the custom bell is missing from MediaCache)
+ */
+export async function resolveBellUrl(soundId: string): Promise<string> {
+  if (soundId === 'custom') {
+    const customBell = await mediaCache.getFile('bell');
+    if (customBell) {
+      return customBell.url;
+    }
+  }
+  return (PREDEFINED_BELLS.find(bell => bell.id === soundId) || PREDEFINED_BELLS[0]).path;
+}
+
+function getBellAudio(): Promise<HTMLAudioElement> {
+  if (bellAudio) return Promise.resolve(bellAudio);
+
+  if (!bellLoading) {
+    const loading = resolveBellUrl(StorageManager.getBellSettings().soundId).then((url) => {
+      const audio = new Audio(url);
+      audio.preload = 'auto';
+      // Ignore a load that was superseded by resetBell()
+      if (bellLoading === loading) {
+        bellAudio = audio;
+      }
+      return audio;
+    });
+    bellLoading = loading;
+  }
+  return bellLoading;
+}
+
+/**
+ * Start loading the bell so the first strike isn't delayed
+ */
+export function preloadBell(): void {
+  getBellAudio().then(bell => bell.load());
+}
+
+/**
+ * Unlock the bell inside the tap that starts a session, so the starting bell
+ * can ring from the end of the preparation countdown (Safari/iOS block a
+ * play() that isn't in a user gesture)
+ */
+export function unlockBell(): void {
+  getAudioContext();  // Resumes the shared context for the synthesized ticks
+  if (bellAudio) {
+    primeAudioElement(bellAudio);
+  } else {
+    getBellAudio().then(primeAudioElement);
+  }
+}
+
+/**
+ * Forget the loaded bell so the next strike uses the current settings
+ * (call after changing the bell selection or uploading a custom bell)
+ */
+export function resetBell(): void {
+  bellAudio = null;
+  bellLoading = null;
+}
+
+/**
+ * Ring the bell, optionally several strikes in a row, at the bell volume
+ */
+export function playBell(strikes = 1): void {
+  const volume = StorageManager.getBellSettings().volume;
+
+  getBellAudio().then((bell) => {
+    for (let i = 0; i < strikes; i++) {
+      setTimeout(() => {
+        // Extra strikes use a copy so each one rings out fully
+        const strike = i === 0 ? bell : bell.cloneNode() as HTMLAudioElement;
+        strike.volume = volume;
+        strike.muted = false;
+        strike.currentTime = 0;
+        strike.play().catch(e => console.warn('Bell blocked:', e));
+      }, i * STRIKE_GAP_MS);
+    }
+  });
+}
+
+/**
+ * Ring any bell once at the bell volume, without selecting it or touching
+ * the loaded session bell (preview in the Bells tab)
+ */
+export function previewBell(soundId: string): void {
+  const volume = StorageManager.getBellSettings().volume;
+
+  resolveBellUrl(soundId).then((url) => {
+    const preview = new Audio(url);
+    preview.volume = volume;
+    preview.play().catch(e => console.warn('Bell blocked:', e));
+  });
+}
+
+/**
+ * Play a short, soft synthesized tick (e.g. breathing pacer phase changes),
+ * scaled by the bell volume. Callers skip it while the app is muted.
+ */
+export function playSoftTick(frequency = 440): void {
+  const peak = TICK_GAIN * StorageManager.getBellSettings().volume;
+  const context = getAudioContext();
+  if (!context || peak <= 0) return;
+
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const now = context.currentTime;
+
+  oscillator.type = 'sine';
+  oscillator.frequency.value = frequency;
+
+  // Quick attack, gentle exponential decay
+  gain.gain.setValueAtTime(0.0001, now);
+  gain.gain.exponentialRampToValueAtTime(Math.max(peak, 0.0001), now + 0.02);
+  gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.4);
+
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start(now);
+  oscillator.stop(now + 0.45);
+}
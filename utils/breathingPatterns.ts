@@ -0,0 +1,93 @@
+/**
+ * Breathing Patterns - Inhale/hold/exhale/hold timings for the breathing pacer
+ * The pacer position is derived from active session seconds, so it pauses
+ * with the session and catches up after the tab was backgrounded
+ */
+
+import type { BreathingSettings, BreathingTimings } from './storage';
+
+export type BreathPhase = 'inhale' | 'hold-in' | 'exhale' | 'hold-out';
+
+export interface BreathingPattern extends BreathingTimings {
+  id: string;
+  name: string;
+}
+
+export interface BreathState {
+  phase: BreathPhase;
+  progress: number;         // 0-1 through the current phase
+  scale: number;            // 0 (empty lungs) to 1 (full lungs)
+  completedCycles: number;
+}
+
+// Coherent breathing at 5.5 breaths per minute, split evenly in and out
+const COHERENT_HALF_BREATH = 60 / 5.5 / 2;
+
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+  { id: 'box', name: 'Box Breathing', inhale: 4, holdIn: 4, exhale: 4, holdOut: 4 },
+  { id: '4-7-8', name: '4-7-8 Relaxing Breath', inhale: 4, holdIn: 7, exhale: 8, holdOut: 0 },
+  { id: 'coherent', name: 'Coherent (5.5 bpm)', inhale: COHERENT_HALF_BREATH, holdIn: 0, exhale: COHERENT_HALF_BREATH, holdOut: 0 }
+];
+
+export const PHASE_LABELS: Record<BreathPhase, string> = {
+  'inhale': 'Inhale',
+  'hold-in': 'Hold',
+  'exhale': 'Exhale',
+  'hold-out': 'Hold'
+};
+
+/**
+ * Resolve the pattern selected in settings (a preset or the custom timings)
+ */
+export function getSelectedPattern(settings: BreathingSettings): BreathingPattern {
+  if (settings.patternId === 'custom' && settings.customPattern) {
+    return { id: 'custom', name: 'Custom', ...settings.customPattern };
+  }
+  return BREATHING_PATTERNS.find(pattern => pattern.id === settings.patternId) || BREATHING_PATTERNS[0];
+}
+
+/**
+ * Length of one full breath cycle in seconds
+ */
+export function getCycleSeconds(pattern: BreathingTimings): number {
+  return pattern.inhale + pattern.holdIn + pattern.exhale + pattern.holdOut;
+}
+
+// Smooth the circle's motion at the turn of each breath
+const easeInOut = (t: number): number => (1 - Math.cos(Math.PI * t)) / 2;
+
+/**
+ * Where in the breath cycle the pacer is, `seconds` after it started
+ */
+export function getBreathState(pattern: BreathingTimings, seconds: number): BreathState {
+  const cycleSeconds = getCycleSeconds(pattern);
+  if (cycleSeconds <= 0) {
+    return { phase: 'inhale', progress: 0, scale: 0, completedCycles: 0 };
+  }
+
+  const elapsed = Math.max(0, seconds);
+  const completedCycles = Math.floor(elapsed / cycleSeconds);
+  let position = elapsed - completedCycles * cycleSeconds;
+
+  const phases: Array<{ phase: BreathPhase; duration: number }> = [
+    { phase: 'inhale', duration: pattern.inhale },
+    { phase: 'hold-in', duration: pattern.holdIn },
+    { phase: 'exhale', duration: pattern.exhale },
+    { phase: 'hold-out', duration: pattern.holdOut }
+  ];
+
+  for (const { phase, duration } of phases) {
+    if (duration <= 0) continue;
+    if (position < duration) {
+      const progress = position / duration;
+      const scale = phase === 'inhale' ? easeInOut(progress)
+        : phase === 'exhale' ? 1 - easeInOut(progress)
+        : phase === 'hold-in' ? 1 : 0;
+      return { phase, progress, scale, completedCycles };
+    }
+    position -= duration;
+  }
+
+  // Floating point remainder at the very end of a cycle
+  return { phase: 'inhale', progress: 0, scale: 0, completedCycles: completedCycles + 1 };
+}
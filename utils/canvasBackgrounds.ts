@@ -0,0 +1,198 @@
+/**
+ * Canvas Backgrounds - Procedural backgrounds drawn live behind the UI
+ * Drifting particles, slow aurora bands and a mandala that grows ring by ring
+ * as the session goes on. Each frame is a pure function of the animation
+ * time, the session's active seconds and the interface palette, so nothing
+ * needs to be kept between frames and a still frame can be drawn at any time.
+ */
+
+import { GENERATED_BACKGROUNDS } from './mediaCatalog';
+import type { ColorPalette } from './colorExtractor';
+
+// Everything a frame is drawn from
+export interface CanvasFrame {
+  width: number;
+  height: number;
+  time: number;  // animation seconds (held still with reduced motion)
+  elapsedSeconds: number;  // active session seconds, 0 outside a session
+  palette: ColorPalette;
+}
+
+// Particles and aurora calm down over this much of a session
+export const SETTLE_SECONDS = 15 * 60;
+
+// The mandala gains a ring this often, up to MANDALA_MAX_RINGS
+export const MANDALA_RING_SECONDS = 90;
+export const MANDALA_MAX_RINGS = 12;
+
+const PARTICLE_COUNT = 60;
+const AURORA_BANDS = 3;
+const AURORA_STEPS = 32;
+const MANDALA_TURN_PER_SECOND = 0.02;  // radians
+
+/**
+ * Whether a background id refers to a generated background
+ */
+export function isGeneratedBackgroundId(id: string | null | undefined): boolean {
+  return !!id && GENERATED_BACKGROUNDS.some(item => item.id === id);
+}
+
+/**
+ * How far the session has settled, from 0 at the start to 1 after SETTLE_SECONDS
+ */
+export function getSessionSettle(elapsedSeconds: number): number {
+  return Math.min(1, Math.max(0, elapsedSeconds) / SETTLE_SECONDS);
+}
+
+/**
+ * Rings of the mandala after `elapsedSeconds` - fractional while the newest
+ * ring is still growing. A single seed ring shows outside a session.
+ */
+export function getMandalaRings(elapsedSeconds: number): number {
+  return Math.min(MANDALA_MAX_RINGS, 1 + Math.max(0, elapsedSeconds) / MANDALA_RING_SECONDS);
+}
+
+// Repeatable pseudo-random value in [0, 1) for a seed
+function seeded(seed: number): number {
+  const value = Math.sin(seed * 12.9898) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+/**
+ * Particle `index` at `time`, in fractions of the canvas: rising slowly,
+ * wrapping at the top, swaying less as the session settles
+ */
+export function getParticle(index: number, time: number, settle: number): { x: number; y: number; size: number; glow: number } {
+  const speed = 0.008 + seeded(index + 0.31) * 0.02;
+  const rise = seeded(index + 0.57) - time * speed;
+  const sway = Math.sin(time * 0.2 + index) * 0.02 * (1 - settle * 0.5);
+  return {
+    x: seeded(index + 0.13) + sway,
+    y: rise - Math.floor(rise),
+    size: 1 + seeded(index + 0.79) * 2.5,
+    glow: 0.5 + 0.5 * Math.sin(time * 0.8 + index * 1.7)
+  };
+}
+
+// Pick a palette colour per item, so the three shades are spread around
+function paletteColor(palette: ColorPalette, index: number): string {
+  return [palette.primary, palette.primaryLight, palette.primaryDark][index % 3];
+}
+
+function drawParticles(ctx: CanvasRenderingContext2D, frame: CanvasFrame): void {
+  const settle = getSessionSettle(frame.elapsedSeconds);
+  const scale = Math.min(frame.width, frame.height) / 600;
+
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    const particle = getParticle(i, frame.time, settle);
+    const x = particle.x * frame.width;
+    const y = particle.y * frame.height;
+    const radius = particle.size * scale;
+
+    ctx.fillStyle = paletteColor(frame.palette, i);
+    // Soft halo, then the bright core
+    ctx.globalAlpha = 0.08 * particle.glow;
+    ctx.beginPath();
+    ctx.arc(x, y, radius * 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = (0.25 + 0.35 * settle) * (0.4 + 0.6 * particle.glow);
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function drawAurora(ctx: CanvasRenderingContext2D, frame: CanvasFrame): void {
+  const settle = getSessionSettle(frame.elapsedSeconds);
+  const { width, height } = frame;
+  const amplitude = height * 0.06 * (1 - settle * 0.5);
+  const thickness = height * 0.22;
+
+  for (let band = 0; band < AURORA_BANDS; band++) {
+    const baseY = height * (0.25 + band * 0.14);
+    const waveY = (x: number) => baseY
+      + Math.sin((x / width) * Math.PI * 2 * (1 + band * 0.5) + frame.time * (0.05 + band * 0.03) + band) * amplitude
+      + Math.sin((x / width) * Math.PI * 5 - frame.time * 0.04) * amplitude * 0.3;
+
+    const gradient = ctx.createLinearGradient(0, baseY - amplitude, 0, baseY + thickness + amplitude);
+    gradient.addColorStop(0, 'transparent');
+    gradient.addColorStop(0.3, paletteColor(frame.palette, band));
+    gradient.addColorStop(1, 'transparent');
+
+    // Top edge follows the wave, the bottom edge follows it a band-width lower
+    ctx.beginPath();
+    for (let step = 0; step <= AURORA_STEPS; step++) {
+      const x = (step / AURORA_STEPS) * width;
+      if (step === 0) ctx.moveTo(x, waveY(x));
+      else ctx.lineTo(x, waveY(x));
+    }
+    for (let step = AURORA_STEPS; step >= 0; step--) {
+      const x = (step / AURORA_STEPS) * width;
+      ctx.lineTo(x, waveY(x) + thickness);
+    }
+    ctx.closePath();
+
+    ctx.fillStyle = gradient;
+    ctx.globalAlpha = (0.2 + 0.15 * settle) * (0.8 + 0.2 * Math.sin(frame.time * 0.1 + band * 2));
+    ctx.fill();
+  }
+}
+
+function drawMandala(ctx: CanvasRenderingContext2D, frame: CanvasFrame): void {
+  const rings = getMandalaRings(frame.elapsedSeconds);
+  const maxRadius = Math.min(frame.width, frame.height) * 0.42;
+  const ringWidth = maxRadius / MANDALA_MAX_RINGS;
+  const breath = 1 + 0.02 * Math.sin(frame.time * 0.5);
+  const { cos, sin } = Math;
+
+  ctx.save();
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.lineWidth = Math.max(1, maxRadius / 300);
+
+  for (let ring = 0; ring < Math.ceil(rings); ring++) {
+    const growth = Math.min(1, rings - ring);  // newest ring unfolds gradually
+    const inner = ring * ringWidth * breath;
+    const outer = inner + ringWidth * growth * breath;
+    const petals = 6 + ring * 2;
+    const turn = frame.time * MANDALA_TURN_PER_SECOND * (ring % 2 === 0 ? 1 : -1);
+
+    ctx.strokeStyle = paletteColor(frame.palette, ring);
+    ctx.globalAlpha = 0.25 + 0.35 * growth;
+
+    for (let petal = 0; petal < petals; petal++) {
+      const angle = (petal / petals) * Math.PI * 2 + turn;
+      const spread = (Math.PI / petals) * growth;
+
+      // A petal: out from the inner circle to its tip and back
+      ctx.beginPath();
+      ctx.moveTo(cos(angle - spread) * inner, sin(angle - spread) * inner);
+      ctx.quadraticCurveTo(cos(angle - spread) * outer, sin(angle - spread) * outer, cos(angle) * outer, sin(angle) * outer);
+      ctx.quadraticCurveTo(cos(angle + spread) * outer, sin(angle + spread) * outer, cos(angle + spread) * inner, sin(angle + spread) * inner);
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Draw one frame of a generated background, clearing the canvas first
+ */
+export function drawGeneratedBackground(ctx: CanvasRenderingContext2D, backgroundId: string, frame: CanvasFrame): void {
+  ctx.globalAlpha = 1;
+  ctx.clearRect(0, 0, frame.width, frame.height);
+
+  switch (backgroundId) {
+    case 'drifting-particles':
+      drawParticles(ctx, frame);
+      break;
+    case 'aurora':
+      drawAurora(ctx, frame);
+      break;
+    case 'growing-mandala':
+      drawMandala(ctx, frame);
+      break;
+  }
+
+  ctx.globalAlpha = 1;
+}
@@ -1,246 +1,229 @@
 /**
- * Color Extractor - Extract dominant colors from images
- * Uses canvas to sample pixels and find the most vibrant/dominant color
- * Ensures good contrast against dark backgrounds
+ * Color Extractor - Extract the interface palette from images and video frames
+ * Samples pixels on a canvas and hands them to the palette worker for k-means
+ * clustering. The clusters are cached per background in localStorage, so a
+ * background is only analysed once, and the palette is built from them with
+ * the theme in effect (locked primary, background brightness; see palette.ts).
  */
 
-interface RGB {
-  r: number;
-  g: number;
-  b: number;
-}
+import { StorageManager, mediaCache } from './storage';
+import type { ThemeSettings } from './storage';
+import { DEFAULT_PALETTE, buildPalette, computeClusters, getReadableBrightness } from './palette';
+import type { ColorCluster, ColorPalette } from './palette';
 
-interface HSL {
-  h: number;
-  s: number;
-  l: number;
-}
+export type { ColorPalette };
 
-interface ColorPalette {
-  primary: string;
-  primaryDark: string;
-  primaryLight: string;
-}
+// How far into a video the palette frame is taken (seconds)
+const VIDEO_SAMPLE_SECONDS = 2;
 
-// Default orange palette (fallback)
-const DEFAULT_PALETTE: ColorPalette = {
-  primary: '#fb923c',
-  primaryDark: '#ea580c',
-  primaryLight: '#fdba74'
-};
+// Pixels are sampled at this size (square) - plenty for clustering
+const SAMPLE_SIZE = 100;
+
+// Bumped when the extraction changes, so older cached palettes are ignored
+const PALETTE_VERSION = 3;
+
+// Background URLs longer than this are cached by hash
+const MAX_KEY_URL_LENGTH = 256;
 
-// Minimum lightness for good contrast on dark backgrounds
-const MIN_LIGHTNESS = 0.5;
-const TARGET_LIGHTNESS = 0.6;
+let worker: Worker | null | undefined;  // undefined until first used, null when unavailable
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { pixels: Uint8ClampedArray; resolve: (clusters: ColorCluster[]) => void }>();
 
 /**
- * Convert RGB to HSL
+ * Cache key for a background URL - uploads are keyed by their stored file
+ * (object URLs change every load), long URLs are hashed (FNV-1a) instead of
+ * being stored whole
  */
-function rgbToHsl(rgb: RGB): HSL {
-  const r = rgb.r / 255;
-  const g = rgb.g / 255;
-  const b = rgb.b / 255;
-
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const l = (max + min) / 2;
-
-  let h = 0;
-  let s = 0;
-
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-    switch (max) {
-      case r:
-        h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-        break;
-      case g:
-        h = ((b - r) / d + 2) / 6;
-        break;
-      case b:
-        h = ((r - g) / d + 4) / 6;
-        break;
-    }
+export function getPaletteCacheKey(url: string): string {
+  const source = mediaCache.getUrlSource(url);
+  if (source) {
+    return `v${PALETTE_VERSION}:${source}`;
   }
-
-  return { h, s, l };
+  if (url.length <= MAX_KEY_URL_LENGTH) {
+    return `v${PALETTE_VERSION}:${url}`;
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `v${PALETTE_VERSION}:${url.length}:${(hash >>> 0).toString(16)}`;
 }
 
-/**
- * Convert HSL to RGB
- */
-function hslToRgb(hsl: HSL): RGB {
-  const { h, s, l } = hsl;
+// The palette worker, created on first use (null where workers aren't available)
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
 
-  if (s === 0) {
-    const gray = Math.round(l * 255);
-    return { r: gray, g: gray, b: gray };
+  try {
+    worker = new Worker(new URL('./paletteWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    worker = null;
+    return worker;
   }
 
-  const hue2rgb = (p: number, q: number, t: number) => {
-    if (t < 0) t += 1;
-    if (t > 1) t -= 1;
-    if (t < 1 / 6) return p + (q - p) * 6 * t;
-    if (t < 1 / 2) return q;
-    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-    return p;
+  worker.onmessage = (event: MessageEvent<{ id: number; clusters: ColorCluster[] }>) => {
+    const request = pendingRequests.get(event.data.id);
+    pendingRequests.delete(event.data.id);
+    request?.resolve(event.data.clusters);
   };
 
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-
-  return {
-    r: Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
-    g: Math.round(hue2rgb(p, q, h) * 255),
-    b: Math.round(hue2rgb(p, q, h - 1 / 3) * 255)
+  // A worker that fails to load gives way to the main thread, for waiting requests too
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    pendingRequests.forEach(({ pixels, resolve }) => resolve(computeClusters(pixels)));
+    pendingRequests.clear();
   };
+
+  return worker;
+}
+
+// Cluster the pixels in the worker, or on the main thread without one
+function computeInWorker(pixels: Uint8ClampedArray): Promise<ColorCluster[]> {
+  const paletteWorker = getWorker();
+  if (!paletteWorker) {
+    return Promise.resolve(computeClusters(pixels));
+  }
+
+  return new Promise((resolve) => {
+    const id = ++nextRequestId;
+    pendingRequests.set(id, { pixels, resolve });
+    paletteWorker.postMessage({ id, pixels });
+  });
 }
 
 /**
- * Ensure a color has sufficient lightness for contrast on dark backgrounds
+ * Sample an image or video frame and extract its colour clusters
+ * (null when the pixels can't be read)
  */
-function ensureContrast(rgb: RGB): RGB {
-  const hsl = rgbToHsl(rgb);
-
-  // If the color is too dark, boost its lightness while preserving hue and saturation
-  if (hsl.l < MIN_LIGHTNESS) {
-    hsl.l = TARGET_LIGHTNESS;
-    // Also boost saturation slightly for more vibrant result
-    hsl.s = Math.min(1, hsl.s * 1.2);
-    return hslToRgb(hsl);
+async function extractFromSource(source: CanvasImageSource): Promise<ColorCluster[] | null> {
+  try {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return null;
+    }
+
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    ctx.drawImage(source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    return await computeInWorker(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+  } catch {
+    return null;
   }
+}
 
-  return rgb;
+// Serve a background's clusters from the cache, or extract and cache them
+async function getOrExtract(url: string, extract: () => Promise<ColorCluster[] | null>): Promise<ColorCluster[]> {
+  const key = getPaletteCacheKey(url);
+  const cached = StorageManager.getCachedClusters(key);
+  if (cached) {
+    StorageManager.cacheClusters(key, cached);  // Mark as recently used
+    return cached;
+  }
+
+  const clusters = await extract();
+  if (!clusters) {
+    return [];  // Not cached, so a failed load is retried next time
+  }
+  StorageManager.cacheClusters(key, clusters);
+  return clusters;
 }
 
 /**
- * Extract dominant color from an image URL
+ * Extract the colour clusters of an image URL (empty if it can't be read)
  */
-export async function extractColors(imageUrl: string): Promise<ColorPalette> {
-  return new Promise((resolve) => {
+export async function extractColors(imageUrl: string): Promise<ColorCluster[]> {
+  return getOrExtract(imageUrl, () => new Promise((resolve) => {
     const img = new Image();
     img.crossOrigin = 'Anonymous';
 
     img.onload = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          resolve(DEFAULT_PALETTE);
-          return;
-        }
-
-        // Sample at a smaller size for performance
-        const sampleSize = 100;
-        canvas.width = sampleSize;
-        canvas.height = sampleSize;
-
-        ctx.drawImage(img, 0, 0, sampleSize, sampleSize);
-        const imageData = ctx.getImageData(0, 0, sampleSize, sampleSize);
-        const pixels = imageData.data;
-
-        // Collect colors with their vibrancy scores
-        const colorCounts: Map<string, { count: number; rgb: RGB; vibrancy: number }> = new Map();
-
-        for (let i = 0; i < pixels.length; i += 4) {
-          const r = pixels[i];
-          const g = pixels[i + 1];
-          const b = pixels[i + 2];
-
-          // Skip very dark or very light pixels
-          const brightness = (r + g + b) / 3;
-          if (brightness < 20 || brightness > 235) continue;
-
-          // Calculate color vibrancy (saturation-like metric)
-          const max = Math.max(r, g, b);
-          const min = Math.min(r, g, b);
-          const vibrancy = max - min;
-
-          // Skip gray/desaturated colors
-          if (vibrancy < 25) continue;
-
-          // Quantize to reduce color space
-          const qr = Math.round(r / 32) * 32;
-          const qg = Math.round(g / 32) * 32;
-          const qb = Math.round(b / 32) * 32;
-          const key = `${qr},${qg},${qb}`;
-
-          const existing = colorCounts.get(key);
-          if (existing) {
-            existing.count++;
-            existing.vibrancy = Math.max(existing.vibrancy, vibrancy);
-          } else {
-            colorCounts.set(key, { count: 1, rgb: { r: qr, g: qg, b: qb }, vibrancy });
-          }
-        }
-
-        // Find the most vibrant, frequent color
-        let bestColor: RGB | null = null;
-        let bestScore = 0;
-
-        colorCounts.forEach(({ count, rgb, vibrancy }) => {
-          // Score = count * vibrancy (favor both common and vibrant colors)
-          const score = count * vibrancy;
-          if (score > bestScore) {
-            bestScore = score;
-            bestColor = rgb;
-          }
-        });
-
-        if (bestColor) {
-          // Ensure the color has good contrast on dark backgrounds
-          const adjustedColor = ensureContrast(bestColor);
-          const palette = generatePalette(adjustedColor);
-          resolve(palette);
-        } else {
-          resolve(DEFAULT_PALETTE);
-        }
-      } catch {
-        resolve(DEFAULT_PALETTE);
-      }
+      extractFromSource(img).then(resolve);
     };
 
     img.onerror = () => {
-      resolve(DEFAULT_PALETTE);
+      resolve(null);
     };
 
     img.src = imageUrl;
-  });
+  }));
 }
 
 /**
- * Generate a color palette from a base color
+ * Extract the colour clusters of a video, sampling one frame a little way in
+ * (the first frame is often a fade from black)
  */
-function generatePalette(rgb: RGB): ColorPalette {
-  // Primary should be the contrast-adjusted color
-  const primary = rgbToHex(rgb);
+export async function extractVideoColors(videoUrl: string): Promise<ColorCluster[]> {
+  return getOrExtract(videoUrl, () => new Promise((resolve) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(VIDEO_SAMPLE_SECONDS, (video.duration || 0) / 2);
+    };
 
-  // Dark variant - reduce lightness but keep it visible
-  const hsl = rgbToHsl(rgb);
-  const darkHsl = { ...hsl, l: Math.max(0.35, hsl.l - 0.15) };
-  const primaryDark = rgbToHex(hslToRgb(darkHsl));
+    video.onseeked = () => {
+      extractFromSource(video).then(resolve);
+      // Release the decoder
+      video.removeAttribute('src');
+      video.load();
+    };
 
-  // Light variant - increase lightness
-  const lightHsl = { ...hsl, l: Math.min(0.85, hsl.l + 0.15) };
-  const primaryLight = rgbToHex(hslToRgb(lightHsl));
+    video.onerror = () => {
+      resolve(null);
+    };
 
-  return { primary, primaryDark, primaryLight };
+    video.src = videoUrl;
+  }));
+}
+
+/**
+ * Brightness a background is shown at - the theme's, capped so text stays readable
+ */
+export function getThemedBrightness(clusters: ColorCluster[], theme: ThemeSettings): number {
+  return getReadableBrightness(clusters, theme.brightness);
 }
 
-function rgbToHex(rgb: RGB): string {
-  const toHex = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0');
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+/**
+ * Palette for a background's colour clusters with a theme applied
+ */
+export function getThemedPalette(clusters: ColorCluster[], theme: ThemeSettings): ColorPalette {
+  return buildPalette(clusters, { brightness: theme.brightness, primary: theme.primary });
 }
 
+// CSS variable for each palette colour
+const PALETTE_VARIABLES: Record<keyof ColorPalette, string> = {
+  primary: '--color-primary',
+  primaryDark: '--color-primary-dark',
+  primaryLight: '--color-primary-light',
+  secondary: '--color-secondary',
+  accent: '--color-accent',
+  surface: '--color-surface'
+};
+
 /**
  * Apply color palette to CSS variables
  */
 export function applyColorPalette(palette: ColorPalette): void {
-  document.documentElement.style.setProperty('--color-primary', palette.primary);
-  document.documentElement.style.setProperty('--color-primary-dark', palette.primaryDark);
-  document.documentElement.style.setProperty('--color-primary-light', palette.primaryLight);
+  (Object.keys(PALETTE_VARIABLES) as (keyof ColorPalette)[]).forEach((name) => {
+    document.documentElement.style.setProperty(PALETTE_VARIABLES[name], palette[name]);
+  });
+}
+
+/**
+ * Palette currently shown by the interface - follows the CSS variable
+ * transition while it runs (falls back to the default palette)
+ */
+export function getAppliedPalette(): ColorPalette {
+  const style = getComputedStyle(document.documentElement);
+  const palette = { ...DEFAULT_PALETTE };
+  (Object.keys(PALETTE_VARIABLES) as (keyof ColorPalette)[]).forEach((name) => {
+    palette[name] = style.getPropertyValue(PALETTE_VARIABLES[name]).trim() || DEFAULT_PALETTE[name];
+  });
+  return palette;
 }
 
 /**
@@ -0,0 +1,114 @@
+/**
+ * Cue Player - Voices guided-meditation cues
+ * Speaks the cue text with the browser's speech synthesis, or plays the
+ * voice clip picked from the audio library. Announces 'guidedCueStarted' and
+ * 'guidedCueEnded' so AudioPlayer can duck the ambient sound underneath.
+ *
+ * Only one cue plays at a time - a new cue cuts off the one still playing.
+ */
+
+import { StorageManager, mediaCache, GuidedCue } from './storage';
+
+let clipAudio: HTMLAudioElement | null = null;
+let playing = false;  // Between 'guidedCueStarted' and 'guidedCueEnded'
+let activeCue = 0;  // Bumped for every cue, so callbacks of a cut-off cue are ignored
+
+function hasSpeechSynthesis(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Voices available for speaking cues (may be empty until the browser loads them)
+ */
+export function getSpeechVoices(): SpeechSynthesisVoice[] {
+  return hasSpeechSynthesis() ? window.speechSynthesis.getVoices() : [];
+}
+
+// Stop whatever is playing without announcing the end
+function silence() {
+  activeCue++;
+  if (clipAudio) {
+    clipAudio.pause();
+    clipAudio = null;
+  }
+  if (hasSpeechSynthesis()) {
+    window.speechSynthesis.cancel();
+  }
+}
+
+function speak(text: string, onDone: () => void) {
+  if (!hasSpeechSynthesis()) {
+    onDone();
+    return;
+  }
+
+  const { voiceName, rate, volume } = StorageManager.getGuidanceSettings();
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = getSpeechVoices().find(v => v.name === voiceName);
+  if (voice) {
+    utterance.voice = voice;
+  }
+  utterance.rate = rate;
+  utterance.volume = volume;
+  utterance.onend = onDone;
+  utterance.onerror = onDone;
+  window.speechSynthesis.speak(utterance);
+}
+
+async function playClip(clipId: string, text: string, onDone: () => void, isCurrent: () => boolean) {
+  const url = await mediaCache.getLibraryTrackUrl(clipId);
+  if (!isCurrent()) return;
+
+  // The clip was deleted from the library - speak the text instead
+  if (!url) {
+    speak(text, onDone);
+    return;
+  }
+
+  const audio = new Audio(url);
+  audio.volume = StorageManager.getGuidanceSettings().volume;
+  audio.onended = onDone;
+  audio.onerror = onDone;
+  clipAudio = audio;
+  audio.play().catch((error) => {
+    console.warn('Cue clip blocked:', error);
+    onDone();
+  });
+}
+
+/**
+ * Voice a cue - its clip when it has one, otherwise the text
+ */
+export function playCue(cue: GuidedCue): void {
+  silence();
+  const cueId = activeCue;
+  const isCurrent = () => cueId === activeCue;
+  const onDone = () => {
+    if (!isCurrent()) return;
+    clipAudio = null;
+    playing = false;
+    window.dispatchEvent(new CustomEvent('guidedCueEnded'));
+  };
+
+  // Cutting off a cue keeps the ambient sound ducked
+  if (!playing) {
+    playing = true;
+    window.dispatchEvent(new CustomEvent('guidedCueStarted'));
+  }
+  if (cue.clipId) {
+    playClip(cue.clipId, cue.text, onDone, isCurrent);
+  } else {
+    speak(cue.text, onDone);
+  }
+}
+
+/**
+ * Stop the cue playing, if any (e.g. when the session ends)
+ */
+export function stopCue(): void {
+  silence();
+  if (playing) {
+    playing = false;
+    window.dispatchEvent(new CustomEvent('guidedCueEnded'));
+  }
+}
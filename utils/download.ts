@@ -0,0 +1,24 @@
+/**
+ * Download - Save a generated file (backups, exported cue scripts)
+ */
+
+// How long the object URL stays valid after the download starts (ms)
+const REVOKE_DELAY_MS = 10_000;
+
+/**
+ * Download a Blob under a file name. The link is attached to the page while
+ * it is clicked (Firefox ignores detached links), and its URL is revoked well
+ * after the click, since some browsers fetch it only once click() returns.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,216 @@
+/**
+ * Entrainment - Binaural beats and isochronic tones for a target brainwave band
+ *
+ * The beat frequency ramps linearly from the band's start to its target over
+ * the session goal (or DEFAULT_RAMP_SECONDS in an open session), then holds.
+ * The ramp is scheduled on the audio clock from the session's active time, so
+ * pausing, resuming or changing the goal picks it up where the session is.
+ *
+ * - Binaural: a carrier in each ear, offset by the beat frequency (needs headphones)
+ * - Isochronic: one carrier pulsed on and off at the beat frequency
+ */
+
+import { StorageManager, EntrainmentSettings } from './storage';
+import { getPlanTotalSeconds } from './sessionPlans';
+import { rampGain } from './loopingTrack';
+
+export interface EntrainmentBand {
+  id: string;
+  name: string;
+  range: string;
+  startHz: number;
+  endHz: number;
+}
+
+// Each band eases down from a relaxed waking rhythm into its target
+export const ENTRAINMENT_BANDS: EntrainmentBand[] = [
+  { id: 'alpha', name: 'Alpha', range: '8-12 Hz · relaxed focus', startHz: 12, endHz: 10 },
+  { id: 'theta', name: 'Theta', range: '4-8 Hz · deep meditation', startHz: 10, endHz: 6 },
+  { id: 'delta', name: 'Delta', range: '0.5-4 Hz · deep rest', startHz: 10, endHz: 2.5 }
+];
+
+export const MIN_BEAT_HZ = 0.5;
+export const MAX_BEAT_HZ = 40;
+export const CARRIER_OPTIONS = [100, 150, 200, 300, 400];
+
+// Ramp length when the session has no goal
+export const DEFAULT_RAMP_SECONDS = 15 * 60;
+
+// Fade in/out when tones start or stop, so they never click (seconds)
+const TONE_FADE = 0.5;
+
+/**
+ * Start and target beat frequency of the selected band (or the custom ramp)
+ */
+export function getBeatRamp(settings: EntrainmentSettings): { startHz: number; endHz: number } {
+  const band = ENTRAINMENT_BANDS.find(b => b.id === settings.bandId);
+  if (band) {
+    return { startHz: band.startHz, endHz: band.endHz };
+  }
+  const clamp = (hz: number) => Math.min(MAX_BEAT_HZ, Math.max(MIN_BEAT_HZ, hz));
+  return { startHz: clamp(settings.customStartHz), endHz: clamp(settings.customEndHz) };
+}
+
+/**
+ * Beat frequency after `elapsedSeconds` of a ramp lasting `rampSeconds`
+ */
+export function getBeatFrequency(ramp: { startHz: number; endHz: number }, elapsedSeconds: number, rampSeconds: number): number {
+  if (rampSeconds <= 0 || elapsedSeconds >= rampSeconds) return ramp.endHz;
+  const progress = Math.max(0, elapsedSeconds) / rampSeconds;
+  return ramp.startHz + (ramp.endHz - ramp.startHz) * progress;
+}
+
+/**
+ * Left and right carrier frequencies for a binaural beat
+ */
+export function getBinauralFrequencies(carrierHz: number, beatHz: number): { left: number; right: number } {
+  return { left: carrierHz - beatHz / 2, right: carrierHz + beatHz / 2 };
+}
+
+/**
+ * The session goal UnifiedTimer counts down to (plan total or count-down
+ * target), or null in an open session
+ */
+export function getSessionGoalSeconds(): number | null {
+  const timerSettings = StorageManager.getSettings().timerSettings;
+  if (timerSettings?.type === 'plan') {
+    const plan = StorageManager.getActiveSessionPlan();
+    if (plan && plan.stages.length > 0) {
+      return getPlanTotalSeconds(plan);
+    }
+  }
+  if (timerSettings?.type === 'count-down' && timerSettings.targetMinutes) {
+    return timerSettings.targetMinutes * 60;
+  }
+  return null;
+}
+
+// Soft square wave for isochronic pulses - a few odd harmonics, no hard edges
+const createPulseWave = (context: AudioContext): PeriodicWave => {
+  const harmonics = 8;
+  const real = new Float32Array(harmonics);
+  const imag = new Float32Array(harmonics);
+  for (let n = 1; n < harmonics; n += 2) {
+    imag[n] = 1 / n;
+  }
+  return context.createPeriodicWave(real, imag);
+};
+
+/**
+ * EntrainmentTrack - The tones for one run of the session
+ * Oscillators can only start once, so every start() builds fresh nodes.
+ */
+export class EntrainmentTrack {
+  private context: AudioContext;
+  private settings: EntrainmentSettings;
+  private output: GainNode;
+  private nodes: { oscillators: OscillatorNode[]; envelope: GainNode } | null = null;
+
+  constructor(context: AudioContext, settings: EntrainmentSettings, volume: number) {
+    this.context = context;
+    this.settings = settings;
+    this.output = context.createGain();
+    this.output.gain.value = volume;
+    this.output.connect(context.destination);
+  }
+
+  // Ramp a frequency from its value now to `endHz` over the rest of the ramp
+  private scheduleRamp(param: AudioParam, nowHz: number, endHz: number, remainingSeconds: number) {
+    const now = this.context.currentTime;
+    param.setValueAtTime(nowHz, now);
+    if (remainingSeconds > 0) {
+      param.linearRampToValueAtTime(endHz, now + remainingSeconds);
+    }
+  }
+
+  /**
+   * Start the tones at `elapsedSeconds` into the session, ramping over `rampSeconds`
+   */
+  start(elapsedSeconds: number, rampSeconds: number): void {
+    this.stop();
+    if (this.settings.mode === 'off') return;
+
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    const now = this.context.currentTime;
+    const ramp = getBeatRamp(this.settings);
+    const beatHz = getBeatFrequency(ramp, elapsedSeconds, rampSeconds);
+    const remaining = Math.max(0, rampSeconds - elapsedSeconds);
+
+    const envelope = this.context.createGain();
+    envelope.gain.setValueAtTime(0, now);
+    envelope.gain.linearRampToValueAtTime(1, now + TONE_FADE);
+    envelope.connect(this.output);
+
+    const oscillators: OscillatorNode[] = [];
+
+    if (this.settings.mode === 'binaural') {
+      // One carrier per ear, both ramped so their difference follows the beat
+      const merger = this.context.createChannelMerger(2);
+      merger.connect(envelope);
+      const start = getBinauralFrequencies(this.settings.carrierHz, beatHz);
+      const end = getBinauralFrequencies(this.settings.carrierHz, ramp.endHz);
+
+      (['left', 'right'] as const).forEach((ear, channel) => {
+        const oscillator = this.context.createOscillator();
+        this.scheduleRamp(oscillator.frequency, start[ear], end[ear], remaining);
+        oscillator.connect(merger, 0, channel);
+        oscillators.push(oscillator);
+      });
+    } else {
+      // Carrier gated by a pulse oscillating between 0 and 1 at the beat frequency
+      const carrier = this.context.createOscillator();
+      carrier.frequency.value = this.settings.carrierHz;
+      const gate = this.context.createGain();
+      gate.gain.value = 0.5;
+
+      const pulse = this.context.createOscillator();
+      pulse.setPeriodicWave(createPulseWave(this.context));
+      this.scheduleRamp(pulse.frequency, beatHz, ramp.endHz, remaining);
+      const pulseDepth = this.context.createGain();
+      pulseDepth.gain.value = 0.5;
+      pulse.connect(pulseDepth);
+      pulseDepth.connect(gate.gain);
+
+      carrier.connect(gate);
+      gate.connect(envelope);
+      oscillators.push(carrier, pulse);
+    }
+
+    oscillators.forEach(oscillator => oscillator.start(now));
+    this.nodes = { oscillators, envelope };
+  }
+
+  /**
+   * Fade out and stop the tones
+   */
+  stop(): void {
+    if (!this.nodes) return;
+    const { oscillators, envelope } = this.nodes;
+    const now = this.context.currentTime;
+    envelope.gain.cancelScheduledValues(now);
+    envelope.gain.setValueAtTime(envelope.gain.value, now);
+    envelope.gain.linearRampToValueAtTime(0, now + TONE_FADE / 5);
+    oscillators.forEach(oscillator => oscillator.stop(now + TONE_FADE / 5));
+    oscillators[0].onended = () => envelope.disconnect();
+    this.nodes = null;
+  }
+
+  /**
+   * Set the effective volume (0-1), ramped over `rampSeconds` if given
+   */
+  setVolume(volume: number, rampSeconds = 0): void {
+    rampGain(this.output.gain, volume, this.context.currentTime, rampSeconds);
+  }
+
+  isPlaying(): boolean {
+    return this.nodes !== null;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.output.disconnect();
+  }
+}
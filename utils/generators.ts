@@ -0,0 +1,302 @@
+/**
+ * Generators - Procedural ambient sounds synthesized in the browser
+ * White/pink/brown noise, a tanpura-style drone and a slowly evolving pad.
+ *
+ * Each generator renders one seamless loop with an OfflineAudioContext:
+ * everything in it repeats with the loop length, and a few warm-up periods
+ * are rendered first so filter state and decaying tails from the "previous"
+ * repeat are already present at the loop start. The result loops on the
+ * audio clock like any decoded file, with no timers involved.
+ */
+
+import { StorageManager, GeneratorParams } from './storage';
+import { GENERATED_AUDIO } from './mediaCatalog';
+
+export type GeneratorParam = keyof GeneratorParams;
+
+// Which controls each generator offers, and what "density" means for it
+export const GENERATOR_CONTROLS: Record<string, { params: GeneratorParam[]; densityLabel: string }> = {
+  'white-noise': { params: ['brightness', 'density'], densityLabel: 'Steadiness' },
+  'pink-noise': { params: ['brightness', 'density'], densityLabel: 'Steadiness' },
+  'brown-noise': { params: ['brightness', 'density'], densityLabel: 'Steadiness' },
+  'tanpura-drone': { params: ['pitch', 'brightness', 'density'], densityLabel: 'Pluck Rate' },
+  'evolving-pad': { params: ['pitch', 'brightness', 'density'], densityLabel: 'Voices' }
+};
+
+export const ROOT_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const DEFAULT_GENERATOR_PARAMS: Record<string, GeneratorParams> = {
+  'white-noise': { pitch: 0, brightness: 0.5, density: 0.8 },
+  'pink-noise': { pitch: 0, brightness: 0.6, density: 0.8 },
+  'brown-noise': { pitch: 0, brightness: 0.7, density: 0.8 },
+  'tanpura-drone': { pitch: 1, brightness: 0.6, density: 0.5 },
+  'evolving-pad': { pitch: 9, brightness: 0.4, density: 0.5 }
+};
+
+// Rendering at a lower rate keeps memory and render time down; ambient
+// content has little above 11 kHz and the context resamples on playback
+const RENDER_SAMPLE_RATE = 22050;
+
+const NOISE_LOOP_SECONDS = 12;
+const PAD_LOOP_SECONDS = 32;
+const PLUCK_DECAY_SECONDS = 7;
+
+// Pad chord tones as ratios of the root, added as density grows
+const PAD_RATIOS = [1, 1.5, 2, 3, 2.25, 4];
+
+/**
+ * Whether an audio id refers to a generated sound
+ */
+export function isGeneratedId(id: string | null | undefined): boolean {
+  return !!id && GENERATED_AUDIO.some(item => item.id === id);
+}
+
+/**
+ * Saved parameters for a generator, with its defaults for anything missing
+ */
+export function getGeneratorParams(generatorId: string): GeneratorParams {
+  return {
+    ...DEFAULT_GENERATOR_PARAMS[generatorId],
+    ...StorageManager.getGeneratorSettings()[generatorId]
+  };
+}
+
+/**
+ * Frequency of a root note (semitone 0-11 from C) in the given octave (C3 = 130.81 Hz)
+ */
+export function noteFrequency(semitone: number, octave = 3): number {
+  return 440 * Math.pow(2, (semitone - 9) / 12 + (octave - 4));
+}
+
+/**
+ * Map brightness (0-1) to a lowpass cutoff, exponentially from 200 Hz to ~10 kHz
+ */
+export function brightnessToCutoff(brightness: number): number {
+  return 200 * Math.pow(2, brightness * 5.6);
+}
+
+/**
+ * Nudge a frequency so it completes a whole number of cycles per loop,
+ * so oscillators line up at the loop point (shift is at most 1 / (2 x loop) Hz)
+ */
+export function quantizeToLoop(frequency: number, loopSeconds: number): number {
+  return Math.max(1, Math.round(frequency * loopSeconds)) / loopSeconds;
+}
+
+/**
+ * Remove the linear drift of a random walk so its end meets its start
+ * (brown noise would otherwise click at the loop point)
+ */
+export function removeDrift(samples: Float32Array): Float32Array {
+  const n = samples.length;
+  if (n < 2) return samples;
+  const drift = samples[n - 1] - samples[0];
+  for (let i = 0; i < n; i++) {
+    samples[i] -= drift * (i / (n - 1));
+  }
+  return samples;
+}
+
+/**
+ * Tanpura strings for a root: Pa (fifth below), Sa, Sa, and low Sa
+ */
+export function getTanpuraStrings(rootFrequency: number): number[] {
+  return [rootFrequency * 0.75, rootFrequency, rootFrequency, rootFrequency / 2];
+}
+
+/**
+ * Length of one tanpura cycle (four plucks) - denser plays faster, 8 s down to 4 s
+ */
+export function getDroneCycleSeconds(density: number): number {
+  return 8 - 4 * density;
+}
+
+/**
+ * Chord tones of the pad - 2 voices at density 0 up to 6 at density 1
+ */
+export function getPadRatios(density: number): number[] {
+  return PAD_RATIOS.slice(0, 2 + Math.round(density * (PAD_RATIOS.length - 2)));
+}
+
+// Fill a buffer with one loop of noise in the given color
+const createNoiseSamples = (color: string, length: number): Float32Array => {
+  const samples = new Float32Array(length);
+
+  if (color === 'white-noise') {
+    for (let i = 0; i < length; i++) samples[i] = Math.random() * 2 - 1;
+  } else if (color === 'pink-noise') {
+    // Paul Kellet's economy pink filter
+    let b0 = 0, b1 = 0, b2 = 0;
+    for (let i = 0; i < length; i++) {
+      const white = Math.random() * 2 - 1;
+      b0 = 0.99765 * b0 + white * 0.0990460;
+      b1 = 0.96300 * b1 + white * 0.2965164;
+      b2 = 0.57000 * b2 + white * 1.0526913;
+      samples[i] = (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    }
+  } else {
+    // Brown: leaky random walk
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+      last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+      samples[i] = last * 3.5;
+    }
+    removeDrift(samples);
+  }
+  return samples;
+};
+
+// Render `periods` repeats of a loop offline and keep the last one
+const renderLoop = async (
+  context: BaseAudioContext,
+  loopSeconds: number,
+  periods: number,
+  build: (offline: OfflineAudioContext, totalSeconds: number) => void
+): Promise<AudioBuffer> => {
+  const loopLength = Math.round(loopSeconds * RENDER_SAMPLE_RATE);
+  const offline = new OfflineAudioContext(1, loopLength * periods, RENDER_SAMPLE_RATE);
+  build(offline, loopSeconds * periods);
+
+  const rendered = await offline.startRendering();
+  const loop = context.createBuffer(1, loopLength, RENDER_SAMPLE_RATE);
+  loop.copyToChannel(rendered.getChannelData(0).subarray(loopLength * (periods - 1)), 0);
+  return loop;
+};
+
+// Noise through a lowpass, with slow gusts that fade out as steadiness rises
+const renderNoise = (context: BaseAudioContext, color: string, params: GeneratorParams): Promise<AudioBuffer> => {
+  return renderLoop(context, NOISE_LOOP_SECONDS, 2, (offline, totalSeconds) => {
+    const noise = offline.createBuffer(1, NOISE_LOOP_SECONDS * RENDER_SAMPLE_RATE, RENDER_SAMPLE_RATE);
+    noise.copyToChannel(createNoiseSamples(color, noise.length), 0);
+
+    const source = offline.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+
+    const filter = offline.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = brightnessToCutoff(params.brightness);
+
+    // Gusts: gain swings by (1 - density) around a level, twice per loop
+    const depth = (1 - params.density) * 0.45;
+    const gust = offline.createGain();
+    gust.gain.value = 0.55;
+    const lfo = offline.createOscillator();
+    lfo.frequency.value = 2 / NOISE_LOOP_SECONDS;
+    const lfoDepth = offline.createGain();
+    lfoDepth.gain.value = depth;
+    lfo.connect(lfoDepth);
+    lfoDepth.connect(gust.gain);
+
+    source.connect(filter);
+    filter.connect(gust);
+    gust.connect(offline.destination);
+    source.start(0);
+    lfo.start(0);
+    source.stop(totalSeconds);
+    lfo.stop(totalSeconds);
+  });
+};
+
+// Four plucked strings per cycle, each a bank of decaying partials
+const renderDrone = (context: BaseAudioContext, params: GeneratorParams): Promise<AudioBuffer> => {
+  const cycleSeconds = getDroneCycleSeconds(params.density);
+  const periods = 1 + Math.ceil(PLUCK_DECAY_SECONDS / cycleSeconds);
+  const strings = getTanpuraStrings(noteFrequency(params.pitch));
+
+  return renderLoop(context, cycleSeconds, periods, (offline) => {
+    const output = offline.createGain();
+    output.gain.value = 0.12;
+    output.connect(offline.destination);
+
+    for (let period = 0; period < periods; period++) {
+      strings.forEach((frequency, stringIndex) => {
+        const start = period * cycleSeconds + (stringIndex * cycleSeconds) / strings.length;
+
+        // Brighter strings keep more of their upper partials (the buzzing jawari)
+        for (let partial = 1; partial <= 12; partial++) {
+          const amplitude = (1 / partial) * Math.exp(-(partial - 1) * (1 - params.brightness) * 0.9);
+          if (amplitude < 0.005) break;
+          const decay = PLUCK_DECAY_SECONDS / (1 + 0.12 * partial);
+
+          const oscillator = offline.createOscillator();
+          oscillator.frequency.value = frequency * partial * (1 + 0.0007 * partial);
+          const envelope = offline.createGain();
+          envelope.gain.setValueAtTime(0, start);
+          envelope.gain.linearRampToValueAtTime(amplitude, start + 0.015);
+          envelope.gain.exponentialRampToValueAtTime(0.0001, start + decay);
+
+          oscillator.connect(envelope);
+          envelope.connect(output);
+          oscillator.start(start);
+          oscillator.stop(start + decay);
+        }
+      });
+    }
+  });
+};
+
+// Detuned saw voices through a slowly sweeping lowpass, each voice breathing at its own rate
+const renderPad = (context: BaseAudioContext, params: GeneratorParams): Promise<AudioBuffer> => {
+  const root = noteFrequency(params.pitch, 2);
+  const ratios = getPadRatios(params.density);
+
+  return renderLoop(context, PAD_LOOP_SECONDS, 2, (offline, totalSeconds) => {
+    const filter = offline.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.value = 2;
+    const cutoff = brightnessToCutoff(params.brightness);
+    filter.frequency.value = cutoff;
+
+    // Sweep the cutoff once per loop
+    const sweep = offline.createOscillator();
+    sweep.frequency.value = 1 / PAD_LOOP_SECONDS;
+    const sweepDepth = offline.createGain();
+    sweepDepth.gain.value = cutoff * 0.6;
+    sweep.connect(sweepDepth);
+    sweepDepth.connect(filter.frequency);
+    sweep.start(0);
+    sweep.stop(totalSeconds);
+
+    const output = offline.createGain();
+    output.gain.value = 0.35 / ratios.length;
+    filter.connect(output);
+    output.connect(offline.destination);
+
+    ratios.forEach((ratio, voiceIndex) => {
+      const voice = offline.createGain();
+      voice.gain.value = 0.6;
+
+      // Each voice swells 1-4 times per loop, so the chord keeps shifting
+      const swell = offline.createOscillator();
+      swell.frequency.value = (1 + (voiceIndex % 4)) / PAD_LOOP_SECONDS;
+      const swellDepth = offline.createGain();
+      swellDepth.gain.value = 0.4;
+      swell.connect(swellDepth);
+      swellDepth.connect(voice.gain);
+      swell.start(0);
+      swell.stop(totalSeconds);
+
+      // Two saws detuned a few cents apart for a slow chorus
+      [-0.004, 0.004].forEach((detune) => {
+        const oscillator = offline.createOscillator();
+        oscillator.type = 'sawtooth';
+        oscillator.frequency.value = quantizeToLoop(root * ratio * (1 + detune), PAD_LOOP_SECONDS);
+        oscillator.connect(voice);
+        oscillator.start(0);
+        oscillator.stop(totalSeconds);
+      });
+
+      voice.connect(filter);
+    });
+  });
+};
+
+/**
+ * Render one seamless loop of a generator with the given parameters
+ */
+export function renderGenerator(context: BaseAudioContext, generatorId: string, params: GeneratorParams): Promise<AudioBuffer> {
+  if (generatorId === 'tanpura-drone') return renderDrone(context, params);
+  if (generatorId === 'evolving-pad') return renderPad(context, params);
+  return renderNoise(context, generatorId, params);
+}
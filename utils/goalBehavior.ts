@@ -0,0 +1,35 @@
+/**
+ * Goal Behavior - What the timer does when a count-down reaches its goal
+ * Continue open-ended, auto-end the session at exactly the goal, or keep
+ * going with a reminder bell every N minutes of overtime
+ */
+
+import type { GoalBehavior } from './storage';
+
+export const DEFAULT_GOAL_BEHAVIOR: GoalBehavior = { mode: 'continue' };
+
+// Overtime reminder intervals offered in the Timer tab (minutes)
+export const REMINDER_PRESETS = [1, 5, 10];
+
+/**
+ * Get the most recent overtime reminder offset (seconds from session start)
+ * at or before the elapsed time. Returns 0 when no reminder is due yet.
+ */
+export function getLastReminderAt(goalSeconds: number, reminderMinutes: number | undefined, elapsedSeconds: number): number {
+  if (!reminderMinutes || reminderMinutes <= 0) return 0;
+
+  const intervalSeconds = Math.round(reminderMinutes * 60);
+  const overtime = elapsedSeconds - goalSeconds;
+  if (overtime < intervalSeconds) return 0;
+
+  return goalSeconds + Math.floor(overtime / intervalSeconds) * intervalSeconds;
+}
+
+/**
+ * Short label for the behavior, e.g. "Auto-end" or "Remind every 5 min"
+ */
+export function describeGoalBehavior(behavior: GoalBehavior | undefined): string {
+  if (!behavior || behavior.mode === 'continue') return 'Continue';
+  if (behavior.mode === 'auto-end') return 'Auto-end';
+  return `Remind every ${behavior.reminderMinutes} min`;
+}
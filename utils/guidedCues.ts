@@ -0,0 +1,139 @@
+/**
+ * Guided Cues - Timeline and sharing helpers for spoken guidance
+ * A cue is placed minutes after the session start, or minutes before the
+ * goal ("Ten minutes remain"). Offsets are seconds of active session time,
+ * like interval bells, so a throttled background tab speaks only the latest
+ * missed cue instead of a burst of them.
+ */
+
+import type { CueScript, GuidedCue } from './storage';
+
+export const CUE_SCRIPT_ID_PREFIX = 'cues-';
+
+// Marks an exported script file, so other JSON is rejected on import
+const CUE_SCRIPT_FORMAT = 'instant-om-cue-script';
+const CUE_SCRIPT_VERSION = 1;
+
+// Longest text accepted for one cue on import
+const MAX_CUE_TEXT = 500;
+
+export interface DueCue {
+  cue: GuidedCue;
+  offsetSeconds: number;
+}
+
+/**
+ * Offset of a cue from the session start in seconds. End-anchored cues need
+ * a goal, and are dropped when they would fall before the start.
+ */
+export function getCueOffset(cue: GuidedCue, goalSeconds: number | null): number | null {
+  const seconds = Math.round(cue.minutes * 60);
+  if (cue.anchor === 'start') return seconds;
+  if (goalSeconds === null) return null;
+  const offset = goalSeconds - seconds;
+  return offset >= 0 ? offset : null;
+}
+
+/**
+ * The most recent cue at or before the elapsed time (null before the session
+ * has started, or when none is due yet)
+ */
+export function getLatestDueCue(script: CueScript | null, goalSeconds: number | null, elapsedSeconds: number): DueCue | null {
+  if (!script || elapsedSeconds <= 0) return null;
+
+  let latest: DueCue | null = null;
+  for (const cue of script.cues) {
+    const offsetSeconds = getCueOffset(cue, goalSeconds);
+    if (offsetSeconds !== null && offsetSeconds <= elapsedSeconds && (!latest || offsetSeconds > latest.offsetSeconds)) {
+      latest = { cue, offsetSeconds };
+    }
+  }
+  return latest;
+}
+
+/**
+ * Short label for a cue's place on the timeline, e.g. "5 min" or "10 min before end"
+ */
+export function describeCueTiming(cue: GuidedCue): string {
+  if (cue.anchor === 'end') return `${cue.minutes} min before end`;
+  return cue.minutes === 0 ? 'At start' : `${cue.minutes} min`;
+}
+
+/**
+ * Sort cues by where they fall in a session - start-anchored first, then
+ * end-anchored from furthest to nearest the goal
+ */
+export function sortCues(cues: GuidedCue[]): GuidedCue[] {
+  return [...cues].sort((a, b) => {
+    if (a.anchor !== b.anchor) return a.anchor === 'start' ? -1 : 1;
+    return a.anchor === 'start' ? a.minutes - b.minutes : b.minutes - a.minutes;
+  });
+}
+
+/**
+ * Create a new cue
+ */
+export function createCue(text = ''): GuidedCue {
+  return { id: `cue-${crypto.randomUUID()}`, anchor: 'start', minutes: 0, text, clipId: null };
+}
+
+/**
+ * Create a new, empty script
+ */
+export function createCueScript(): CueScript {
+  return { id: `${CUE_SCRIPT_ID_PREFIX}${crypto.randomUUID()}`, name: 'New Script', cues: [] };
+}
+
+/**
+ * Serialize a script for sharing. Voice clips live in this browser's library,
+ * so only the text of each cue travels with the file.
+ */
+export function exportCueScript(script: CueScript): string {
+  return JSON.stringify({
+    format: CUE_SCRIPT_FORMAT,
+    version: CUE_SCRIPT_VERSION,
+    name: script.name,
+    cues: sortCues(script.cues).map(({ anchor, minutes, text }) => ({ anchor, minutes, text }))
+  }, null, 2);
+}
+
+/**
+ * Read a shared script file into a new script with fresh ids.
+ * Throws an Error describing the problem when the file isn't a valid script.
+ */
+export function parseCueScript(json: string): CueScript {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const file = data as { format?: unknown; version?: unknown; name?: unknown; cues?: unknown };
+  if (!file || typeof file !== 'object' || file.format !== CUE_SCRIPT_FORMAT) {
+    throw new Error('The file is not a cue script.');
+  }
+  if (typeof file.version !== 'number' || file.version > CUE_SCRIPT_VERSION) {
+    throw new Error('The cue script was made with a newer version of the app.');
+  }
+  if (!Array.isArray(file.cues)) {
+    throw new Error('The cue script has no cues.');
+  }
+
+  const cues = file.cues.map((item: { anchor?: unknown; minutes?: unknown; text?: unknown }, index: number) => {
+    const valid = item && (item.anchor === 'start' || item.anchor === 'end') &&
+      typeof item.minutes === 'number' && item.minutes >= 0 && Number.isFinite(item.minutes) &&
+      typeof item.text === 'string' && item.text.trim() !== '';
+    if (!valid) {
+      throw new Error(`Cue ${index + 1} needs a start or end anchor, minutes and text.`);
+    }
+    return {
+      ...createCue((item.text as string).trim().slice(0, MAX_CUE_TEXT)),
+      anchor: item.anchor as GuidedCue['anchor'],
+      minutes: item.minutes as number
+    };
+  });
+
+  const name = typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported Script';
+  return { ...createCueScript(), name, cues: sortCues(cues) };
+}
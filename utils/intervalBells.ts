@@ -0,0 +1,58 @@
+/**
+ * Interval Bells - Schedule helpers for bells rung during a session
+ * Offsets are measured in seconds from the session checkpoint startedAt,
+ * so the schedule stays correct no matter how throttled the timer tick is
+ */
+
+import type { IntervalBellSchedule } from './storage';
+
+export const INTERVAL_BELL_PRESETS = [5, 10, 15];
+
+export const DEFAULT_INTERVAL_BELLS: IntervalBellSchedule = { mode: 'off' };
+
+/**
+ * Parse a comma separated list of minutes ("5, 12.5, 20") into sorted offsets
+ */
+export function parseCustomOffsets(input: string): number[] {
+  const minutes = input
+    .split(/[,\s]+/)
+    .map(part => parseFloat(part))
+    .filter(value => !isNaN(value) && value > 0);
+
+  return Array.from(new Set(minutes)).sort((a, b) => a - b);
+}
+
+/**
+ * Get the most recent bell offset (in seconds) at or before the elapsed time.
+ * Returns 0 when no bell is due yet.
+ */
+export function getLastBellAt(schedule: IntervalBellSchedule | undefined, elapsedSeconds: number): number {
+  if (!schedule || elapsedSeconds <= 0) return 0;
+
+  if (schedule.mode === 'every' && schedule.everyMinutes && schedule.everyMinutes > 0) {
+    const intervalSeconds = Math.round(schedule.everyMinutes * 60);
+    return Math.floor(elapsedSeconds / intervalSeconds) * intervalSeconds;
+  }
+
+  if (schedule.mode === 'custom' && schedule.customMinutes) {
+    let last = 0;
+    for (const minutes of schedule.customMinutes) {
+      const offset = Math.round(minutes * 60);
+      if (offset <= elapsedSeconds && offset > last) {
+        last = offset;
+      }
+    }
+    return last;
+  }
+
+  return 0;
+}
+
+/**
+ * Short label for the schedule, e.g. "Every 10 min" or "5, 12, 20 min"
+ */
+export function describeSchedule(schedule: IntervalBellSchedule | undefined): string {
+  if (!schedule || schedule.mode === 'off') return 'Off';
+  if (schedule.mode === 'every') return `Every ${schedule.everyMinutes} min`;
+  return `${(schedule.customMinutes || []).join(', ')} min`;
+}
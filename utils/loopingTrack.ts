@@ -0,0 +1,602 @@
+/**
+ * Looping Track - One ambient sound looped with a crossfade at each repeat
+ * The ambient mixer plays one track per soundscape layer.
+ *
+ * Two engines share the LoopingTrack interface:
+ * - WebAudioLoopingTrack (preferred): decodes the file once and schedules every
+ *   repeat and its equal-power crossfade on the audio clock, so throttled timers
+ *   in a background tab can't make it drift or stutter
+ * - ElementLoopingTrack (fallback): two audio elements take turns, the next one
+ *   fading in over the last CROSSFADE_DURATION seconds of the current one
+ *
+ * GeneratedLoopingTrack plays a procedural sound the same way: the generator
+ * renders one seamless loop, which repeats sample-accurately without crossfades.
+ */
+
+import { getAudioContext, primeAudioElement } from './audioContext';
+import { renderGenerator } from './generators';
+import type { GeneratorParams } from './storage';
+
+export interface LoopingTrack {
+  readonly url: string;
+  play(): Promise<void>;
+  pause(): void;
+  setVolume(volume: number, rampSeconds?: number): void;
+  isPlaying(): boolean;
+  unlock(): void;  // Call inside a user gesture, so a later play() from a timer isn't blocked
+  dispose(): void;
+}
+
+// Crossfade duration in seconds
+const CROSSFADE_DURATION = 2;
+// How often to update volume during crossfade (ms)
+const FADE_INTERVAL = 50;
+// Resolution of the equal-power fade curves
+const FADE_CURVE_STEPS = 64;
+// Lead time before the first repeat starts, so it is scheduled cleanly (seconds)
+const START_DELAY = 0.05;
+// Time constant for smooth volume changes on the audio clock (seconds)
+const VOLUME_SMOOTHING = 0.05;
+// Crossfade to a re-rendered generator loop after a parameter change (seconds)
+const PARAMS_CROSSFADE = 1.5;
+
+/**
+ * Crossfade length for a track - at most a quarter of it, so fade-in and
+ * fade-out never overlap and the next repeat is scheduled well ahead
+ */
+export function getCrossfadeSeconds(durationSeconds: number): number {
+  return Math.min(CROSSFADE_DURATION, durationSeconds / 4);
+}
+
+/**
+ * Audio clock time at which repeat `iteration` starts. Each repeat begins
+ * one crossfade before the previous one ends.
+ */
+export function getIterationStart(loopStart: number, iteration: number, durationSeconds: number, crossfadeSeconds: number): number {
+  return loopStart + iteration * (durationSeconds - crossfadeSeconds);
+}
+
+/**
+ * Equal-power fade curve - sin/cos so the summed power stays constant mid-crossfade
+ */
+export function createEqualPowerCurve(direction: 'in' | 'out', steps = FADE_CURVE_STEPS): Float32Array {
+  const curve = new Float32Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / (steps - 1)) * (Math.PI / 2);
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle);
+  }
+  return curve;
+}
+
+const FADE_IN_CURVE = createEqualPowerCurve('in');
+const FADE_OUT_CURVE = createEqualPowerCurve('out');
+
+/**
+ * Move a gain to `volume` - linearly over `rampSeconds` (session fades), or
+ * smoothed quickly. Cancels any ramp in progress so mute and sliders take over.
+ */
+export function rampGain(param: AudioParam, volume: number, now: number, rampSeconds = 0): void {
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+  if (rampSeconds > 0) {
+    param.linearRampToValueAtTime(volume, now + rampSeconds);
+  } else {
+    param.setTargetAtTime(volume, now, VOLUME_SMOOTHING);
+  }
+}
+
+export class ElementLoopingTrack implements LoopingTrack {
+  readonly url: string;
+  private audio1: HTMLAudioElement;
+  private audio2: HTMLAudioElement;
+  private activeAudio: 1 | 2 = 1;  // "Primary" element (fading in or playing full volume)
+  private playing = false;
+  private volume: number;  // Effective volume (layer volume x master, 0 when muted)
+  private fadeInterval: ReturnType<typeof setInterval> | null = null;
+  private scheduleTimeout: ReturnType<typeof setTimeout> | null = null;
+  private volumeRamp: ReturnType<typeof setInterval> | null = null;
+
+  constructor(url: string, volume: number) {
+    this.url = url;
+    this.volume = volume;
+    this.audio1 = this.createAudio();
+    this.audio2 = this.createAudio();
+  }
+
+  private createAudio(): HTMLAudioElement {
+    const audio = new Audio();
+    audio.preload = 'auto';
+    audio.src = this.url;
+    audio.volume = 0;
+    audio.load();
+    // Helps recover if the page was backgrounded and timing got off
+    audio.addEventListener('timeupdate', this.handleTimeUpdate);
+    return audio;
+  }
+
+  private handleTimeUpdate = () => {
+    if (this.playing && !this.scheduleTimeout) {
+      this.scheduleNextCrossfade();
+    }
+  };
+
+  private getActive(): HTMLAudioElement {
+    return this.activeAudio === 1 ? this.audio1 : this.audio2;
+  }
+
+  private getNext(): HTMLAudioElement {
+    return this.activeAudio === 1 ? this.audio2 : this.audio1;
+  }
+
+  private clearFadeInterval() {
+    if (this.fadeInterval) {
+      clearInterval(this.fadeInterval);
+      this.fadeInterval = null;
+    }
+  }
+
+  private clearScheduleTimeout() {
+    if (this.scheduleTimeout) {
+      clearTimeout(this.scheduleTimeout);
+      this.scheduleTimeout = null;
+    }
+  }
+
+  // Perform crossfade between the two audio elements
+  private performCrossfade(fadeOutAudio: HTMLAudioElement, fadeInAudio: HTMLAudioElement) {
+    const startTime = Date.now();
+    const fadeDurationMs = CROSSFADE_DURATION * 1000;
+
+    // Start the incoming audio at volume 0
+    fadeInAudio.currentTime = 0;
+    fadeInAudio.volume = 0;
+    fadeInAudio.muted = false;
+    fadeInAudio.play().catch(console.error);
+
+    this.clearFadeInterval();
+
+    this.fadeInterval = setInterval(() => {
+      const elapsed = Date.now() - startTime;
+      const progress = Math.min(elapsed / fadeDurationMs, 1);
+
+      // Linear crossfade (reads the current volume so mute/slider changes apply mid-fade)
+      fadeOutAudio.volume = Math.max(0, (1 - progress) * this.volume);
+      fadeInAudio.volume = Math.min(this.volume, progress * this.volume);
+
+      if (progress >= 1) {
+        this.clearFadeInterval();
+        // Stop the faded out audio
+        fadeOutAudio.pause();
+        fadeOutAudio.currentTime = 0;
+      }
+    }, FADE_INTERVAL);
+  }
+
+  // Schedule the next crossfade CROSSFADE_DURATION seconds before the current one ends
+  private scheduleNextCrossfade() {
+    if (!this.playing) return;
+
+    const activeAudio = this.getActive();
+    const nextAudio = this.getNext();
+    const timeUntilCrossfade = (activeAudio.duration - activeAudio.currentTime - CROSSFADE_DURATION) * 1000;
+
+    // Duration unknown until metadata loads - timeupdate reschedules
+    if (isNaN(timeUntilCrossfade)) return;
+
+    if (timeUntilCrossfade <= 0) {
+      // Start crossfade immediately if we're already in the crossfade zone
+      this.performCrossfade(activeAudio, nextAudio);
+      this.activeAudio = this.activeAudio === 1 ? 2 : 1;
+      this.scheduleNextCrossfade();
+    } else {
+      this.clearScheduleTimeout();
+      this.scheduleTimeout = setTimeout(() => {
+        this.scheduleTimeout = null;
+        if (this.playing) {
+          this.performCrossfade(activeAudio, nextAudio);
+          this.activeAudio = this.activeAudio === 1 ? 2 : 1;
+          this.scheduleNextCrossfade();
+        }
+      }, timeUntilCrossfade);
+    }
+  }
+
+  /**
+   * Start the loop from the beginning
+   */
+  async play(): Promise<void> {
+    if (this.playing) return;
+
+    const activeAudio = this.getActive();
+    this.playing = true;
+
+    try {
+      activeAudio.currentTime = 0;
+      activeAudio.volume = this.volume;
+      activeAudio.muted = false;
+      await activeAudio.play();
+      this.scheduleNextCrossfade();
+    } catch (error) {
+      this.playing = false;
+      throw error;
+    }
+  }
+
+  private clearVolumeRamp() {
+    if (this.volumeRamp) {
+      clearInterval(this.volumeRamp);
+      this.volumeRamp = null;
+    }
+  }
+
+  // Apply a volume now, or on the next fade step mid-crossfade
+  private applyVolume(volume: number) {
+    this.volume = volume;
+    if (!this.fadeInterval) {
+      const activeAudio = this.getActive();
+      if (!activeAudio.paused) {
+        activeAudio.volume = volume;
+      }
+    }
+  }
+
+  /**
+   * Stop both elements and any pending crossfade
+   */
+  pause(): void {
+    this.playing = false;
+    this.clearVolumeRamp();
+    this.clearFadeInterval();
+    this.clearScheduleTimeout();
+    this.audio1.pause();
+    this.audio2.pause();
+  }
+
+  /**
+   * Set the effective volume (0-1), stepped linearly over `rampSeconds` if given.
+   * Applies at once, or on the next fade step mid-crossfade.
+   */
+  setVolume(volume: number, rampSeconds = 0): void {
+    this.clearVolumeRamp();
+    if (rampSeconds <= 0) {
+      this.applyVolume(volume);
+      return;
+    }
+
+    const startVolume = this.volume;
+    const startTime = Date.now();
+    this.volumeRamp = setInterval(() => {
+      const progress = Math.min((Date.now() - startTime) / (rampSeconds * 1000), 1);
+      this.applyVolume(startVolume + (volume - startVolume) * progress);
+      if (progress >= 1) {
+        this.clearVolumeRamp();
+      }
+    }, FADE_INTERVAL);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  unlock(): void {
+    if (!this.playing) {
+      primeAudioElement(this.audio1);
+      primeAudioElement(this.audio2);
+    }
+  }
+
+  /**
+   * Stop and release both elements
+   */
+  dispose(): void {
+    this.pause();
+    for (const audio of [this.audio1, this.audio2]) {
+      audio.removeEventListener('timeupdate', this.handleTimeUpdate);
+      audio.src = '';
+    }
+  }
+}
+
+export class WebAudioLoopingTrack implements LoopingTrack {
+  readonly url: string;
+  private context: AudioContext;
+  private output: GainNode;  // Track volume
+  private buffer: AudioBuffer | null = null;
+  private loading: Promise<AudioBuffer>;
+  private fallback: ElementLoopingTrack | null = null;  // Used if the file can't be decoded
+  private sources = new Set<AudioBufferSourceNode>();
+  private playing = false;
+  private volume: number;
+  private loopStart = 0;  // Audio clock time of the first repeat
+  private nextIteration = 0;
+  private generation = 0;  // Bumped on pause so late 'ended' events from old repeats are ignored
+
+  constructor(url: string, volume: number, context: AudioContext) {
+    this.url = url;
+    this.volume = volume;
+    this.context = context;
+    this.output = context.createGain();
+    this.output.gain.value = volume;
+    this.output.connect(context.destination);
+
+    // Decode once up front - every repeat reuses the same buffer
+    this.loading = this.decode();
+    this.loading.catch(() => {});
+  }
+
+  private async decode(): Promise<AudioBuffer> {
+    const response = await fetch(this.url);
+    const data = await response.arrayBuffer();
+    return this.context.decodeAudioData(data);
+  }
+
+  // Schedule the next repeat on the audio clock; its 'ended' event schedules
+  // the one after, so two repeats are always queued ahead of the listener
+  private scheduleIteration(buffer: AudioBuffer) {
+    const iteration = this.nextIteration++;
+    const generation = this.generation;
+    const duration = buffer.duration;
+    const crossfade = getCrossfadeSeconds(duration);
+    const start = getIterationStart(this.loopStart, iteration, duration, crossfade);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+
+    const gain = this.context.createGain();
+    // The first repeat starts at full volume, later ones fade in under the previous one
+    gain.gain.value = iteration === 0 ? 1 : 0;
+    if (iteration > 0) {
+      gain.gain.setValueCurveAtTime(FADE_IN_CURVE, start, crossfade);
+    }
+    gain.gain.setValueCurveAtTime(FADE_OUT_CURVE, start + duration - crossfade, crossfade);
+
+    source.connect(gain);
+    gain.connect(this.output);
+    source.onended = () => {
+      this.sources.delete(source);
+      gain.disconnect();
+      if (this.playing && generation === this.generation) {
+        this.scheduleIteration(buffer);
+      }
+    };
+
+    source.start(start);
+    source.stop(start + duration);
+    this.sources.add(source);
+  }
+
+  private stopSources() {
+    this.sources.forEach((source) => {
+      try {
+        source.stop();
+      } catch {
+        // Never started - nothing to stop
+      }
+    });
+    this.sources.clear();
+  }
+
+  /**
+   * Start the loop from the beginning (waits for decoding on the first play)
+   */
+  async play(): Promise<void> {
+    if (this.playing) return;
+    this.playing = true;
+
+    // Resume inside the user gesture, before any await
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    if (this.fallback) {
+      return this.fallback.play();
+    }
+
+    try {
+      this.buffer = this.buffer || await this.loading;
+    } catch (error) {
+      console.warn('Web Audio decoding failed, falling back to audio elements:', error);
+      this.fallback = new ElementLoopingTrack(this.url, this.volume);
+      return this.playing ? this.fallback.play() : undefined;
+    }
+
+    // Paused or disposed while decoding
+    if (!this.playing) return;
+
+    const now = this.context.currentTime;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.volume, now);
+
+    this.loopStart = now + START_DELAY;
+    this.nextIteration = 0;
+    this.scheduleIteration(this.buffer);
+    this.scheduleIteration(this.buffer);
+  }
+
+  /**
+   * Stop every scheduled repeat
+   */
+  pause(): void {
+    this.playing = false;
+    this.generation++;
+    this.stopSources();
+    this.fallback?.pause();
+  }
+
+  /**
+   * Set the effective volume (0-1), ramped on the audio clock
+   */
+  setVolume(volume: number, rampSeconds = 0): void {
+    this.volume = volume;
+    if (this.fallback) {
+      this.fallback.setVolume(volume, rampSeconds);
+      return;
+    }
+    rampGain(this.output.gain, volume, this.context.currentTime, rampSeconds);
+  }
+
+  isPlaying(): boolean {
+    return this.fallback ? this.fallback.isPlaying() : this.playing;
+  }
+
+  unlock(): void {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    this.fallback?.unlock();
+  }
+
+  /**
+   * Stop playback and release the buffer and audio nodes
+   */
+  dispose(): void {
+    this.pause();
+    this.output.disconnect();
+    this.buffer = null;
+    this.fallback?.dispose();
+  }
+}
+
+export class GeneratedLoopingTrack implements LoopingTrack {
+  readonly url: string;  // 'generated:<id>' - identifies the layer, nothing is fetched
+  private generatorId: string;
+  private params: GeneratorParams;
+  private context: AudioContext;
+  private output: GainNode;
+  private rendering: Promise<AudioBuffer>;
+  private source: { node: AudioBufferSourceNode; gain: GainNode } | null = null;
+  private playing = false;
+
+  constructor(generatorId: string, params: GeneratorParams, volume: number, context: AudioContext) {
+    this.url = `generated:${generatorId}`;
+    this.generatorId = generatorId;
+    this.params = params;
+    this.context = context;
+    this.output = context.createGain();
+    this.output.gain.value = volume;
+    this.output.connect(context.destination);
+
+    this.rendering = renderGenerator(context, generatorId, params);
+    this.rendering.catch(() => {});
+  }
+
+  // Start looping a rendered buffer, crossfading from the current one if any
+  private startSource(buffer: AudioBuffer, fadeSeconds: number) {
+    const now = this.context.currentTime + START_DELAY;
+    const node = this.context.createBufferSource();
+    node.buffer = buffer;
+    node.loop = true;
+
+    const gain = this.context.createGain();
+    if (fadeSeconds > 0) {
+      gain.gain.value = 0;
+      gain.gain.setValueCurveAtTime(FADE_IN_CURVE, now, fadeSeconds);
+    }
+    node.connect(gain);
+    gain.connect(this.output);
+    node.start(now);
+
+    const previous = this.source;
+    if (previous) {
+      previous.gain.gain.cancelScheduledValues(now);
+      previous.gain.gain.setValueCurveAtTime(FADE_OUT_CURVE, now, fadeSeconds || START_DELAY);
+      previous.node.stop(now + (fadeSeconds || START_DELAY));
+      previous.node.onended = () => previous.gain.disconnect();
+    }
+    this.source = { node, gain };
+  }
+
+  private stopSource() {
+    if (!this.source) return;
+    try {
+      this.source.node.stop();
+    } catch {
+      // Never started - nothing to stop
+    }
+    this.source.gain.disconnect();
+    this.source = null;
+  }
+
+  /**
+   * Change the generator parameters - re-renders the loop and crossfades to it
+   */
+  setParams(params: GeneratorParams): void {
+    if (JSON.stringify(params) === JSON.stringify(this.params)) return;
+    this.params = params;
+
+    const rendering = renderGenerator(this.context, this.generatorId, params);
+    this.rendering = rendering;
+    rendering.then((buffer) => {
+      // Superseded by a later change, or stopped meanwhile
+      if (this.rendering === rendering && this.playing) {
+        this.startSource(buffer, PARAMS_CROSSFADE);
+      }
+    }).catch(error => console.error('Failed to render generated sound:', error));
+  }
+
+  /**
+   * Start the loop (waits for rendering on the first play)
+   */
+  async play(): Promise<void> {
+    if (this.playing) return;
+    this.playing = true;
+
+    // Resume inside the user gesture, before any await
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    try {
+      const buffer = await this.rendering;
+      if (this.playing && !this.source) {
+        this.startSource(buffer, 0);
+      }
+    } catch (error) {
+      this.playing = false;
+      throw error;
+    }
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.stopSource();
+  }
+
+  /**
+   * Set the effective volume (0-1), ramped on the audio clock
+   */
+  setVolume(volume: number, rampSeconds = 0): void {
+    rampGain(this.output.gain, volume, this.context.currentTime, rampSeconds);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  unlock(): void {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+  }
+
+  dispose(): void {
+    this.pause();
+    this.output.disconnect();
+  }
+}
+
+/**
+ * Create a looping track with the best engine available
+ */
+export function createLoopingTrack(url: string, volume: number): LoopingTrack {
+  const context = getAudioContext();
+  return context ? new WebAudioLoopingTrack(url, volume, context) : new ElementLoopingTrack(url, volume);
+}
+
+/**
+ * Create a track for a generated sound - null without Web Audio, which synthesis needs
+ */
+export function createGeneratedTrack(generatorId: string, params: GeneratorParams, volume: number): GeneratedLoopingTrack | null {
+  const context = getAudioContext();
+  return context ? new GeneratedLoopingTrack(generatorId, params, volume, context) : null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Media Blobs - Helpers for uploads kept in IndexedDB as Blobs
+ * Files are stored as they are (no base64) and handed out as object URLs.
+ * Backups carry them as data URLs. Before DB version 3 they were stored as
+ * data URLs too, converted here once during the upgrade.
+ */
+
+/**
+ * Whether a value is a data URL (stored before the Blob migration, or from a backup)
+ */
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:');
+}
+
+/**
+ * Decode a data URL into a Blob. Synchronous, so it can run inside the
+ * IndexedDB upgrade transaction (which closes on the first await).
+ */
+export function dataUrlToBlob(dataUrl: string, fallbackType = ''): Blob {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(5, commaIndex);  // After 'data:'
+  const payload = dataUrl.slice(commaIndex + 1);
+  const isBase64 = header.endsWith(';base64');
+  const type = header.split(';')[0] || fallbackType;
+
+  if (!isBase64) {
+    return new Blob([decodeURIComponent(payload)], { type });
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Encode a Blob as a data URL (for files that travel inside a JSON backup)
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
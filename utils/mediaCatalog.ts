@@ -0,0 +1,57 @@
+/**
+ * Media Catalog - Predefined sounds and backgrounds
+ * Shared by the settings panel, the timer preset editor, the mixer and the bell player
+ */
+
+export interface MediaItem {
+  id: string;
+  type: string;
+  name: string;
+  path: string;
+  isCustom?: boolean;
+}
+
+export const PREDEFINED_AUDIO: MediaItem[] = [
+  { id: 'om-mantra', type: 'audio', name: 'Om Mantra Chant', path: '/media/audio/predefined/om-mantra.mp3' },
+  { id: 'meditation-bell', type: 'audio', name: 'Meditation Bell (1 min)', path: '/media/audio/predefined/meditation-bell-1min.mp3' },
+  { id: 'rain', type: 'audio', name: 'Rain Storm', path: '/media/audio/predefined/11L-rain_storm-14472913.mp3' },
+  { id: 'fire', type: 'audio', name: 'Crackling Fire', path: '/media/audio/predefined/fire.mp3' },
+  { id: 'ocean', type: 'audio', name: 'Ocean Waves', path: '/media/audio/predefined/ocean-waves.mp3' },
+  { id: 'silence', type: 'audio', name: 'Silent Meditation', path: '' }
+];
+
+// Procedural sounds synthesized in the browser (see generators.ts) - nothing to download
+export const GENERATED_AUDIO: MediaItem[] = [
+  { id: 'white-noise', type: 'generated', name: 'White Noise', path: '' },
+  { id: 'pink-noise', type: 'generated', name: 'Pink Noise', path: '' },
+  { id: 'brown-noise', type: 'generated', name: 'Brown Noise', path: '' },
+  { id: 'tanpura-drone', type: 'generated', name: 'Tanpura Drone', path: '' },
+  { id: 'evolving-pad', type: 'generated', name: 'Evolving Pad', path: '' }
+];
+
+export const PREDEFINED_IMAGES: MediaItem[] = [
+  { id: 'mountain-sunrise', type: 'image', name: 'Mountain Sunrise', path: '/media/images/predefined/mountain-sunrise.jpg' },
+  { id: 'ocean-sunset', type: 'image', name: 'Ocean Sunset', path: '/media/images/predefined/ocean-sunset.jpg' },
+  { id: 'forest-mist', type: 'image', name: 'Misty Forest', path: '/media/images/predefined/forest-mist.jpg' }
+];
+
+// Looping video backgrounds - short seamless clips under /media/videos.
+// Muted, so any audio track is ignored.
+export const PREDEFINED_VIDEOS: MediaItem[] = [
+  { id: 'candle', type: 'video', name: 'Candle Flame', path: '/media/videos/candle.webm' }
+];
+
+// Backgrounds drawn live on a canvas (see canvasBackgrounds.ts) - nothing to download
+export const GENERATED_BACKGROUNDS: MediaItem[] = [
+  { id: 'drifting-particles', type: 'generated', name: 'Drifting Particles', path: '' },
+  { id: 'aurora', type: 'generated', name: 'Aurora', path: '' },
+  { id: 'growing-mandala', type: 'generated', name: 'Growing Mandala', path: '' }
+];
+
+// Bundled bells - self-hosted so cues ring offline
+export const PREDEFINED_BELLS: MediaItem[] = [
+  { id: 'singing-bowl', type: 'bell', name: 'Singing Bowl', path: '/media/audio/bells/singing-bowl.wav' },
+  { id: 'gong', type: 'bell', name: 'Gong', path: '/media/audio/bells/gong.wav' },
+  { id: 'wood-block', type: 'bell', name: 'Wood Block', path: '/media/audio/bells/wood-block.wav' },
+  { id: 'chime', type: 'bell', name: 'Chime', path: '/media/audio/bells/chime.wav' }
+];
@@ -0,0 +1,102 @@
+/**
+ * Media Session - Lock screen and notification controls for a session
+ * Shows what is playing (sound, soundscape, playlist track) with the selected
+ * background as artwork, and the session's elapsed time against its goal.
+ * AudioPlayer owns the action handlers and calls these as playback changes.
+ */
+
+import { StorageManager, mediaCache } from './storage';
+import { PREDEFINED_AUDIO, GENERATED_AUDIO, PREDEFINED_IMAGES } from './mediaCatalog';
+import { isSoundscapeId } from './soundscapes';
+import { isLibraryTrackId, isPlaylistId } from './playlists';
+
+const ARTIST = 'Instant Om';
+const DEFAULT_ALBUM = 'Meditation Session';
+
+let trackName: string | null = null;  // Playlist track playing, shown as the title
+let metadataRequest = 0;  // Bumped per update, so a slow lookup can't overwrite a newer one
+
+function hasMediaSession(): boolean {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+}
+
+/**
+ * Display name of an audio option - sound, soundscape, playlist or library track
+ */
+export async function resolveAudioName(audioId: string | null): Promise<string> {
+  if (!audioId) return 'Meditation';
+  if (isSoundscapeId(audioId)) return StorageManager.getSoundscape(audioId)?.name || 'Soundscape';
+  if (isPlaylistId(audioId)) return StorageManager.getPlaylist(audioId)?.name || 'Playlist';
+  if (isLibraryTrackId(audioId)) {
+    const track = (await mediaCache.getLibraryTracks()).find(t => t.id === audioId);
+    return track?.name || 'My Library';
+  }
+  if (audioId === 'custom') return StorageManager.getSettings().customAudioName || 'Custom Audio';
+  return [...PREDEFINED_AUDIO, ...GENERATED_AUDIO].find(item => item.id === audioId)?.name || 'Meditation';
+}
+
+// The selected background, shown as artwork (falls back to the first bundled image)
+async function resolveArtwork(imageId: string | null): Promise<MediaImage[]> {
+  if (imageId === 'custom') {
+    const customImage = await mediaCache.getFile('image');
+    if (customImage) {
+      return [{ src: customImage.url }];
+    }
+  }
+  const image = PREDEFINED_IMAGES.find(item => item.id === imageId) || PREDEFINED_IMAGES[0];
+  return [{ src: image.path, type: 'image/jpeg' }];
+}
+
+/**
+ * Show the selected audio and background in the media controls. A playlist
+ * shows its current track as the title and the playlist as the album.
+ */
+export async function updateMediaMetadata(): Promise<void> {
+  if (!hasMediaSession()) return;
+
+  const request = ++metadataRequest;
+  const { selectedAudioId, selectedImageId } = StorageManager.getSettings();
+  const [audioName, artwork] = await Promise.all([resolveAudioName(selectedAudioId), resolveArtwork(selectedImageId)]);
+  if (request !== metadataRequest) return;
+
+  navigator.mediaSession.metadata = new MediaMetadata({
+    title: trackName || audioName,
+    artist: ARTIST,
+    album: trackName ? audioName : DEFAULT_ALBUM,
+    artwork
+  });
+}
+
+/**
+ * Set the playlist track playing (null when no playlist is) and refresh the controls
+ */
+export function setMediaTrack(name: string | null): Promise<void> {
+  trackName = name;
+  return updateMediaMetadata();
+}
+
+/**
+ * Position of the session for the media controls - elapsed against the goal,
+ * or an open-ended position (no goal, or past it in overtime)
+ */
+export function getPositionState(elapsedSeconds: number, goalSeconds: number | null): MediaPositionState {
+  const position = Math.max(0, elapsedSeconds);
+  const duration = goalSeconds && goalSeconds > position ? goalSeconds : Infinity;
+  return { duration, position, playbackRate: 1 };
+}
+
+/**
+ * Show the session position in the media controls, or clear it (session ended)
+ */
+export function updatePositionState(elapsedSeconds: number | null, goalSeconds: number | null = null): void {
+  if (!hasMediaSession() || !navigator.mediaSession.setPositionState) return;
+
+  try {
+    navigator.mediaSession.setPositionState(
+      elapsedSeconds === null ? undefined : getPositionState(elapsedSeconds, goalSeconds)
+    );
+  } catch (error) {
+    // Older implementations reject an open-ended duration
+    console.warn('Media position not supported:', error);
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Palette - Build the interface palette from a background's pixels
+ * Pixels are clustered with k-means; the clusters become primary, secondary,
+ * accent and surface colours, with text lightened to meet WCAG AA contrast.
+ * Pure functions with no DOM access, so clustering runs in the palette worker.
+ */
+
+export interface ColorPalette {
+  primary: string;
+  primaryDark: string;
+  primaryLight: string;
+  secondary: string;
+  accent: string;
+  surface: string;
+}
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+export interface ColorCluster {
+  color: RGB;
+  share: number;  // fraction of the sampled pixels
+}
+
+// Theme choices the palette is built with
+export interface PaletteOptions {
+  brightness?: number;  // background brightness, defaults to BACKGROUND_BRIGHTNESS
+  primary?: string | null;  // locked primary colour (hex)
+}
+
+// Default orange palette (fallback)
+export const DEFAULT_PALETTE: ColorPalette = {
+  primary: '#fb923c',
+  primaryDark: '#ea580c',
+  primaryLight: '#fdba74',
+  secondary: '#fcd34d',
+  accent: '#5eead4',
+  surface: '#1c120b'
+};
+
+// WCAG AA for normal text
+export const MIN_CONTRAST = 4.5;
+
+// Backgrounds are shown at this brightness unless the theme changes it
+export const BACKGROUND_BRIGHTNESS = 0.3;
+
+const CLUSTER_COUNT = 6;
+const MAX_ITERATIONS = 12;
+
+// Clusters smaller than this don't count as part of the background
+const MIN_BACKGROUND_SHARE = 0.05;
+
+// Lightness a text colour is brought up to before the contrast check
+const MIN_LIGHTNESS = 0.5;
+const TARGET_LIGHTNESS = 0.6;
+
+// Hue distances (fractions of the colour wheel)
+const SECONDARY_MIN_HUE_DISTANCE = 30 / 360;
+const ACCENT_MIN_HUE_DISTANCE = 60 / 360;
+
+/**
+ * Convert RGB to HSL
+ */
+export function rgbToHsl(rgb: RGB): HSL {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+
+  let h = 0;
+  let s = 0;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+    switch (max) {
+      case r:
+        h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+        break;
+      case g:
+        h = ((b - r) / d + 2) / 6;
+        break;
+      case b:
+        h = ((r - g) / d + 4) / 6;
+        break;
+    }
+  }
+
+  return { h, s, l };
+}
+
+/**
+ * Convert HSL to RGB
+ */
+export function hslToRgb(hsl: HSL): RGB {
+  const { h, s, l } = hsl;
+
+  if (s === 0) {
+    const gray = Math.round(l * 255);
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const hue2rgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  return {
+    r: Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
+    g: Math.round(hue2rgb(p, q, h) * 255),
+    b: Math.round(hue2rgb(p, q, h - 1 / 3) * 255)
+  };
+}
+
+export function rgbToHex(rgb: RGB): string {
+  const toHex = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0');
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+}
+
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+/**
+ * WCAG relative luminance of a colour (0 = black, 1 = white)
+ */
+export function getRelativeLuminance(rgb: RGB): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(rgb.r) + 0.7152 * channel(rgb.g) + 0.0722 * channel(rgb.b);
+}
+
+/**
+ * WCAG contrast ratio between two luminances (1 to 21)
+ */
+export function getContrastRatio(luminanceA: number, luminanceB: number): number {
+  const lighter = Math.max(luminanceA, luminanceB);
+  const darker = Math.min(luminanceA, luminanceB);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Lighten a colour, keeping its hue, until it meets MIN_CONTRAST against a
+ * background of the given luminance
+ */
+export function ensureContrast(rgb: RGB, backgroundLuminance: number): RGB {
+  const hsl = rgbToHsl(rgb);
+  let color = rgb;
+  while (getContrastRatio(getRelativeLuminance(color), backgroundLuminance) < MIN_CONTRAST && hsl.l < 1) {
+    hsl.l = Math.min(1, hsl.l + 0.02);
+    color = hslToRgb(hsl);
+  }
+  return color;
+}
+
+function distanceSquared(a: RGB, b: RGB): number {
+  return (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+}
+
+/**
+ * Opaque pixels of RGBA data, as colours
+ */
+export function getPixelColors(pixels: Uint8ClampedArray): RGB[] {
+  const colors: RGB[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    colors.push({ r: pixels[i], g: pixels[i + 1], b: pixels[i + 2] });
+  }
+  return colors;
+}
+
+/**
+ * Group colours into `k` clusters, largest first. Starts from colours spread
+ * evenly by luminance, so the same pixels always give the same clusters.
+ */
+export function kMeans(colors: RGB[], k: number, maxIterations = MAX_ITERATIONS): ColorCluster[] {
+  if (colors.length === 0) return [];
+
+  const sorted = [...colors].sort((a, b) => getRelativeLuminance(a) - getRelativeLuminance(b));
+  const count = Math.min(k, sorted.length);
+  let centroids = Array.from({ length: count }, (_, i) => ({
+    ...sorted[Math.floor(((i + 0.5) / count) * sorted.length)]
+  }));
+  const assignments = new Array<number>(colors.length).fill(-1);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    colors.forEach((color, index) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const distance = distanceSquared(color, centroid);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = c;
+        }
+      });
+      if (assignments[index] !== nearest) {
+        assignments[index] = nearest;
+        changed = true;
+      }
+    });
+
+    if (!changed) break;
+
+    // Move each centroid to the mean of its colours (an empty cluster stays put)
+    const sums = centroids.map(() => ({ r: 0, g: 0, b: 0, n: 0 }));
+    colors.forEach((color, index) => {
+      const sum = sums[assignments[index]];
+      sum.r += color.r;
+      sum.g += color.g;
+      sum.b += color.b;
+      sum.n++;
+    });
+    centroids = centroids.map((centroid, c) => sums[c].n === 0
+      ? centroid
+      : { r: sums[c].r / sums[c].n, g: sums[c].g / sums[c].n, b: sums[c].b / sums[c].n });
+  }
+
+  const sizes = centroids.map(() => 0);
+  assignments.forEach(c => sizes[c]++);
+
+  return centroids
+    .map((centroid, c) => ({
+      color: { r: Math.round(centroid.r), g: Math.round(centroid.g), b: Math.round(centroid.b) },
+      share: sizes[c] / colors.length
+    }))
+    .filter(cluster => cluster.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
+
+// A background colour as displayed - CSS brightness() scales the sRGB channels
+function dim(rgb: RGB, brightness: number): RGB {
+  return { r: rgb.r * brightness, g: rgb.g * brightness, b: rgb.b * brightness };
+}
+
+// Significant background colours - small clusters don't count
+function getBackgroundClusters(clusters: ColorCluster[]): ColorCluster[] {
+  return clusters.filter(cluster => cluster.share >= MIN_BACKGROUND_SHARE);
+}
+
+/**
+ * The requested background brightness, lowered if needed so that white text
+ * still meets MIN_CONTRAST on the brightest part of the background
+ */
+export function getReadableBrightness(clusters: ColorCluster[], brightness: number): number {
+  const maxLuminance = 1.05 / MIN_CONTRAST - 0.05;  // white on this still passes
+  const backgrounds = getBackgroundClusters(clusters);
+  const isReadable = (value: number) =>
+    backgrounds.every(cluster => getRelativeLuminance(dim(cluster.color, value)) <= maxLuminance);
+
+  if (isReadable(brightness)) return brightness;
+
+  let low = 0;
+  let high = brightness;
+  for (let step = 0; step < 16; step++) {
+    const middle = (low + high) / 2;
+    if (isReadable(middle)) low = middle;
+    else high = middle;
+  }
+  return low;
+}
+
+function hueDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b);
+  return Math.min(distance, 1 - distance);
+}
+
+// Bring a colour up to a readable lightness, a little more vivid
+function toTextColor(hsl: HSL): HSL {
+  return hsl.l < MIN_LIGHTNESS
+    ? { h: hsl.h, s: Math.min(1, hsl.s * 1.2), l: TARGET_LIGHTNESS }
+    : hsl;
+}
+
+/**
+ * Build the palette from colour clusters (see kMeans). With a locked primary
+ * the palette is built around it, even without clusters (no background image).
+ */
+export function buildPalette(clusters: ColorCluster[], options: PaletteOptions = {}): ColorPalette {
+  const brightness = getReadableBrightness(clusters, options.brightness ?? BACKGROUND_BRIGHTNESS);
+
+  // Candidates for text colours - not near black or white, not gray
+  const candidates = clusters
+    .map(cluster => ({ ...cluster, hsl: rgbToHsl(cluster.color) }))
+    .filter(({ hsl }) => hsl.l > 0.08 && hsl.l < 0.92 && hsl.s > 0.12);
+
+  // Favor both common and vibrant colours
+  const byScore = [...candidates].sort((a, b) => b.share * b.hsl.s - a.share * a.hsl.s);
+  const primary = options.primary
+    ? rgbToHsl(hexToRgb(options.primary))
+    : byScore.length > 0 ? toTextColor(byScore[0].hsl) : null;
+
+  if (!primary) {
+    return DEFAULT_PALETTE;
+  }
+
+  const secondaryCluster = byScore.find(c => hueDistance(c.hsl.h, primary.h) >= SECONDARY_MIN_HUE_DISTANCE);
+  const secondary = secondaryCluster
+    ? toTextColor(secondaryCluster.hsl)
+    : { ...primary, h: (primary.h + 1 / 12) % 1 };
+
+  const accentCluster = [...candidates]
+    .sort((a, b) => b.hsl.s - a.hsl.s)
+    .find(c => hueDistance(c.hsl.h, primary.h) >= ACCENT_MIN_HUE_DISTANCE);
+  const accent = accentCluster
+    ? toTextColor(accentCluster.hsl)
+    : { h: (primary.h + 0.5) % 1, s: Math.max(primary.s, 0.6), l: primary.l };
+
+  // A dark surface for panels, tinted by the dominant colour
+  const dominant = clusters.length > 0 ? rgbToHsl(clusters[0].color) : primary;
+  const surface = hslToRgb({ h: dominant.h, s: Math.min(dominant.s, 0.35), l: 0.1 });
+
+  // Text has to read on the brightest part of the dimmed background, and on the surface
+  const backgroundLuminance = Math.max(
+    getRelativeLuminance(surface),
+    ...getBackgroundClusters(clusters).map(cluster => getRelativeLuminance(dim(cluster.color, brightness)))
+  );
+  const readable = (hsl: HSL) => rgbToHex(ensureContrast(hslToRgb(hsl), backgroundLuminance));
+
+  return {
+    primary: readable(primary),
+    primaryDark: readable({ ...primary, l: Math.max(0.35, primary.l - 0.15) }),
+    primaryLight: readable({ ...primary, l: Math.min(0.85, primary.l + 0.15) }),
+    secondary: readable(secondary),
+    accent: readable(accent),
+    surface: rgbToHex(surface)
+  };
+}
+
+/**
+ * Colour clusters of RGBA pixel data (what the palette worker computes)
+ */
+export function computeClusters(pixels: Uint8ClampedArray): ColorCluster[] {
+  return kMeans(getPixelColors(pixels), CLUSTER_COUNT);
+}
+
+/**
+ * Palette for RGBA pixel data
+ */
+export function computePalette(pixels: Uint8ClampedArray, options: PaletteOptions = {}): ColorPalette {
+  return buildPalette(computeClusters(pixels), options);
+}
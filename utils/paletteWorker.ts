@@ -0,0 +1,13 @@
+/**
+ * Palette Worker - Runs the k-means clustering off the main thread
+ * Receives { id, pixels } (RGBA data) and answers { id, clusters }.
+ */
+
+import { computeClusters } from './palette';
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<{ id: number; pixels: Uint8ClampedArray }>) => {
+  const { id, pixels } = event.data;
+  scope.postMessage({ id, clusters: computeClusters(pixels) });
+};
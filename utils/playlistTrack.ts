@@ -0,0 +1,270 @@
+/**
+ * Playlist Track - Steps through library tracks with a crossfade between them
+ * Plays as one layer of the ambient mixer, on the shared Web Audio clock like
+ * WebAudioLoopingTrack: each track is decoded shortly before it is needed and
+ * starts one crossfade before the previous one ends, so background timer
+ * throttling can't delay a change. The playlist wraps around at the end,
+ * reshuffled for every pass when shuffling.
+ */
+
+import { LoopingTrack, getCrossfadeSeconds, createEqualPowerCurve, rampGain } from './loopingTrack';
+import { createPlayOrder } from './playlists';
+
+export interface PlaylistEntry {
+  id: string;  // Library track id
+  name: string;
+}
+
+// A track scheduled on the audio clock (playing, or queued to start)
+interface ScheduledEntry {
+  position: number;  // Index into the play order
+  entry: PlaylistEntry;
+  start: number;
+  duration: number;
+  crossfade: number;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+// Lead time before a track starts, so it is scheduled cleanly (seconds)
+const START_DELAY = 0.05;
+// Crossfade when skipping with next/previous (seconds)
+const SKIP_FADE = 1;
+
+const FADE_IN_CURVE = createEqualPowerCurve('in');
+const FADE_OUT_CURVE = createEqualPowerCurve('out');
+
+export class PlaylistTrack implements LoopingTrack {
+  readonly url: string;  // Identifies the layer - changes whenever the playlist does
+  private entries: PlaylistEntry[];
+  private shuffle: boolean;
+  private context: AudioContext;
+  private output: GainNode;
+  private loadUrl: (trackId: string) => Promise<string | null>;
+  private onTrackChange?: (entry: PlaylistEntry) => void;
+  private order: number[];
+  private position = 0;  // Play order index of the current track
+  private scheduled: ScheduledEntry[] = [];
+  private buffers = new Map<string, Promise<AudioBuffer>>();
+  private scheduling = false;  // A track is being decoded to be queued
+  private playing = false;
+  private generation = 0;  // Bumped on pause/skip so late 'ended' events are ignored
+
+  constructor(
+    url: string,
+    entries: PlaylistEntry[],
+    shuffle: boolean,
+    volume: number,
+    context: AudioContext,
+    loadUrl: (trackId: string) => Promise<string | null>,
+    onTrackChange?: (entry: PlaylistEntry) => void
+  ) {
+    this.url = url;
+    this.entries = entries;
+    this.shuffle = shuffle;
+    this.context = context;
+    this.loadUrl = loadUrl;
+    this.onTrackChange = onTrackChange;
+    this.order = createPlayOrder(entries.length, shuffle);
+    this.output = context.createGain();
+    this.output.gain.value = volume;
+    this.output.connect(context.destination);
+  }
+
+  // Decode a track once while it is scheduled
+  private load(entry: PlaylistEntry): Promise<AudioBuffer> {
+    let buffer = this.buffers.get(entry.id);
+    if (!buffer) {
+      buffer = this.loadUrl(entry.id).then(async (url) => {
+        if (!url) throw new Error(`Track ${entry.id} is no longer in the library`);
+        const response = await fetch(url);
+        return this.context.decodeAudioData(await response.arrayBuffer());
+      });
+      this.buffers.set(entry.id, buffer);
+    }
+    return buffer;
+  }
+
+  // Play order index after `position` - wraps around, reshuffling for the new pass
+  private advance(position: number): number {
+    if (position + 1 < this.order.length) return position + 1;
+    if (this.shuffle) {
+      this.order = createPlayOrder(this.entries.length, true, this.order[position]);
+    }
+    return 0;
+  }
+
+  // Decode and schedule the track at `position`, starting at `startAt` (or as soon
+  // as it is ready) and fading in over `fadeIn` seconds. Unplayable tracks are skipped.
+  private async scheduleEntry(position: number, startAt: number, fadeIn: number, attempts = 0): Promise<void> {
+    const generation = this.generation;
+    const entry = this.entries[this.order[position]];
+    this.scheduling = true;
+
+    let buffer: AudioBuffer;
+    try {
+      buffer = await this.load(entry);
+    } catch (error) {
+      console.error(`Failed to load playlist track "${entry.name}":`, error);
+      this.buffers.delete(entry.id);
+      if (generation !== this.generation) return;
+      this.scheduling = false;
+      if (this.playing && attempts + 1 < this.entries.length) {
+        return this.scheduleEntry(this.advance(position), startAt, fadeIn, attempts + 1);
+      }
+      return;
+    }
+
+    if (generation !== this.generation) return;
+    this.scheduling = false;
+    if (!this.playing) return;
+
+    const start = Math.max(startAt, this.context.currentTime + START_DELAY);
+    const duration = buffer.duration;
+    const crossfade = getCrossfadeSeconds(duration);
+    const fadeInSeconds = Math.min(fadeIn, duration - crossfade);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.context.createGain();
+    gain.gain.value = fadeInSeconds > 0 ? 0 : 1;
+    if (fadeInSeconds > 0) {
+      gain.gain.setValueCurveAtTime(FADE_IN_CURVE, start, fadeInSeconds);
+    }
+    gain.gain.setValueCurveAtTime(FADE_OUT_CURVE, start + duration - crossfade, crossfade);
+
+    source.connect(gain);
+    gain.connect(this.output);
+
+    const scheduled: ScheduledEntry = { position, entry, start, duration, crossfade, source, gain };
+    source.onended = () => {
+      this.scheduled = this.scheduled.filter(item => item !== scheduled);
+      gain.disconnect();
+      if (!this.scheduled.some(item => item.entry.id === entry.id)) {
+        this.buffers.delete(entry.id);
+      }
+      if (this.playing && generation === this.generation) {
+        this.handleTrackEnded();
+      }
+    };
+
+    source.start(start);
+    source.stop(start + duration);
+    this.scheduled.push(scheduled);
+
+    if (this.scheduled.length === 1) {
+      this.position = position;
+      this.onTrackChange?.(entry);
+    }
+
+    // Queue the following track well before this one ends
+    if (this.scheduled.length < 2) {
+      this.scheduleNext();
+    }
+  }
+
+  private scheduleNext() {
+    const last = this.scheduled[this.scheduled.length - 1];
+    if (!last || this.scheduling) return;
+    this.scheduleEntry(this.advance(last.position), last.start + last.duration - last.crossfade, last.crossfade);
+  }
+
+  // The previous track finished its fade-out - the queued one is now current
+  private handleTrackEnded() {
+    const current = this.scheduled[0];
+    if (current) {
+      this.position = current.position;
+      this.onTrackChange?.(current.entry);
+    }
+    if (this.scheduled.length < 2) {
+      this.scheduleNext();
+    }
+  }
+
+  // Stop every scheduled track, fading out over `fadeSeconds` (0 = at once)
+  private stopScheduled(fadeSeconds: number) {
+    this.generation++;
+    const now = this.context.currentTime;
+    this.scheduled.forEach(({ source, gain }) => {
+      try {
+        if (fadeSeconds > 0) {
+          rampGain(gain.gain, 0, now, fadeSeconds);
+          source.stop(now + fadeSeconds);
+        } else {
+          source.stop();
+        }
+      } catch {
+        // Never started - nothing to stop
+      }
+    });
+    this.scheduled = [];
+    this.scheduling = false;
+  }
+
+  // Crossfade to another track right away
+  private skipTo(position: number) {
+    if (!this.playing) {
+      this.position = position;
+      return;
+    }
+    this.stopScheduled(SKIP_FADE);
+    this.scheduleEntry(position, this.context.currentTime, SKIP_FADE);
+  }
+
+  /**
+   * Skip to the next track
+   */
+  next(): void {
+    this.skipTo(this.advance(this.position));
+  }
+
+  /**
+   * Go back to the previous track (the first one restarts)
+   */
+  previous(): void {
+    this.skipTo(Math.max(0, this.position - 1));
+  }
+
+  /**
+   * Start playing from the current track (waits for it to decode)
+   */
+  async play(): Promise<void> {
+    if (this.playing) return;
+    this.playing = true;
+
+    // Resume inside the user gesture, before any await
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    await this.scheduleEntry(this.position, this.context.currentTime, 0);
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.stopScheduled(0);
+  }
+
+  /**
+   * Set the effective volume (0-1), ramped on the audio clock
+   */
+  setVolume(volume: number, rampSeconds = 0): void {
+    rampGain(this.output.gain, volume, this.context.currentTime, rampSeconds);
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  unlock(): void {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+  }
+
+  dispose(): void {
+    this.pause();
+    this.output.disconnect();
+    this.buffers.clear();
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Playlists - Helpers for the audio library and playlists built from it
+ * Library tracks and playlists are selected like any other audio option;
+ * their ids are stored in selectedAudioId. AudioPlayer loops a single track
+ * and steps through a playlist with a crossfade between tracks.
+ */
+
+import type { LibraryTrack, Playlist } from './storage';
+
+export const TRACK_ID_PREFIX = 'track-';
+export const PLAYLIST_ID_PREFIX = 'playlist-';
+
+// Per-file upload limit, same as the single custom audio had
+export const MAX_TRACK_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Whether an audio id refers to a library track
+ */
+export function isLibraryTrackId(id: string | null | undefined): boolean {
+  return !!id && id.startsWith(TRACK_ID_PREFIX);
+}
+
+/**
+ * Whether an audio id refers to a playlist
+ */
+export function isPlaylistId(id: string | null | undefined): boolean {
+  return !!id && id.startsWith(PLAYLIST_ID_PREFIX);
+}
+
+/**
+ * Parse comma-separated tags - trimmed, lowercase, without duplicates
+ */
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Format a track length as m:ss (or h:mm:ss)
+ */
+export function formatTrackDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Every tag used in the library, sorted
+ */
+export function getLibraryTags(tracks: LibraryTrack[]): string[] {
+  return [...new Set(tracks.flatMap(track => track.tags))].sort();
+}
+
+/**
+ * Tracks of a playlist in order, skipping any deleted from the library
+ */
+export function getPlaylistTracks(playlist: Playlist, library: LibraryTrack[]): LibraryTrack[] {
+  return playlist.trackIds
+    .map(trackId => library.find(track => track.id === trackId))
+    .filter((track): track is LibraryTrack => !!track);
+}
+
+/**
+ * Short description, e.g. "3 tracks · 12:40 · Shuffle"
+ */
+export function describePlaylist(playlist: Playlist, library: LibraryTrack[]): string {
+  const tracks = getPlaylistTracks(playlist, library);
+  const duration = tracks.reduce((total, track) => total + track.durationSeconds, 0);
+  return [
+    `${tracks.length} ${tracks.length === 1 ? 'track' : 'tracks'}`,
+    formatTrackDuration(duration),
+    playlist.shuffle ? 'Shuffle' : null
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Order to play `count` tracks in - as listed, or shuffled. A shuffled pass
+ * never starts with `avoidFirst` (the track just played), so nothing repeats
+ * back to back when the playlist wraps around.
+ */
+export function createPlayOrder(count: number, shuffle: boolean, avoidFirst?: number, random = Math.random): number[] {
+  const order = Array.from({ length: count }, (_, index) => index);
+  if (!shuffle) return order;
+
+  // Fisher-Yates
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (count > 1 && order[0] === avoidFirst) {
+    [order[0], order[count - 1]] = [order[count - 1], order[0]];
+  }
+  return order;
+}
+
+/**
+ * Move a track up (-1) or down (+1) in a playlist
+ */
+export function moveTrack(trackIds: string[], index: number, direction: -1 | 1): string[] {
+  const target = index + direction;
+  if (index < 0 || index >= trackIds.length || target < 0 || target >= trackIds.length) return trackIds;
+
+  const updated = [...trackIds];
+  [updated[index], updated[target]] = [updated[target], updated[index]];
+  return updated;
+}
+
+/**
+ * Create a new playlist
+ */
+export function createPlaylist(trackIds: string[] = []): Playlist {
+  return { id: `${PLAYLIST_ID_PREFIX}${crypto.randomUUID()}`, name: 'New Playlist', trackIds, shuffle: false };
+}
+
+/**
+ * Read the length of an audio file from its metadata (0 if it can't be read)
+ */
+export function readAudioDuration(file: File): Promise<number> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish(0);
+    audio.src = url;
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Preparation - The settle-in countdown on the entry overlay
+ * Runs before the session exists: the session (and its checkpoint) is only
+ * started from onFinish, so preparation time never counts toward totalSeconds.
+ * The remaining time is read from the clock, not counted in ticks, so a
+ * throttled background tab still finishes on time.
+ */
+
+// How often the countdown checks the clock
+const PREPARATION_TICK_MS = 250;
+
+export interface PreparationCountdown {
+  skip: () => void;  // Finish right away (tap to begin now)
+  cancel: () => void;  // Stop without finishing - no session is started
+  isRunning: () => boolean;
+}
+
+/**
+ * Whole seconds left until the countdown ends (rounded up, never negative)
+ */
+export function getPreparationRemaining(endsAt: number, now: number): number {
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+/**
+ * Count down `seconds`, reporting the seconds left, then call onFinish once
+ */
+export function startPreparationCountdown(
+  seconds: number,
+  onTick: (remaining: number) => void,
+  onFinish: () => void
+): PreparationCountdown {
+  const endsAt = Date.now() + seconds * 1000;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const finish = () => {
+    if (!timer) return;  // Already finished or cancelled
+    stop();
+    onFinish();
+  };
+
+  onTick(seconds);
+  timer = setInterval(() => {
+    const remaining = getPreparationRemaining(endsAt, Date.now());
+    if (remaining <= 0) {
+      finish();
+    } else {
+      onTick(remaining);
+    }
+  }, PREPARATION_TICK_MS);
+
+  return { skip: finish, cancel: stop, isRunning: () => timer !== null };
+}
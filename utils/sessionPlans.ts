@@ -0,0 +1,69 @@
+/**
+ * Session Plans - Stage timeline helpers for multi-stage sessions
+ * A plan is a sequence of named stages; the timer finds the current stage
+ * from the elapsed seconds, the same way interval bells do
+ */
+
+import type { SessionPlan, SessionPlanStage } from './storage';
+
+export interface StagePosition {
+  index: number;
+  stage: SessionPlanStage;
+  startSeconds: number;  // offset of the stage start from the session start
+  endSeconds: number;
+}
+
+/**
+ * Total length of the plan in seconds
+ */
+export function getPlanTotalSeconds(plan: SessionPlan): number {
+  return plan.stages.reduce((total, stage) => total + Math.round(stage.minutes * 60), 0);
+}
+
+/**
+ * Find the stage running at the elapsed time.
+ * Returns null once the plan is complete (or has no stages).
+ */
+export function getStageAt(plan: SessionPlan, elapsedSeconds: number): StagePosition | null {
+  let startSeconds = 0;
+
+  for (let index = 0; index < plan.stages.length; index++) {
+    const stage = plan.stages[index];
+    const endSeconds = startSeconds + Math.round(stage.minutes * 60);
+    if (elapsedSeconds < endSeconds) {
+      return { index, stage, startSeconds, endSeconds };
+    }
+    startSeconds = endSeconds;
+  }
+
+  return null;
+}
+
+/**
+ * Whether an offset falls exactly on a boundary between two stages
+ */
+export function isStageBoundary(plan: SessionPlan, seconds: number): boolean {
+  const position = getStageAt(plan, seconds);
+  return position !== null && position.index > 0 && position.startSeconds === seconds;
+}
+
+/**
+ * Short summary of the stage lengths, e.g. "2 · 20 · 3 min"
+ */
+export function describePlan(plan: SessionPlan): string {
+  return `${plan.stages.map(stage => stage.minutes).join(' · ')} min`;
+}
+
+/**
+ * Create an empty stage for the plan editor
+ */
+export function createStage(name = 'New Stage', minutes = 5): SessionPlanStage {
+  return { id: `stage-${crypto.randomUUID()}`, name, minutes, bellStrikes: 1 };
+}
+
+/**
+ * Create a new plan with a single stage for the plan editor
+ */
+export function createPlan(): SessionPlan {
+  return { id: `plan-${crypto.randomUUID()}`, name: 'New Plan', stages: [createStage('Practice', 20)] };
+}
@@ -0,0 +1,44 @@
+/**
+ * Session Time - Active (unpaused) time calculations for a session
+ * Every consumer of the checkpoint (timer display, session end, orphan
+ * recovery) uses these so paused time is subtracted the same way everywhere
+ */
+
+import type { PausedInterval, SessionCheckpoint } from './storage';
+
+/**
+ * Total paused milliseconds up to `now`. An interval that is still open
+ * (end === null) counts until `now`. Pauses before startedAt are ignored.
+ */
+export function getPausedMs(startedAt: number, pausedIntervals: PausedInterval[] | undefined, now: number): number {
+  if (!pausedIntervals) return 0;
+
+  return pausedIntervals.reduce((total, interval) => {
+    const start = Math.max(interval.start, startedAt);
+    const end = Math.min(interval.end ?? now, now);
+    return total + Math.max(0, end - start);
+  }, 0);
+}
+
+/**
+ * Active session seconds between startedAt and `now`, minus paused time
+ */
+export function getActiveSeconds(startedAt: number, pausedIntervals: PausedInterval[] | undefined, now: number): number {
+  const activeMs = now - startedAt - getPausedMs(startedAt, pausedIntervals, now);
+  return Math.max(0, Math.floor(activeMs / 1000));
+}
+
+/**
+ * Whether the session is currently paused (last interval still open)
+ */
+export function isPaused(pausedIntervals: PausedInterval[] | undefined): boolean {
+  if (!pausedIntervals || pausedIntervals.length === 0) return false;
+  return pausedIntervals[pausedIntervals.length - 1].end === null;
+}
+
+/**
+ * Active seconds of a checkpoint as of `now` (defaults to the current time)
+ */
+export function getCheckpointActiveSeconds(checkpoint: SessionCheckpoint, now = Date.now()): number {
+  return getActiveSeconds(checkpoint.startedAt, checkpoint.pausedIntervals, now);
+}
@@ -0,0 +1,52 @@
+/**
+ * Slideshow - Helpers for the background slideshow
+ * BackgroundManager crossfades between the chosen images, each drifting with
+ * one of the Ken Burns pan/zoom animations defined in index.html. Movement is
+ * left out when the user prefers reduced motion.
+ */
+
+import type { SlideshowSettings } from './storage';
+import { PREDEFINED_IMAGES } from './mediaCatalog';
+
+// Time each image is shown, offered in the Background tab (seconds)
+export const SLIDESHOW_INTERVALS = [20, 60, 120, 300];
+
+// Crossfade between two images (seconds)
+export const SLIDE_CROSSFADE_SECONDS = 3;
+
+// Number of ken-burns-N keyframe variants in index.html
+export const KEN_BURNS_VARIANTS = 4;
+
+/**
+ * Images the slideshow cycles through - known images only, without
+ * duplicates. Empty when the slideshow is off or has fewer than two images,
+ * in which case the selected background is shown on its own.
+ */
+export function getSlideshowImageIds(settings: SlideshowSettings, hasCustomImage: boolean): string[] {
+  if (!settings.enabled) return [];
+
+  const ids = [...new Set(settings.imageIds)].filter(id =>
+    id === 'custom' ? hasCustomImage : PREDEFINED_IMAGES.some(image => image.id === id));
+  return ids.length >= 2 ? ids : [];
+}
+
+/**
+ * Where the slideshow starts - the selected background when it is included
+ */
+export function getFirstSlideIndex(imageIds: string[], selectedImageId: string | null): number {
+  return Math.max(0, imageIds.indexOf(selectedImageId || ''));
+}
+
+/**
+ * Ken Burns variant for a slide, varied so consecutive images drift differently
+ */
+export function getKenBurnsVariant(slideNumber: number): number {
+  return slideNumber % KEN_BURNS_VARIANTS;
+}
+
+/**
+ * Whether the user asked the system for reduced motion
+ */
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+}
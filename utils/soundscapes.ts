@@ -0,0 +1,57 @@
+/**
+ * Soundscapes - Helpers for named mixes of looped ambient layers
+ * A soundscape is selected like any other audio option; its id is stored
+ * in selectedAudioId and AudioPlayer plays one looping track per layer
+ */
+
+import type { Soundscape, SoundscapeLayer } from './storage';
+import { PREDEFINED_AUDIO, GENERATED_AUDIO } from './mediaCatalog';
+
+export const SOUNDSCAPE_ID_PREFIX = 'soundscape-';
+
+// Keep mixes light enough for phones to loop smoothly
+export const MAX_SOUNDSCAPE_LAYERS = 5;
+
+/**
+ * Whether a selected audio id refers to a soundscape
+ */
+export function isSoundscapeId(id: string | null | undefined): boolean {
+  return !!id && id.startsWith(SOUNDSCAPE_ID_PREFIX);
+}
+
+/**
+ * Short description of the mix, e.g. "Rain Storm + Crackling Fire"
+ */
+export function describeSoundscape(soundscape: Soundscape, customAudioName?: string | null): string {
+  return soundscape.layers
+    .map(layer => layer.audioId === 'custom'
+      ? customAudioName || 'Custom Audio'
+      : [...PREDEFINED_AUDIO, ...GENERATED_AUDIO].find(item => item.id === layer.audioId)?.name || layer.audioId)
+    .join(' + ');
+}
+
+/**
+ * Layers worth playing - drops silent and duplicate layers
+ */
+export function getAudibleLayers(soundscape: Soundscape): SoundscapeLayer[] {
+  const seen = new Set<string>();
+  return soundscape.layers.filter((layer) => {
+    if (layer.volume <= 0 || layer.audioId === 'silence' || seen.has(layer.audioId)) return false;
+    seen.add(layer.audioId);
+    return true;
+  });
+}
+
+/**
+ * Create a new layer for the mixer
+ */
+export function createLayer(audioId = 'rain', volume = 0.6): SoundscapeLayer {
+  return { audioId, volume };
+}
+
+/**
+ * Create a new soundscape for the mixer
+ */
+export function createSoundscape(): Soundscape {
+  return { id: `${SOUNDSCAPE_ID_PREFIX}${crypto.randomUUID()}`, name: 'New Soundscape', layers: [createLayer()] };
+}
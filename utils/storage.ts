@@ -4,20 +4,243 @@
  */
 
 import { generateDisplayName } from './displayName';
+import type { ColorCluster } from './palette';
+import { dataUrlToBlob, isDataUrl } from './mediaBlobs';
+import { isLibraryTrackId } from './playlists';
+import {
+  StorageSchema,
+  Guard,
+  guardsFromDefaults,
+  hasFields,
+  isArrayOf,
+  isNullable,
+  isNumber,
+  isRecord,
+  isString,
+  parseJson,
+  readVersioned,
+  repairFields,
+  writeVersioned
+} from './storageSchema';
+
+// Bells rung during a session, at offsets from the session start
+interface IntervalBellSchedule {
+  mode: 'off' | 'every' | 'custom';
+  everyMinutes?: number;     // For 'every' mode
+  customMinutes?: number[];  // For 'custom' mode, sorted offsets in minutes
+}
+
+// One named stage of a session plan (e.g. 2 min settling)
+interface SessionPlanStage {
+  id: string;
+  name: string;
+  minutes: number;
+  bellStrikes: number;  // Strikes rung when this stage begins, so boundaries sound distinct
+}
+
+// Multi-stage session plan (settle, practice, cool-down)
+interface SessionPlan {
+  id: string;
+  name: string;
+  stages: SessionPlanStage[];
+}
+
+// User-defined timer preset button (e.g. "Morning 25")
+interface TimerPreset {
+  id: string;
+  label: string;
+  minutes: number;
+  audioId?: string | null;  // Sound to switch to, null keeps the current one
+  imageId?: string | null;  // Background to switch to, null keeps the current one
+}
+
+// What happens when a count-down (or plan) reaches its goal
+interface GoalBehavior {
+  mode: 'continue' | 'auto-end' | 'reminder';
+  reminderMinutes?: number;  // For 'reminder' mode, bell every N minutes of overtime
+}
 
 interface TimerSettings {
-  type: 'count-up' | 'count-down';
+  type: 'count-up' | 'count-down' | 'plan';
   targetMinutes?: number;  // For count-down mode
+  presetId?: string;       // Preset that set the count-down target, if any
+  planId?: string;         // For plan mode
+  intervalBells?: IntervalBellSchedule;
+  preparationSeconds?: number;  // Warm-up countdown before the session starts (0 = off)
+  goalBehavior?: GoalBehavior;
+}
+
+// Seconds spent in each part of one breath
+interface BreathingTimings {
+  inhale: number;
+  holdIn: number;
+  exhale: number;
+  holdOut: number;
+}
+
+// Breathing pacer shown next to the clock
+interface BreathingSettings {
+  enabled: boolean;
+  patternId: string;  // Preset pattern id or 'custom'
+  customPattern?: BreathingTimings;
+  targetCycles: number;  // 0 = keep pacing until the session ends
+  ticks: boolean;  // Soft audio tick at each phase change
+}
+
+// One looped sound in a soundscape mix
+interface SoundscapeLayer {
+  audioId: string;  // Predefined or generated audio id, library track id, or 'custom'
+  volume: number;   // 0-1, relative to the master volume
+}
+
+// Named mix of ambient layers (e.g. rain + fire + om chant)
+interface Soundscape {
+  id: string;  // Always starts with 'soundscape-' so it can be told apart from audio ids
+  name: string;
+  layers: SoundscapeLayer[];
+}
+
+// Bell used for completion, interval and stage cues
+interface BellSettings {
+  soundId: string;  // Bundled bell id or 'custom'
+  volume: number;   // 0-1, separate from the ambient sound
+  customBellName?: string | null;
+}
+
+// Parameters of a procedural sound (noise, drone, pad) - not every generator uses all three
+interface GeneratorParams {
+  pitch: number;       // Root note, semitones above C (0-11)
+  brightness: number;  // 0-1, opens the filter / adds upper partials
+  density: number;     // 0-1, steadiness of noise, pluck rate of the drone, voices of the pad
+}
+
+// Audio file in the personal library (IndexedDB) - the file itself is stored separately
+interface LibraryTrack {
+  id: string;  // Always starts with 'track-'
+  name: string;
+  durationSeconds: number;
+  tags: string[];
+  mimeType: string;
+  addedAt: number;
+}
+
+// Ordered list of library tracks, selected like any other audio option
+interface Playlist {
+  id: string;  // Always starts with 'playlist-'
+  name: string;
+  trackIds: string[];
+  shuffle: boolean;
+}
+
+// Overall ambient volume and the fades at session start and end
+interface VolumeSettings {
+  masterVolume: number;  // 0-1, applied on top of every layer
+  fadeInSeconds: number;  // 0 = start at full volume
+  fadeOutSeconds: number;  // 0 = stop at once when the session ends
+}
+
+// Brainwave entrainment tones played with (or instead of) the ambient sound
+interface EntrainmentSettings {
+  mode: 'off' | 'binaural' | 'isochronic';
+  bandId: string;  // Target band id ('alpha', 'theta', 'delta') or 'custom'
+  customStartHz: number;  // Custom beat ramp, used when bandId is 'custom'
+  customEndHz: number;
+  carrierHz: number;  // Audible tone the beat is carried on
+  volume: number;  // 0-1, relative to the master volume
+  withAmbient: boolean;  // Layer underneath the selected ambient sound, or play alone
+}
+
+// One spoken prompt of a guidance script
+interface GuidedCue {
+  id: string;
+  anchor: 'start' | 'end';  // Counted from the session start, or back from the goal
+  minutes: number;
+  text: string;  // Spoken with the browser voice (also labels a clip)
+  clipId?: string | null;  // Library track played instead of speaking the text
+}
+
+// Named set of cues spoken during a session
+interface CueScript {
+  id: string;  // Always starts with 'cues-'
+  name: string;
+  cues: GuidedCue[];
+}
+
+// How guidance cues are voiced, and how far the ambient sound dips under them
+interface GuidanceSettings {
+  scriptId: string | null;  // Active script, null = no guidance
+  voiceName: string | null;  // Speech synthesis voice, null = browser default
+  rate: number;  // Speaking rate, 1 = normal
+  volume: number;  // 0-1, separate from the ambient sound
+  duckLevel: number;  // 0-1, ambient volume while a cue plays
+}
+
+// Background slideshow cycling through several images
+interface SlideshowSettings {
+  enabled: boolean;
+  imageIds: string[];  // Predefined image ids or 'custom', in display order
+  intervalSeconds: number;  // Time each image is shown
+  motion: boolean;  // Slow pan and zoom (always off with prefers-reduced-motion)
+}
+
+// Appearance choices on top of the palette extracted from the background
+interface ThemeSettings {
+  primary: string | null;  // Locked primary colour (hex), null = follow the background
+  brightness: number;  // Background brightness, 0-1 (0.3 = the original dimming)
+  overlay: number;  // Strength of the dark top/bottom gradient, 0-1
+}
+
+// A theme saved by name in the theme editor
+interface SavedTheme extends ThemeSettings {
+  id: string;
+  name: string;
+}
+
+// Part of the day with its own background (and optionally theme)
+interface TimeWindow {
+  id: string;  // 'morning', 'day', 'evening' or 'night'
+  name: string;
+  startMinutes: number;  // Minutes after local midnight the window begins
+  imageId: string;  // Any background id (image, video or generated)
+  themeId: string | null;  // 'night', a saved theme id, or null for the user's theme
+}
+
+// Backgrounds chosen by the local time instead of the selected one
+interface TimeOfDaySettings {
+  enabled: boolean;
+  windows: TimeWindow[];
+}
+
+// Themes as synced to the server (user_preferences.theme_colors)
+interface ThemeColors {
+  current: ThemeSettings;
+  themes: SavedTheme[];
 }
 
 interface UserSettings {
   userId: string;
   displayName: string;
-  selectedAudioId: string | null;  // Can be 'predefined-1', 'custom', or 'silence'
-  selectedImageId: string | null;  // Can be 'predefined-1' or 'custom'
+  selectedAudioId: string | null;  // Can be 'predefined-1', 'custom', 'silence', a generated sound, a library track, a playlist or a soundscape id
+  selectedImageId: string | null;  // Can be 'predefined-1', 'custom', a predefined video id, 'custom-video' or a generated background
   customAudioName: string | null;
   customImageName: string | null;
+  customVideoName?: string | null;
   timerSettings?: TimerSettings;
+  sessionPlans?: SessionPlan[];
+  timerPresets?: TimerPreset[];
+  breathingSettings?: BreathingSettings;
+  bellSettings?: BellSettings;
+  soundscapes?: Soundscape[];
+  generatorSettings?: Record<string, Partial<GeneratorParams>>;  // Keyed by generator id
+  entrainmentSettings?: EntrainmentSettings;
+  volumeSettings?: VolumeSettings;
+  playlists?: Playlist[];
+  cueScripts?: CueScript[];
+  guidanceSettings?: GuidanceSettings;
+  slideshowSettings?: SlideshowSettings;
+  themeSettings?: ThemeSettings;
+  savedThemes?: SavedTheme[];
+  timeOfDaySettings?: TimeOfDaySettings;
 }
 
 interface LocalStats {
@@ -26,6 +249,12 @@ interface LocalStats {
   sessionsCount: number;
 }
 
+// Span of time during which a session was paused
+interface PausedInterval {
+  start: number;  // timestamp
+  end: number | null;  // timestamp, null while still paused
+}
+
 // Active session checkpoint - saved frequently to survive page close
 // Sessions only end when user explicitly ends them (button, refresh, or close)
 interface SessionCheckpoint {
@@ -33,7 +262,20 @@ interface SessionCheckpoint {
   userId: string;
   startedAt: number;  // timestamp
   lastCheckpoint: number;  // timestamp of last save
-  elapsedSeconds: number;  // seconds elapsed at last checkpoint
+  elapsedSeconds: number;  // active (unpaused) seconds at last checkpoint
+  plan?: SessionPlan;  // plan followed during the session, if any
+  pausedIntervals?: PausedInterval[];  // subtracted from elapsed time everywhere
+  breathCycles?: number;  // breathing pacer cycles completed so far
+}
+
+// Completed session kept in local history
+interface SessionRecord {
+  sessionId: string;
+  startedAt: number;
+  endedAt: number;
+  durationSeconds: number;
+  plan?: SessionPlan;
+  breathCycles?: number;
 }
 
 const STORAGE_KEYS = {
@@ -42,9 +284,23 @@ const STORAGE_KEYS = {
   SETTINGS: 'om-user-settings',
   LOCAL_STATS: 'om-local-stats',
   SESSION_CHECKPOINT: 'om-session-checkpoint',
-  PENDING_ORPHAN_SESSION: 'om-pending-orphan-session'
+  PENDING_ORPHAN_SESSION: 'om-pending-orphan-session',
+  SESSION_HISTORY: 'om-session-history',
+  PALETTE_CACHE: 'om-palette-cache'
 };
 
+// Keep local history bounded - older sessions live on in the database
+const MAX_SESSION_HISTORY = 500;
+
+// Palettes kept for backgrounds seen recently - the least recently used go first
+const MAX_CACHED_PALETTES = 30;
+
+// Colour clusters extracted from a background (the palette is built from them), keyed by the background
+interface CachedPalette {
+  clusters: ColorCluster[];
+  usedAt: number;  // timestamp
+}
+
 // Orphaned session awaiting user confirmation
 interface PendingOrphanSession {
   sessionId: string;
@@ -52,16 +308,313 @@ interface PendingOrphanSession {
   startedAt: number;
   endedAt: number;
   durationSeconds: number;
+  plan?: SessionPlan;
+  breathCycles?: number;
+}
+
+const DEFAULT_SOUNDSCAPES: Soundscape[] = [
+  {
+    id: 'soundscape-rainy-hearth',
+    name: 'Rainy Hearth',
+    layers: [
+      { audioId: 'rain', volume: 0.7 },
+      { audioId: 'fire', volume: 0.5 },
+      { audioId: 'om-mantra', volume: 0.3 }
+    ]
+  }
+];
+
+const DEFAULT_CUE_SCRIPTS: CueScript[] = [
+  {
+    id: 'cues-gentle-guidance',
+    name: 'Gentle Guidance',
+    cues: [
+      { id: 'cue-settle', anchor: 'start', minutes: 0, text: 'Settle in, and let your eyes close.' },
+      { id: 'cue-breath', anchor: 'start', minutes: 1, text: 'Bring your attention to the breath.' },
+      { id: 'cue-return', anchor: 'start', minutes: 5, text: 'If the mind has wandered, gently return to the breath.' },
+      { id: 'cue-ten', anchor: 'end', minutes: 10, text: 'Ten minutes remain.' },
+      { id: 'cue-one', anchor: 'end', minutes: 1, text: 'One minute remains.' }
+    ]
+  }
+];
+
+const DEFAULT_GUIDANCE_SETTINGS: GuidanceSettings = {
+  scriptId: null,
+  voiceName: null,
+  rate: 0.9,
+  volume: 0.9,
+  duckLevel: 0.3
+};
+
+const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  enabled: false,
+  imageIds: ['mountain-sunrise', 'ocean-sunset', 'forest-mist'],
+  intervalSeconds: 60,
+  motion: true
+};
+
+const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  primary: null,
+  brightness: 0.3,
+  overlay: 1
+};
+
+const DEFAULT_TIME_OF_DAY_SETTINGS: TimeOfDaySettings = {
+  enabled: false,
+  windows: [
+    { id: 'morning', name: 'Morning', startMinutes: 5 * 60, imageId: 'mountain-sunrise', themeId: null },
+    { id: 'day', name: 'Day', startMinutes: 10 * 60, imageId: 'forest-mist', themeId: null },
+    { id: 'evening', name: 'Evening', startMinutes: 17 * 60, imageId: 'ocean-sunset', themeId: null },
+    { id: 'night', name: 'Night', startMinutes: 21 * 60, imageId: 'drifting-particles', themeId: 'night' }
+  ]
+};
+
+const DEFAULT_VOLUME_SETTINGS: VolumeSettings = {
+  masterVolume: 0.8,
+  fadeInSeconds: 3,
+  fadeOutSeconds: 5
+};
+
+// Keep volume settings in range - an imported or hand-edited value can't
+// overdrive the gain or run a fade backwards
+function clampVolumeSettings(settings: VolumeSettings): VolumeSettings {
+  return {
+    ...settings,
+    masterVolume: Math.min(1, Math.max(0, settings.masterVolume)),
+    fadeInSeconds: Math.max(0, settings.fadeInSeconds),
+    fadeOutSeconds: Math.max(0, settings.fadeOutSeconds)
+  };
 }
 
+const DEFAULT_ENTRAINMENT_SETTINGS: EntrainmentSettings = {
+  mode: 'off',
+  bandId: 'alpha',
+  customStartHz: 10,
+  customEndHz: 6,
+  carrierHz: 200,
+  volume: 0.3,
+  withAmbient: true
+};
+
+const DEFAULT_BELL_SETTINGS: BellSettings = {
+  soundId: 'singing-bowl',
+  volume: 0.8,
+  customBellName: null
+};
+
+const DEFAULT_BREATHING_SETTINGS: BreathingSettings = {
+  enabled: false,
+  patternId: 'box',
+  customPattern: { inhale: 4, holdIn: 2, exhale: 6, holdOut: 0 },
+  targetCycles: 0,
+  ticks: false
+};
+
+// The original fixed preset buttons
+const DEFAULT_TIMER_PRESETS: TimerPreset[] = [
+  { id: 'preset-10', label: '10 Min', minutes: 10 },
+  { id: 'preset-20', label: '20 Min', minutes: 20 },
+  { id: 'preset-30', label: '30 Min', minutes: 30 },
+  { id: 'preset-60', label: '1 Hour', minutes: 60 }
+];
+
+const DEFAULT_SESSION_PLANS: SessionPlan[] = [
+  {
+    id: 'plan-default',
+    name: 'Settle, Practice, Cool-down',
+    stages: [
+      { id: 'stage-settle', name: 'Settling', minutes: 2, bellStrikes: 1 },
+      { id: 'stage-practice', name: 'Practice', minutes: 20, bellStrikes: 2 },
+      { id: 'stage-metta', name: 'Loving-Kindness', minutes: 3, bellStrikes: 3 }
+    ]
+  }
+];
+
+// Settings fields and the type each must have - an invalid one is reset to
+// its default (or dropped, so the getter's default applies)
+const SETTINGS_GUARDS: Record<keyof UserSettings, Guard> = {
+  userId: isString,
+  displayName: isString,
+  selectedAudioId: isNullable(isString),
+  selectedImageId: isNullable(isString),
+  customAudioName: isNullable(isString),
+  customImageName: isNullable(isString),
+  customVideoName: isNullable(isString),
+  timerSettings: value => hasFields(value, { type: isString }),
+  sessionPlans: isArrayOf(isRecord),
+  timerPresets: isArrayOf(isRecord),
+  breathingSettings: isRecord,
+  bellSettings: isRecord,
+  soundscapes: isArrayOf(isRecord),
+  generatorSettings: isRecord,
+  entrainmentSettings: isRecord,
+  volumeSettings: isRecord,
+  playlists: isArrayOf(isRecord),
+  cueScripts: isArrayOf(isRecord),
+  guidanceSettings: isRecord,
+  slideshowSettings: isRecord,
+  themeSettings: isRecord,
+  savedThemes: isArrayOf(isRecord),
+  timeOfDaySettings: isRecord
+};
+
+// Settings groups whose fields are checked against their defaults too
+const NESTED_SETTINGS_DEFAULTS: Partial<Record<keyof UserSettings, object>> = {
+  breathingSettings: DEFAULT_BREATHING_SETTINGS,
+  bellSettings: DEFAULT_BELL_SETTINGS,
+  entrainmentSettings: DEFAULT_ENTRAINMENT_SETTINGS,
+  volumeSettings: DEFAULT_VOLUME_SETTINGS,
+  guidanceSettings: DEFAULT_GUIDANCE_SETTINGS,
+  slideshowSettings: DEFAULT_SLIDESHOW_SETTINGS,
+  themeSettings: DEFAULT_THEME_SETTINGS,
+  timeOfDaySettings: DEFAULT_TIME_OF_DAY_SETTINGS
+};
+
+const SESSION_RECORD_GUARDS: Record<string, Guard> = {
+  sessionId: isString,
+  startedAt: isNumber,
+  endedAt: isNumber,
+  durationSeconds: isNumber
+};
+
+const OPTIONAL_SESSION_GUARDS: Record<string, Guard> = {
+  plan: isRecord,
+  breathCycles: isNumber
+};
+
+// Plain strings (user id, display name)
+const TEXT_SCHEMA: StorageSchema<string> = {
+  version: 1,
+  migrations: {},
+  validate: data => (isString(data) && data ? data : null)
+};
+
+// Version 0 -> 1 for the JSON keys: the raw string becomes its parsed value
+const JSON_MIGRATIONS = { 0: parseJson };
+
+const SETTINGS_SCHEMA: StorageSchema<UserSettings> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: (data) => {
+    if (!isRecord(data)) return null;
+    const settings = repairFields<Record<string, unknown>>(data, SETTINGS_GUARDS, getDefaultSettings());
+    Object.entries(NESTED_SETTINGS_DEFAULTS).forEach(([key, defaults]) => {
+      const group = settings[key];
+      if (isRecord(group)) {
+        settings[key] = repairFields(group, guardsFromDefaults(defaults));
+      }
+    });
+    return settings as unknown as UserSettings;
+  }
+};
+
+const LOCAL_STATS_SCHEMA: StorageSchema<LocalStats> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: data => (isRecord(data)
+    ? repairFields<LocalStats>(data, { totalSeconds: isNumber, lastSession: isNullable(isString), sessionsCount: isNumber }, getDefaultLocalStats())
+    : null)
+};
+
+const SESSION_CHECKPOINT_SCHEMA: StorageSchema<SessionCheckpoint> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: (data) => {
+    const required = { sessionId: isString, userId: isString, startedAt: isNumber, lastCheckpoint: isNumber, elapsedSeconds: isNumber };
+    return hasFields(data, required)
+      ? repairFields<SessionCheckpoint>(data, { ...OPTIONAL_SESSION_GUARDS, pausedIntervals: isArrayOf(value => hasFields(value, { start: isNumber })) })
+      : null;
+  }
+};
+
+const PENDING_ORPHAN_SESSION_SCHEMA: StorageSchema<PendingOrphanSession> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: data => (hasFields(data, { ...SESSION_RECORD_GUARDS, userId: isString })
+    ? repairFields<PendingOrphanSession>(data, OPTIONAL_SESSION_GUARDS)
+    : null)
+};
+
+// Invalid records are left out, the rest of the history is kept
+const SESSION_HISTORY_SCHEMA: StorageSchema<SessionRecord[]> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: data => (Array.isArray(data)
+    ? data
+      .filter(record => hasFields(record, SESSION_RECORD_GUARDS))
+      .map(record => repairFields<SessionRecord>(record, OPTIONAL_SESSION_GUARDS))
+    : null)
+};
+
+const PALETTE_CACHE_SCHEMA: StorageSchema<Record<string, CachedPalette>> = {
+  version: 1,
+  migrations: JSON_MIGRATIONS,
+  validate: data => (isRecord(data)
+    ? Object.fromEntries(Object.entries(data).filter(([, entry]) =>
+      hasFields(entry, { clusters: isArrayOf(isRecord), usedAt: isNumber }))) as Record<string, CachedPalette>
+    : null)
+};
+
+// Read a key through its schema (null when missing or unusable)
+function readStored<T>(key: string, schema: StorageSchema<T>): T | null {
+  try {
+    return readVersioned(localStorage.getItem(key), schema);
+  } catch {
+    return null;  // A migration failed on an unexpected shape
+  }
+}
+
+function writeStored<T>(key: string, schema: StorageSchema<T>, data: T): void {
+  localStorage.setItem(key, writeVersioned(data, schema));
+}
+
+function getDefaultSettings(): UserSettings {
+  return {
+    userId: StorageManager.getUserId(),
+    displayName: StorageManager.getDisplayName(),
+    selectedAudioId: null,
+    selectedImageId: null,
+    customAudioName: null,
+    customImageName: null
+  };
+}
+
+function getDefaultLocalStats(): LocalStats {
+  return {
+    totalSeconds: 0,
+    lastSession: null,
+    sessionsCount: 0
+  };
+}
+
+// Kinds of custom file kept in the media cache (one of each)
+type MediaType = 'audio' | 'image' | 'bell' | 'video';
+
 const DB_NAME = 'MeditationTimerDB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const MEDIA_STORE = 'customMedia';
+// Audio library: track metadata, and the files kept apart so listing stays light
+const LIBRARY_STORE = 'audioLibrary';
+const LIBRARY_DATA_STORE = 'audioLibraryData';
+
+// Convert the data URLs stored before version 3 to Blobs, in place
+function migrateToBlobs(store: IDBObjectStore, fallbackType: (record: { mimeType?: string }) => string) {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    if (isDataUrl(cursor.value.data)) {
+      cursor.update({ ...cursor.value, data: dataUrlToBlob(cursor.value.data, fallbackType(cursor.value)) });
+    }
+    cursor.continue();
+  };
+}
 
-// IndexedDB for storing large files (audio/images)
+// IndexedDB for storing large files (audio/images) as Blobs
 class MediaCache {
   private db: IDBDatabase | null = null;
   private dbReady: Promise<IDBDatabase>;
+  // Object URLs handed out, by record id - reused until the file changes
+  private objectUrls = new Map<string, { url: string; source: string }>();
 
   constructor() {
     this.dbReady = this.initDB();
@@ -79,42 +632,88 @@ class MediaCache {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
         if (!db.objectStoreNames.contains(MEDIA_STORE)) {
           db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
         }
+        // Version 2: audio library
+        if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+          db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LIBRARY_DATA_STORE)) {
+          db.createObjectStore(LIBRARY_DATA_STORE, { keyPath: 'id' });
+        }
+        // Version 3: files stored as Blobs instead of data URLs
+        if (event.oldVersion > 0 && event.oldVersion < 3) {
+          migrateToBlobs(transaction.objectStore(MEDIA_STORE), record => record.mimeType || '');
+          migrateToBlobs(transaction.objectStore(LIBRARY_DATA_STORE), () => '');
+        }
       };
     });
   }
 
-  async saveFile(type: 'audio' | 'image', file: File): Promise<string> {
+  /**
+   * Object URL for a stored file, created once per record and version
+   */
+  private getObjectUrl(id: string, blob: Blob, version: number): string {
+    const source = `${id}:${version}`;
+    const existing = this.objectUrls.get(id);
+    if (existing?.source === source) {
+      return existing.url;
+    }
+    this.revokeObjectUrl(id);
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(id, { url, source });
+    return url;
+  }
+
+  // Release the object URL of a file that was replaced or deleted
+  private revokeObjectUrl(id: string) {
+    const existing = this.objectUrls.get(id);
+    if (existing) {
+      URL.revokeObjectURL(existing.url);
+      this.objectUrls.delete(id);
+    }
+  }
+
+  /**
+   * Stable name for an object URL handed out by the cache (record id and
+   * version) - object URLs change on every load, so caches key by this
+   */
+  getUrlSource(url: string): string | null {
+    for (const { url: objectUrl, source } of this.objectUrls.values()) {
+      if (objectUrl === url) return source;
+    }
+    return null;
+  }
+
+  async saveFile(type: MediaType, file: File): Promise<string> {
     const db = await this.dbReady;
     const id = `custom-${type}`;
 
     return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const transaction = db.transaction([MEDIA_STORE], 'readwrite');
-        const store = transaction.objectStore(MEDIA_STORE);
-
-        const data = {
-          id,
-          type,
-          name: file.name,
-          mimeType: file.type,
-          data: reader.result,
-          savedAt: Date.now()
-        };
-
-        const request = store.put(data);
-        request.onsuccess = () => resolve(id);
-        request.onerror = () => reject(request.error);
+      const transaction = db.transaction([MEDIA_STORE], 'readwrite');
+      const store = transaction.objectStore(MEDIA_STORE);
+
+      const data = {
+        id,
+        type,
+        name: file.name,
+        mimeType: file.type,
+        data: file,
+        savedAt: Date.now()
+      };
+
+      const request = store.put(data);
+      request.onsuccess = () => {
+        this.revokeObjectUrl(id);
+        resolve(id);
       };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(file);
+      request.onerror = () => reject(request.error);
     });
   }
 
-  async getFile(type: 'audio' | 'image'): Promise<{ url: string; name: string } | null> {
+  async getFile(type: MediaType): Promise<{ url: string; name: string } | null> {
     const db = await this.dbReady;
     const id = `custom-${type}`;
 
@@ -126,7 +725,7 @@ class MediaCache {
       request.onsuccess = () => {
         if (request.result) {
           resolve({
-            url: request.result.data as string,
+            url: this.getObjectUrl(id, request.result.data as Blob, request.result.savedAt),
             name: request.result.name
           });
         } else {
@@ -137,7 +736,26 @@ class MediaCache {
     });
   }
 
-  async deleteFile(type: 'audio' | 'image'): Promise<void> {
+  /**
+   * The stored file itself, for backups (null if there is none)
+   */
+  async getStoredFile(type: MediaType): Promise<{ name: string; mimeType: string; blob: Blob } | null> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction([MEDIA_STORE], 'readonly');
+      const request = transaction.objectStore(MEDIA_STORE).get(`custom-${type}`);
+
+      request.onsuccess = () => {
+        resolve(request.result
+          ? { name: request.result.name, mimeType: request.result.mimeType, blob: request.result.data as Blob }
+          : null);
+      };
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  async deleteFile(type: MediaType): Promise<void> {
     const db = await this.dbReady;
     const id = `custom-${type}`;
 
@@ -146,10 +764,154 @@ class MediaCache {
       const store = transaction.objectStore(MEDIA_STORE);
       const request = store.delete(id);
 
+      request.onsuccess = () => {
+        this.revokeObjectUrl(id);
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Add an audio file to the library
+   */
+  async addLibraryTrack(file: File, durationSeconds: number, tags: string[] = []): Promise<LibraryTrack> {
+    const db = await this.dbReady;
+    const track: LibraryTrack = {
+      id: `track-${crypto.randomUUID()}`,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      durationSeconds,
+      tags,
+      mimeType: file.type,
+      addedAt: Date.now()
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LIBRARY_STORE, LIBRARY_DATA_STORE], 'readwrite');
+      transaction.objectStore(LIBRARY_STORE).put(track);
+      transaction.objectStore(LIBRARY_DATA_STORE).put({ id: track.id, data: file });
+      transaction.oncomplete = () => resolve(track);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Put a track back into the library as it was (from a backup), keeping its
+   * id so playlists and cues still find it
+   */
+  async restoreLibraryTrack(track: LibraryTrack, blob: Blob): Promise<void> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LIBRARY_STORE, LIBRARY_DATA_STORE], 'readwrite');
+      transaction.objectStore(LIBRARY_STORE).put(track);
+      transaction.objectStore(LIBRARY_DATA_STORE).put({ id: track.id, data: blob });
+      transaction.oncomplete = () => {
+        this.revokeObjectUrl(track.id);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Every library track, oldest first (metadata only)
+   */
+  async getLibraryTracks(): Promise<LibraryTrack[]> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction([LIBRARY_STORE], 'readonly');
+      const request = transaction.objectStore(LIBRARY_STORE).getAll();
+
+      request.onsuccess = () => {
+        resolve((request.result as LibraryTrack[]).sort((a, b) => a.addedAt - b.addedAt));
+      };
+      request.onerror = () => resolve([]);
+    });
+  }
+
+  /**
+   * Playable URL of a library track (null if it was deleted)
+   */
+  async getLibraryTrackUrl(trackId: string): Promise<string | null> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction([LIBRARY_DATA_STORE], 'readonly');
+      const request = transaction.objectStore(LIBRARY_DATA_STORE).get(trackId);
+
+      // Track files never change, so one URL per track lasts until it's deleted
+      request.onsuccess = () => resolve(request.result ? this.getObjectUrl(trackId, request.result.data as Blob, 0) : null);
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  /**
+   * The file of a library track, for backups (null if it was deleted)
+   */
+  async getLibraryTrackBlob(trackId: string): Promise<Blob | null> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction([LIBRARY_DATA_STORE], 'readonly');
+      const request = transaction.objectStore(LIBRARY_DATA_STORE).get(trackId);
+
+      request.onsuccess = () => resolve(request.result ? request.result.data as Blob : null);
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  /**
+   * Save edited track metadata (name, tags)
+   */
+  async updateLibraryTrack(track: LibraryTrack): Promise<void> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LIBRARY_STORE], 'readwrite');
+      const request = transaction.objectStore(LIBRARY_STORE).put(track);
+
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
+
+  /**
+   * Remove a track and its file from the library
+   */
+  async deleteLibraryTrack(trackId: string): Promise<void> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LIBRARY_STORE, LIBRARY_DATA_STORE], 'readwrite');
+      transaction.objectStore(LIBRARY_STORE).delete(trackId);
+      transaction.objectStore(LIBRARY_DATA_STORE).delete(trackId);
+      transaction.oncomplete = () => {
+        this.revokeObjectUrl(trackId);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Remove every track from the library
+   */
+  async clearLibrary(): Promise<void> {
+    const db = await this.dbReady;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LIBRARY_STORE, LIBRARY_DATA_STORE], 'readwrite');
+      transaction.objectStore(LIBRARY_STORE).clear();
+      transaction.objectStore(LIBRARY_DATA_STORE).clear();
+      transaction.oncomplete = () => {
+        [...this.objectUrls.keys()].filter(isLibraryTrackId).forEach(id => this.revokeObjectUrl(id));
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
 }
 
 // Singleton instance
@@ -160,10 +922,10 @@ export const StorageManager = {
    * Get or generate user ID
    */
   getUserId: (): string => {
-    let userId = localStorage.getItem(STORAGE_KEYS.USER_ID);
+    let userId = readStored(STORAGE_KEYS.USER_ID, TEXT_SCHEMA);
     if (!userId) {
       userId = crypto.randomUUID();
-      localStorage.setItem(STORAGE_KEYS.USER_ID, userId);
+      writeStored(STORAGE_KEYS.USER_ID, TEXT_SCHEMA, userId);
     }
     return userId;
   },
@@ -172,42 +934,40 @@ export const StorageManager = {
    * Get or generate display name (two random words)
    */
   getDisplayName: (): string => {
-    let displayName = localStorage.getItem(STORAGE_KEYS.DISPLAY_NAME);
+    let displayName = readStored(STORAGE_KEYS.DISPLAY_NAME, TEXT_SCHEMA);
     if (!displayName) {
       displayName = generateDisplayName();
-      localStorage.setItem(STORAGE_KEYS.DISPLAY_NAME, displayName);
+      writeStored(STORAGE_KEYS.DISPLAY_NAME, TEXT_SCHEMA, displayName);
     }
     return displayName;
   },
 
+  /**
+   * Set the user ID (when restoring a backup from another browser)
+   */
+  setUserId: (userId: string): void => {
+    writeStored(STORAGE_KEYS.USER_ID, TEXT_SCHEMA, userId);
+  },
+
   /**
    * Set display name (allows user to regenerate)
    */
   setDisplayName: (name: string): void => {
-    localStorage.setItem(STORAGE_KEYS.DISPLAY_NAME, name);
+    writeStored(STORAGE_KEYS.DISPLAY_NAME, TEXT_SCHEMA, name);
   },
 
   /**
    * Get user settings
    */
   getSettings: (): UserSettings => {
-    const stored = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch {
-        // Invalid JSON, return defaults
-      }
-    }
+    return readStored(STORAGE_KEYS.SETTINGS, SETTINGS_SCHEMA) || getDefaultSettings();
+  },
 
-    return {
-      userId: StorageManager.getUserId(),
-      displayName: StorageManager.getDisplayName(),
-      selectedAudioId: null,
-      selectedImageId: null,
-      customAudioName: null,
-      customImageName: null
-    };
+  /**
+   * Replace all user settings
+   */
+  saveSettings: (settings: UserSettings) => {
+    writeStored(STORAGE_KEYS.SETTINGS, SETTINGS_SCHEMA, settings);
   },
 
   /**
@@ -216,34 +976,309 @@ export const StorageManager = {
   updateSettings: (partial: Partial<Omit<UserSettings, 'userId'>>) => {
     const current = StorageManager.getSettings();
     const updated = { ...current, ...partial };
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(updated));
+    writeStored(STORAGE_KEYS.SETTINGS, SETTINGS_SCHEMA, updated);
   },
 
   /**
-   * Get local stats
+   * Update timer settings (partial update, keeps the other timer fields)
    */
-  getLocalStats: (): LocalStats => {
-    const stored = localStorage.getItem(STORAGE_KEYS.LOCAL_STATS);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch {
-        // Invalid JSON, return defaults
+  updateTimerSettings: (partial: Partial<TimerSettings>) => {
+    const current = StorageManager.getSettings().timerSettings || { type: 'count-up' };
+    StorageManager.updateSettings({
+      timerSettings: { ...current, ...partial }
+    });
+  },
+
+  /**
+   * Get saved session plans (falls back to the built-in plan)
+   */
+  getSessionPlans: (): SessionPlan[] => {
+    return StorageManager.getSettings().sessionPlans || DEFAULT_SESSION_PLANS;
+  },
+
+  /**
+   * Save session plans
+   */
+  saveSessionPlans: (plans: SessionPlan[]) => {
+    StorageManager.updateSettings({ sessionPlans: plans });
+  },
+
+  /**
+   * Get the plan selected in timer settings (null when not in plan mode)
+   */
+  getActiveSessionPlan: (): SessionPlan | null => {
+    const timerSettings = StorageManager.getSettings().timerSettings;
+    if (timerSettings?.type !== 'plan') return null;
+    return StorageManager.getSessionPlans().find(plan => plan.id === timerSettings.planId) || null;
+  },
+
+  /**
+   * Get timer presets (falls back to the built-in 10/20/30/60 buttons)
+   */
+  getTimerPresets: (): TimerPreset[] => {
+    return StorageManager.getSettings().timerPresets || DEFAULT_TIMER_PRESETS;
+  },
+
+  /**
+   * Save timer presets (in display order)
+   */
+  saveTimerPresets: (presets: TimerPreset[]) => {
+    StorageManager.updateSettings({ timerPresets: presets });
+  },
+
+  /**
+   * Whether the user has saved their own presets (vs. the built-in ones)
+   */
+  hasCustomTimerPresets: (): boolean => {
+    return !!StorageManager.getSettings().timerPresets;
+  },
+
+  /**
+   * Get breathing pacer settings (with defaults for missing fields)
+   */
+  getBreathingSettings: (): BreathingSettings => {
+    return { ...DEFAULT_BREATHING_SETTINGS, ...StorageManager.getSettings().breathingSettings };
+  },
+
+  /**
+   * Update breathing pacer settings (partial update)
+   */
+  updateBreathingSettings: (partial: Partial<BreathingSettings>) => {
+    StorageManager.updateSettings({
+      breathingSettings: { ...StorageManager.getBreathingSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get saved soundscapes (falls back to the built-in mix)
+   */
+  getSoundscapes: (): Soundscape[] => {
+    return StorageManager.getSettings().soundscapes || DEFAULT_SOUNDSCAPES;
+  },
+
+  /**
+   * Save soundscapes
+   */
+  saveSoundscapes: (soundscapes: Soundscape[]) => {
+    StorageManager.updateSettings({ soundscapes });
+  },
+
+  /**
+   * Get a soundscape by id (null if it was deleted)
+   */
+  getSoundscape: (id: string): Soundscape | null => {
+    return StorageManager.getSoundscapes().find(soundscape => soundscape.id === id) || null;
+  },
+
+  /**
+   * Get bell settings (with defaults for missing fields)
+   */
+  getBellSettings: (): BellSettings => {
+    return { ...DEFAULT_BELL_SETTINGS, ...StorageManager.getSettings().bellSettings };
+  },
+
+  /**
+   * Update bell settings (partial update)
+   */
+  updateBellSettings: (partial: Partial<BellSettings>) => {
+    StorageManager.updateSettings({
+      bellSettings: { ...StorageManager.getBellSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get saved playlists
+   */
+  getPlaylists: (): Playlist[] => {
+    return StorageManager.getSettings().playlists || [];
+  },
+
+  /**
+   * Save the full playlist list
+   */
+  savePlaylists: (playlists: Playlist[]) => {
+    StorageManager.updateSettings({ playlists });
+  },
+
+  /**
+   * Get a playlist by id (null if it was deleted)
+   */
+  getPlaylist: (id: string): Playlist | null => {
+    return StorageManager.getPlaylists().find(playlist => playlist.id === id) || null;
+  },
+
+  /**
+   * Get saved cue scripts (falls back to the built-in script)
+   */
+  getCueScripts: (): CueScript[] => {
+    return StorageManager.getSettings().cueScripts || DEFAULT_CUE_SCRIPTS;
+  },
+
+  /**
+   * Save cue scripts
+   */
+  saveCueScripts: (cueScripts: CueScript[]) => {
+    StorageManager.updateSettings({ cueScripts });
+  },
+
+  /**
+   * Get the script selected in guidance settings (null when guidance is off)
+   */
+  getActiveCueScript: (): CueScript | null => {
+    const { scriptId } = StorageManager.getGuidanceSettings();
+    return StorageManager.getCueScripts().find(script => script.id === scriptId) || null;
+  },
+
+  /**
+   * Get guidance settings (with defaults for missing fields)
+   */
+  getGuidanceSettings: (): GuidanceSettings => {
+    return { ...DEFAULT_GUIDANCE_SETTINGS, ...StorageManager.getSettings().guidanceSettings };
+  },
+
+  /**
+   * Update guidance settings (partial update)
+   */
+  updateGuidanceSettings: (partial: Partial<GuidanceSettings>) => {
+    StorageManager.updateSettings({
+      guidanceSettings: { ...StorageManager.getGuidanceSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get slideshow settings (with defaults for missing fields)
+   */
+  getSlideshowSettings: (): SlideshowSettings => {
+    return { ...DEFAULT_SLIDESHOW_SETTINGS, ...StorageManager.getSettings().slideshowSettings };
+  },
+
+  /**
+   * Update slideshow settings (partial update)
+   */
+  updateSlideshowSettings: (partial: Partial<SlideshowSettings>) => {
+    StorageManager.updateSettings({
+      slideshowSettings: { ...StorageManager.getSlideshowSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get theme settings (with defaults for missing fields)
+   */
+  getThemeSettings: (): ThemeSettings => {
+    return { ...DEFAULT_THEME_SETTINGS, ...StorageManager.getSettings().themeSettings };
+  },
+
+  /**
+   * Update theme settings (partial update)
+   */
+  updateThemeSettings: (partial: Partial<ThemeSettings>) => {
+    StorageManager.updateSettings({
+      themeSettings: { ...StorageManager.getThemeSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get time-of-day background settings (with defaults for missing fields)
+   */
+  getTimeOfDaySettings: (): TimeOfDaySettings => {
+    return { ...DEFAULT_TIME_OF_DAY_SETTINGS, ...StorageManager.getSettings().timeOfDaySettings };
+  },
+
+  /**
+   * Update time-of-day background settings (partial update)
+   */
+  updateTimeOfDaySettings: (partial: Partial<TimeOfDaySettings>) => {
+    StorageManager.updateSettings({
+      timeOfDaySettings: { ...StorageManager.getTimeOfDaySettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get themes saved in the theme editor
+   */
+  getSavedThemes: (): SavedTheme[] => {
+    return StorageManager.getSettings().savedThemes || [];
+  },
+
+  /**
+   * Save the theme list (in display order)
+   */
+  saveSavedThemes: (themes: SavedTheme[]) => {
+    StorageManager.updateSettings({ savedThemes: themes });
+  },
+
+  /**
+   * Whether the user has changed the theme or saved any (vs. the defaults)
+   */
+  hasCustomTheme: (): boolean => {
+    const settings = StorageManager.getSettings();
+    return !!settings.themeSettings || !!settings.savedThemes?.length;
+  },
+
+  /**
+   * Get volume settings (with defaults for missing fields, clamped to range)
+   */
+  getVolumeSettings: (): VolumeSettings => {
+    return clampVolumeSettings({ ...DEFAULT_VOLUME_SETTINGS, ...StorageManager.getSettings().volumeSettings });
+  },
+
+  /**
+   * Update volume settings (partial update, clamped to range)
+   */
+  updateVolumeSettings: (partial: Partial<VolumeSettings>) => {
+    StorageManager.updateSettings({
+      volumeSettings: clampVolumeSettings({ ...StorageManager.getVolumeSettings(), ...partial })
+    });
+  },
+
+  /**
+   * Get entrainment settings (with defaults for missing fields)
+   */
+  getEntrainmentSettings: (): EntrainmentSettings => {
+    return { ...DEFAULT_ENTRAINMENT_SETTINGS, ...StorageManager.getSettings().entrainmentSettings };
+  },
+
+  /**
+   * Update entrainment settings (partial update)
+   */
+  updateEntrainmentSettings: (partial: Partial<EntrainmentSettings>) => {
+    StorageManager.updateSettings({
+      entrainmentSettings: { ...StorageManager.getEntrainmentSettings(), ...partial }
+    });
+  },
+
+  /**
+   * Get saved parameters of every generated sound, keyed by generator id
+   */
+  getGeneratorSettings: (): Record<string, Partial<GeneratorParams>> => {
+    return StorageManager.getSettings().generatorSettings || {};
+  },
+
+  /**
+   * Update the parameters of one generated sound (partial update)
+   */
+  updateGeneratorParams: (generatorId: string, partial: Partial<GeneratorParams>) => {
+    const generatorSettings = StorageManager.getGeneratorSettings();
+    StorageManager.updateSettings({
+      generatorSettings: {
+        ...generatorSettings,
+        [generatorId]: { ...generatorSettings[generatorId], ...partial }
       }
-    }
+    });
+  },
 
-    return {
-      totalSeconds: 0,
-      lastSession: null,
-      sessionsCount: 0
-    };
+  /**
+   * Get local stats
+   */
+  getLocalStats: (): LocalStats => {
+    return readStored(STORAGE_KEYS.LOCAL_STATS, LOCAL_STATS_SCHEMA) || getDefaultLocalStats();
   },
 
   /**
    * Update local stats
    */
   updateLocalStats: (stats: LocalStats) => {
-    localStorage.setItem(STORAGE_KEYS.LOCAL_STATS, JSON.stringify(stats));
+    writeStored(STORAGE_KEYS.LOCAL_STATS, LOCAL_STATS_SCHEMA, stats);
   },
 
   /**
@@ -255,28 +1290,23 @@ export const StorageManager = {
     });
     await mediaCache.deleteFile('audio');
     await mediaCache.deleteFile('image');
+    await mediaCache.deleteFile('bell');
+    await mediaCache.deleteFile('video');
+    await mediaCache.clearLibrary();
   },
 
   /**
    * Save session checkpoint (call frequently during active session)
    */
   saveSessionCheckpoint: (checkpoint: SessionCheckpoint): void => {
-    localStorage.setItem(STORAGE_KEYS.SESSION_CHECKPOINT, JSON.stringify(checkpoint));
+    writeStored(STORAGE_KEYS.SESSION_CHECKPOINT, SESSION_CHECKPOINT_SCHEMA, checkpoint);
   },
 
   /**
    * Get active session checkpoint (if exists)
    */
   getSessionCheckpoint: (): SessionCheckpoint | null => {
-    const stored = localStorage.getItem(STORAGE_KEYS.SESSION_CHECKPOINT);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch {
-        return null;
-      }
-    }
-    return null;
+    return readStored(STORAGE_KEYS.SESSION_CHECKPOINT, SESSION_CHECKPOINT_SCHEMA);
   },
 
   /**
@@ -290,22 +1320,14 @@ export const StorageManager = {
    * Save pending orphan session (needs user confirmation)
    */
   savePendingOrphanSession: (session: PendingOrphanSession): void => {
-    localStorage.setItem(STORAGE_KEYS.PENDING_ORPHAN_SESSION, JSON.stringify(session));
+    writeStored(STORAGE_KEYS.PENDING_ORPHAN_SESSION, PENDING_ORPHAN_SESSION_SCHEMA, session);
   },
 
   /**
    * Get pending orphan session (if exists)
    */
   getPendingOrphanSession: (): PendingOrphanSession | null => {
-    const stored = localStorage.getItem(STORAGE_KEYS.PENDING_ORPHAN_SESSION);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch {
-        return null;
-      }
-    }
-    return null;
+    return readStored(STORAGE_KEYS.PENDING_ORPHAN_SESSION, PENDING_ORPHAN_SESSION_SCHEMA);
   },
 
   /**
@@ -313,7 +1335,88 @@ export const StorageManager = {
    */
   clearPendingOrphanSession: (): void => {
     localStorage.removeItem(STORAGE_KEYS.PENDING_ORPHAN_SESSION);
+  },
+
+  /**
+   * Get completed sessions (newest first)
+   */
+  getSessionHistory: (): SessionRecord[] => {
+    return readStored(STORAGE_KEYS.SESSION_HISTORY, SESSION_HISTORY_SCHEMA) || [];
+  },
+
+  /**
+   * Add a completed session to local history
+   */
+  addSessionToHistory: (record: SessionRecord): void => {
+    const history = [record, ...StorageManager.getSessionHistory()].slice(0, MAX_SESSION_HISTORY);
+    writeStored(STORAGE_KEYS.SESSION_HISTORY, SESSION_HISTORY_SCHEMA, history);
+  },
+
+  /**
+   * Replace local history (newest first, bounded like addSessionToHistory)
+   */
+  saveSessionHistory: (history: SessionRecord[]): void => {
+    writeStored(STORAGE_KEYS.SESSION_HISTORY, SESSION_HISTORY_SCHEMA, history.slice(0, MAX_SESSION_HISTORY));
+  },
+
+  /**
+   * Get all cached background palettes
+   */
+  getPaletteCache: (): Record<string, CachedPalette> => {
+    return readStored(STORAGE_KEYS.PALETTE_CACHE, PALETTE_CACHE_SCHEMA) || {};
+  },
+
+  /**
+   * Get the cached colour clusters for a background (null if not extracted yet)
+   */
+  getCachedClusters: (key: string): ColorCluster[] | null => {
+    return StorageManager.getPaletteCache()[key]?.clusters || null;
+  },
+
+  /**
+   * Cache the colour clusters extracted for a background
+   */
+  cacheClusters: (key: string, clusters: ColorCluster[]): void => {
+    const cache = { ...StorageManager.getPaletteCache(), [key]: { clusters, usedAt: Date.now() } };
+    const kept = Object.entries(cache)
+      .sort(([, a], [, b]) => b.usedAt - a.usedAt)
+      .slice(0, MAX_CACHED_PALETTES);
+    writeStored(STORAGE_KEYS.PALETTE_CACHE, PALETTE_CACHE_SCHEMA, Object.fromEntries(kept));
   }
 };
 
-export type { SessionCheckpoint, PendingOrphanSession };
+export type {
+  CachedPalette,
+  SessionCheckpoint,
+  PausedInterval,
+  PendingOrphanSession,
+  SavedTheme,
+  SessionRecord,
+  TimerSettings,
+  IntervalBellSchedule,
+  GoalBehavior,
+  SessionPlan,
+  SessionPlanStage,
+  TimerPreset,
+  BreathingSettings,
+  BreathingTimings,
+  BellSettings,
+  CueScript,
+  EntrainmentSettings,
+  GeneratorParams,
+  GuidanceSettings,
+  GuidedCue,
+  LibraryTrack,
+  LocalStats,
+  MediaType,
+  Playlist,
+  SlideshowSettings,
+  Soundscape,
+  SoundscapeLayer,
+  ThemeColors,
+  ThemeSettings,
+  TimeOfDaySettings,
+  TimeWindow,
+  UserSettings,
+  VolumeSettings
+};
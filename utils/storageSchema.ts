@@ -0,0 +1,128 @@
+/**
+ * Storage Schema - Versioned envelopes for localStorage keys
+ * Every key is written as { version, data }. Reading runs the key's
+ * migrations from the stored version up to the current one, then validates
+ * the result: a field of the wrong type is repaired to its default (or
+ * dropped, so the getter's default applies) instead of discarding the whole
+ * value. Values written before envelopes existed are version 0 - the raw
+ * stored string.
+ */
+
+// Upgrades data from the version it's registered under to the next one
+export type Migration = (data: unknown) => unknown;
+
+// Whether a stored value has the expected type
+export type Guard = (value: unknown) => boolean;
+
+export interface StorageSchema<T> {
+  version: number;
+  migrations: Record<number, Migration>;
+  validate: (data: unknown) => T | null;  // null when nothing can be saved
+}
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNullable = (guard: Guard): Guard => value => value === null || guard(value);
+export const isArrayOf = (guard: Guard): Guard => value => Array.isArray(value) && value.every(guard);
+
+/**
+ * Guard for a field shaped like its default - a null default stands for an
+ * optional id or name, so strings are accepted too
+ */
+export function matchesDefault(defaultValue: unknown): Guard {
+  if (defaultValue === null) return isNullable(isString);
+  if (Array.isArray(defaultValue)) return value => Array.isArray(value);
+  if (isRecord(defaultValue)) return isRecord;
+  return value => typeof value === typeof defaultValue && (typeof value !== 'number' || Number.isFinite(value));
+}
+
+/**
+ * Guards for every field of a defaults object
+ */
+export function guardsFromDefaults(defaults: object): Record<string, Guard> {
+  return Object.fromEntries(Object.entries(defaults).map(([key, value]) => [key, matchesDefault(value)]));
+}
+
+/**
+ * Whether every guarded field is present and valid
+ */
+export function hasFields(value: unknown, guards: Record<string, Guard>): value is Record<string, unknown> {
+  return isRecord(value) && Object.entries(guards).every(([key, guard]) => guard(value[key]));
+}
+
+/**
+ * Copy of a stored object with invalid fields set to their default, or
+ * dropped when there is none. Missing fields with a default are filled in;
+ * fields without a guard are kept as they are.
+ */
+export function repairFields<T>(value: Record<string, unknown>, guards: Record<string, Guard>, defaults: object = {}): T {
+  const repaired: Record<string, unknown> = { ...value };
+  const fallbacks = defaults as Record<string, unknown>;
+
+  Object.entries(guards).forEach(([key, guard]) => {
+    if (repaired[key] === undefined && !(key in fallbacks)) return;
+    if (guard(repaired[key])) return;
+
+    if (key in fallbacks) {
+      repaired[key] = fallbacks[key];
+    } else {
+      delete repaired[key];
+    }
+  });
+
+  return repaired as T;
+}
+
+/**
+ * Parse JSON, or undefined when the text isn't JSON
+ */
+export function parseJson(text: unknown): unknown {
+  if (typeof text !== 'string') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isEnvelope(value: unknown): value is StoredEnvelope {
+  return isRecord(value) && isNumber(value.version) && 'data' in value;
+}
+
+/**
+ * Read a stored value - migrated to the current version and validated
+ * (null when missing or unusable)
+ */
+export function readVersioned<T>(stored: string | null, schema: StorageSchema<T>): T | null {
+  if (stored === null) return null;
+
+  const parsed = parseJson(stored);
+  let version = isEnvelope(parsed) ? parsed.version : 0;
+  let data = isEnvelope(parsed) ? parsed.data : stored;
+
+  // A newer version (written by a later release) is validated as it is
+  for (; version < schema.version; version++) {
+    const migrate = schema.migrations[version];
+    if (migrate) {
+      data = migrate(data);
+    }
+  }
+
+  return schema.validate(data);
+}
+
+/**
+ * Serialise a value in its versioned envelope
+ */
+export function writeVersioned<T>(data: T, schema: StorageSchema<T>): string {
+  return JSON.stringify({ version: schema.version, data });
+}
@@ -0,0 +1,77 @@
+/**
+ * Themes - Helpers for the theme editor
+ * A theme locks the primary colour (or follows the background) and sets how
+ * far the background is dimmed and shaded. The current theme and the saved
+ * ones sync to the server as user_preferences.theme_colors.
+ */
+
+import type { SavedTheme, ThemeColors, ThemeSettings } from './storage';
+
+// Background brightness offered in the theme editor
+export const MIN_BRIGHTNESS = 0.1;
+export const MAX_BRIGHTNESS = 0.8;
+
+// Swatches offered next to the colour picker
+export const THEME_SWATCHES = ['#fb923c', '#f472b6', '#a78bfa', '#60a5fa', '#2dd4bf', '#a3e635', '#facc15'];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Keep only well-formed theme settings, clamped to the editor's ranges
+ */
+export function sanitizeThemeSettings(value: unknown): ThemeSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const theme = value as Partial<ThemeSettings>;
+  if (typeof theme.brightness !== 'number' || typeof theme.overlay !== 'number') return null;
+
+  return {
+    primary: typeof theme.primary === 'string' && HEX_COLOR.test(theme.primary) ? theme.primary.toLowerCase() : null,
+    brightness: clamp(theme.brightness, MIN_BRIGHTNESS, MAX_BRIGHTNESS),
+    overlay: clamp(theme.overlay, 0, 1)
+  };
+}
+
+/**
+ * Keep only well-formed themes (e.g. from the server or an old client)
+ */
+export function sanitizeThemeColors(value: unknown): ThemeColors | null {
+  if (!value || typeof value !== 'object') return null;
+  const { current, themes } = value as Partial<ThemeColors>;
+
+  const currentTheme = sanitizeThemeSettings(current);
+  if (!currentTheme) return null;
+
+  const savedThemes = (Array.isArray(themes) ? themes : []).flatMap((item): SavedTheme[] => {
+    const theme = sanitizeThemeSettings(item);
+    return theme && typeof item.id === 'string' && typeof item.name === 'string'
+      ? [{ id: item.id, name: item.name, ...theme }]
+      : [];
+  });
+
+  return { current: currentTheme, themes: savedThemes };
+}
+
+/**
+ * Save the current settings as a named theme
+ */
+export function createTheme(name: string, settings: ThemeSettings): SavedTheme {
+  return { id: `theme-${crypto.randomUUID()}`, name: name.trim() || 'My Theme', ...settings };
+}
+
+/**
+ * Theme settings of a saved theme (without its id and name)
+ */
+export function getThemeSettings(theme: SavedTheme): ThemeSettings {
+  return { primary: theme.primary, brightness: theme.brightness, overlay: theme.overlay };
+}
+
+/**
+ * The gradient over the background, shaded by the theme's overlay strength
+ */
+export function getOverlayGradient(overlay: number): string {
+  return `linear-gradient(to bottom, rgba(0, 0, 0, ${0.6 * overlay}), transparent, rgba(0, 0, 0, ${0.8 * overlay}))`;
+}
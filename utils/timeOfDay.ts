@@ -0,0 +1,86 @@
+/**
+ * Time of Day - Backgrounds and themes that follow the local time
+ * The day is split into windows (morning, day, evening, night), each starting
+ * at a time of day with its own background and optionally its own theme - the
+ * built-in deep night theme, or one saved in the theme editor. BackgroundManager
+ * checks the window every minute, so the switch happens during a session.
+ */
+
+import { StorageManager } from './storage';
+import type { SavedTheme, ThemeSettings, TimeWindow } from './storage';
+
+export const NIGHT_THEME_ID = 'night';
+
+// Deep night colours - a soft indigo over a darker background
+export const NIGHT_THEME: ThemeSettings = {
+  primary: '#818cf8',
+  brightness: 0.15,
+  overlay: 1
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes after local midnight
+ */
+export function getMinutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * The window `date` falls in - the last one started, carrying over from the
+ * previous day before the earliest start
+ */
+export function getActiveWindow(windows: TimeWindow[], date: Date): TimeWindow | null {
+  if (windows.length === 0) return null;
+
+  const minutes = getMinutesOfDay(date);
+  const sorted = [...windows].sort((a, b) => a.startMinutes - b.startMinutes);
+  const started = sorted.filter(window => window.startMinutes <= minutes);
+  return started.length > 0 ? started[started.length - 1] : sorted[sorted.length - 1];
+}
+
+/**
+ * Theme for a window's theme id (null = keep the user's theme)
+ */
+export function resolveWindowTheme(themeId: string | null, savedThemes: SavedTheme[]): ThemeSettings | null {
+  if (themeId === NIGHT_THEME_ID) return NIGHT_THEME;
+  const saved = savedThemes.find(theme => theme.id === themeId);
+  return saved ? { primary: saved.primary, brightness: saved.brightness, overlay: saved.overlay } : null;
+}
+
+/**
+ * The window in effect now, or null when time-of-day backgrounds are off
+ */
+export function getCurrentTimeWindow(date = new Date()): TimeWindow | null {
+  const settings = StorageManager.getTimeOfDaySettings();
+  return settings.enabled ? getActiveWindow(settings.windows, date) : null;
+}
+
+/**
+ * The theme in effect now - the current window's, or the user's own
+ */
+export function getCurrentTheme(date = new Date()): ThemeSettings {
+  const timeWindow = getCurrentTimeWindow(date);
+  const windowTheme = timeWindow && resolveWindowTheme(timeWindow.themeId, StorageManager.getSavedThemes());
+  return windowTheme || StorageManager.getThemeSettings();
+}
+
+/**
+ * "HH:MM" for a time input
+ */
+export function formatStartTime(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes after midnight from a time input's "HH:MM" (null if malformed)
+ */
+export function parseStartTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
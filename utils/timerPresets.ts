@@ -0,0 +1,63 @@
+/**
+ * Timer Presets - Helpers for the user-defined preset buttons
+ * A preset sets a count-down goal and can also switch the sound and
+ * background, so a "Zazen 40" button sets up the whole sit in one tap
+ */
+
+import type { TimerPreset } from './storage';
+
+/**
+ * Default label for a duration ("25 Min", "1 Hour", "1 Hour 30 Min")
+ */
+export function formatPresetDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${minutes} Min`;
+  const hourLabel = `${hours} ${hours === 1 ? 'Hour' : 'Hours'}`;
+  return rest > 0 ? `${hourLabel} ${rest} Min` : hourLabel;
+}
+
+/**
+ * Label shown on the preset button, falling back to the duration
+ */
+export function getPresetLabel(preset: TimerPreset): string {
+  return preset.label.trim() || formatPresetDuration(preset.minutes);
+}
+
+/**
+ * Move a preset up (-1) or down (+1) in the list, returning a new array
+ */
+export function movePreset(presets: TimerPreset[], id: string, direction: -1 | 1): TimerPreset[] {
+  const index = presets.findIndex(preset => preset.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= presets.length) return presets;
+
+  const moved = [...presets];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+/**
+ * Keep only well-formed presets (e.g. from the server or an old client)
+ */
+export function sanitizePresets(value: unknown): TimerPreset[] | null {
+  if (!Array.isArray(value)) return null;
+
+  return value
+    .filter((item): item is TimerPreset =>
+      !!item && typeof item.id === 'string' && typeof item.minutes === 'number' && item.minutes > 0)
+    .map(item => ({
+      id: item.id,
+      label: typeof item.label === 'string' ? item.label : '',
+      minutes: item.minutes,
+      audioId: typeof item.audioId === 'string' ? item.audioId : null,
+      imageId: typeof item.imageId === 'string' ? item.imageId : null
+    }));
+}
+
+/**
+ * Create a new preset for the preset editor
+ */
+export function createPreset(minutes = 25): TimerPreset {
+  return { id: `preset-${crypto.randomUUID()}`, label: '', minutes, audioId: null, imageId: null };
+}